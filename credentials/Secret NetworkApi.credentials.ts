@@ -13,6 +13,43 @@ export class SecretNetworkApi implements ICredentialType {
 			required: true,
 			description: 'The base URL for the Secret Network LCD endpoint',
 		},
+		{
+			displayName: 'Additional Endpoints',
+			name: 'additionalEndpoints',
+			type: 'string',
+			default: '',
+			placeholder: 'https://lcd.mainnet.secretsaturn.net, https://secretnetwork-api.lavenderfive.com',
+			description:
+				'Fallback LCD URLs, separated by commas or new lines. When set, the endpoints are probed before each execution and requests fail over between them.',
+		},
+		{
+			displayName: 'Max Block Age (Seconds)',
+			name: 'maxBlockAge',
+			type: 'number',
+			typeOptions: {
+				minValue: 1,
+			},
+			default: 60,
+			description: 'With additional endpoints, skip endpoints whose latest block is older than this',
+		},
+		{
+			displayName: 'Max Retries',
+			name: 'maxRetries',
+			type: 'number',
+			typeOptions: {
+				minValue: 0,
+			},
+			default: 3,
+			description:
+				'How often to retry a request that was rate limited (429) or, for queries, failed with a 5xx, a timeout or a connection error',
+		},
+		{
+			displayName: 'RPC URL',
+			name: 'rpcUrl',
+			type: 'string',
+			default: 'https://rpc.secret.express',
+			description: 'The base URL of a CometBFT (Tendermint) RPC endpoint, used by the RPC resource and the WebSocket trigger',
+		},
 		{
 			displayName: 'Authentication Required',
 			name: 'authRequired',
@@ -47,6 +84,23 @@ export class SecretNetworkApi implements ICredentialType {
 			},
 			description: 'Password for basic authentication',
 		},
+		{
+			displayName: 'Signing Key Type',
+			name: 'keyType',
+			type: 'options',
+			options: [
+				{
+					name: 'Private Key',
+					value: 'privateKey',
+				},
+				{
+					name: 'Mnemonic',
+					value: 'mnemonic',
+				},
+			],
+			default: 'privateKey',
+			description: 'How the key used to sign transactions is provided',
+		},
 		{
 			displayName: 'Private Key',
 			name: 'privateKey',
@@ -55,7 +109,69 @@ export class SecretNetworkApi implements ICredentialType {
 				password: true,
 			},
 			default: '',
+			displayOptions: {
+				show: {
+					keyType: ['privateKey'],
+				},
+			},
 			description: 'Private key for transaction signing (optional, required for write operations)',
 		},
+		{
+			displayName: 'Mnemonic',
+			name: 'mnemonic',
+			type: 'string',
+			typeOptions: {
+				password: true,
+			},
+			default: '',
+			displayOptions: {
+				show: {
+					keyType: ['mnemonic'],
+				},
+			},
+			description: 'BIP-39 mnemonic phrase, e.g. exported from Keplr or secretcli',
+		},
+		{
+			displayName: 'BIP-39 Passphrase',
+			name: 'passphrase',
+			type: 'string',
+			typeOptions: {
+				password: true,
+			},
+			default: '',
+			displayOptions: {
+				show: {
+					keyType: ['mnemonic'],
+				},
+			},
+			description: 'Optional passphrase (the "25th word") protecting the mnemonic',
+		},
+		{
+			displayName: 'Derivation Path',
+			name: 'derivationPath',
+			type: 'string',
+			default: "m/44'/529'/0'/0/0",
+			displayOptions: {
+				show: {
+					keyType: ['mnemonic'],
+				},
+			},
+			description: 'BIP-44 derivation path of the signing key',
+		},
+		{
+			displayName: 'Account Index',
+			name: 'accountIndex',
+			type: 'number',
+			typeOptions: {
+				minValue: 0,
+			},
+			default: 0,
+			displayOptions: {
+				show: {
+					keyType: ['mnemonic'],
+				},
+			},
+			description: 'Added to the address index (last segment) of the derivation path',
+		},
 	];
 }
\ No newline at end of file
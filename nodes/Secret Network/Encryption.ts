@@ -0,0 +1,376 @@
+/**
+ * Copyright (c) 2026 Velocity BPA
+ *
+ * Licensed under the Business Source License 1.1 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://github.com/VelocityBPA/n8n-nodes-secretnetwork/blob/main/LICENSE
+ *
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHmac,
+  createPrivateKey,
+  createPublicKey,
+  diffieHellman,
+  hkdfSync,
+  randomBytes,
+  timingSafeEqual,
+} from 'crypto';
+import { Buffer } from 'buffer';
+
+import { ProtobufReader } from './Protobuf';
+
+// Salt used by the Secret enclave when deriving per-message keys
+const HKDF_SALT = Buffer.from(
+  '000000000000000000024bead8df69990852c202db0e0097c1a12ea637d7e96d',
+  'hex',
+);
+
+// DER prefixes wrapping raw 32-byte X25519 keys into PKCS#8 / SPKI structures
+const X25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b656e04220420', 'hex');
+const X25519_SPKI_PREFIX = Buffer.from('302a300506032b656e032100', 'hex');
+
+export interface EncryptionKeyPair {
+  privateKey: Buffer;
+  publicKey: Buffer;
+}
+
+/**
+ * Derives a deterministic X25519 key pair from the signer's secp256k1 key,
+ * so ciphertexts produced by one execution can be decrypted by a later one
+ * (e.g. when looking up a transaction by hash).
+ */
+export function encryptionKeyPairFromSigningKey(signingKey: Uint8Array): EncryptionKeyPair {
+  const seed = createHmac('sha256', signingKey).update('secret-network-encryption-seed').digest();
+  return encryptionKeyPairFromSeed(seed);
+}
+
+export function encryptionKeyPairFromSeed(seed: Uint8Array): EncryptionKeyPair {
+  if (seed.length !== 32) {
+    throw new Error('Encryption seed must be 32 bytes');
+  }
+  const privateKey = Buffer.from(seed);
+  const publicKey = createPublicKey(x25519PrivateKeyObject(privateKey))
+    .export({ format: 'der', type: 'spki' })
+    .subarray(X25519_SPKI_PREFIX.length);
+  return { privateKey, publicKey: Buffer.from(publicKey) };
+}
+
+/**
+ * Derives the AES-SIV key shared with the enclave for a given nonce:
+ * HKDF-SHA256(X25519(ourKey, consensusIoPubKey) || nonce).
+ */
+export function computeTxEncryptionKey(
+  keyPair: EncryptionKeyPair,
+  consensusIoPubKey: Uint8Array,
+  nonce: Uint8Array,
+): Buffer {
+  const sharedSecret = diffieHellman({
+    privateKey: x25519PrivateKeyObject(keyPair.privateKey),
+    publicKey: createPublicKey({
+      key: Buffer.concat([X25519_SPKI_PREFIX, Buffer.from(consensusIoPubKey)]),
+      format: 'der',
+      type: 'spki',
+    }),
+  });
+  const ikm = Buffer.concat([sharedSecret, Buffer.from(nonce)]);
+  return Buffer.from(hkdfSync('sha256', ikm, HKDF_SALT, Buffer.alloc(0), 32));
+}
+
+/**
+ * Encrypts a contract message for the enclave. The result is laid out as
+ * nonce (32) || sender public key (32) || AES-SIV ciphertext, where the
+ * plaintext is the contract code hash followed by the JSON message.
+ */
+export function encryptContractMsg(
+  keyPair: EncryptionKeyPair,
+  consensusIoPubKey: Uint8Array,
+  codeHash: string,
+  msg: object,
+  nonce: Uint8Array = randomBytes(32),
+): Buffer {
+  const key = computeTxEncryptionKey(keyPair, consensusIoPubKey, nonce);
+  const plaintext = Buffer.from(codeHash.replace(/^0x/, '').toLowerCase() + JSON.stringify(msg));
+  const ciphertext = aesSivEncrypt(key, plaintext, [Buffer.alloc(0)]);
+  return Buffer.concat([Buffer.from(nonce), keyPair.publicKey, ciphertext]);
+}
+
+/**
+ * Decrypts an enclave response (query result, tx data or error) that was
+ * encrypted with the key derived for `nonce`.
+ */
+export function decryptContractResult(
+  keyPair: EncryptionKeyPair,
+  consensusIoPubKey: Uint8Array,
+  nonce: Uint8Array,
+  ciphertext: Uint8Array,
+): Buffer {
+  const key = computeTxEncryptionKey(keyPair, consensusIoPubKey, nonce);
+  return aesSivDecrypt(key, ciphertext, [Buffer.alloc(0)]);
+}
+
+// ============================================================
+// AES-SIV (RFC 5297) on top of AES-CMAC and AES-CTR
+// ============================================================
+
+export function aesSivEncrypt(
+  key: Uint8Array,
+  plaintext: Uint8Array,
+  associatedData: Uint8Array[] = [],
+): Buffer {
+  const { macKey, ctrKey, algorithm } = splitSivKey(key);
+  const iv = s2v(macKey, algorithm, [...associatedData, plaintext]);
+  const cipher = createCipheriv(`${algorithm}-ctr`, ctrKey, sivCounter(iv));
+  return Buffer.concat([iv, cipher.update(plaintext), cipher.final()]);
+}
+
+export function aesSivDecrypt(
+  key: Uint8Array,
+  ciphertext: Uint8Array,
+  associatedData: Uint8Array[] = [],
+): Buffer {
+  if (ciphertext.length < 16) {
+    throw new Error('AES-SIV ciphertext is too short');
+  }
+  const { macKey, ctrKey, algorithm } = splitSivKey(key);
+  const iv = Buffer.from(ciphertext.subarray(0, 16));
+  const decipher = createDecipheriv(`${algorithm}-ctr`, ctrKey, sivCounter(iv));
+  const plaintext = Buffer.concat([decipher.update(ciphertext.subarray(16)), decipher.final()]);
+  if (!timingSafeEqual(s2v(macKey, algorithm, [...associatedData, plaintext]), iv)) {
+    throw new Error('AES-SIV authentication failed');
+  }
+  return plaintext;
+}
+
+function splitSivKey(key: Uint8Array): { macKey: Buffer; ctrKey: Buffer; algorithm: string } {
+  if (key.length !== 32 && key.length !== 48 && key.length !== 64) {
+    throw new Error('AES-SIV key must be 32, 48 or 64 bytes');
+  }
+  const half = key.length / 2;
+  return {
+    macKey: Buffer.from(key.subarray(0, half)),
+    ctrKey: Buffer.from(key.subarray(half)),
+    algorithm: `aes-${half * 8}`,
+  };
+}
+
+function sivCounter(iv: Buffer): Buffer {
+  const counter = Buffer.from(iv);
+  counter[8] &= 0x7f;
+  counter[12] &= 0x7f;
+  return counter;
+}
+
+function s2v(key: Buffer, algorithm: string, strings: Uint8Array[]): Buffer {
+  let d = aesCmac(key, algorithm, Buffer.alloc(16));
+  for (const s of strings.slice(0, -1)) {
+    d = xor(dbl(d), aesCmac(key, algorithm, Buffer.from(s)));
+  }
+  const last = Buffer.from(strings[strings.length - 1]);
+  let t: Buffer;
+  if (last.length >= 16) {
+    t = Buffer.from(last);
+    const offset = t.length - 16;
+    for (let i = 0; i < 16; i++) t[offset + i] ^= d[i];
+  } else {
+    const padded = Buffer.alloc(16);
+    last.copy(padded);
+    padded[last.length] = 0x80;
+    t = xor(dbl(d), padded);
+  }
+  return aesCmac(key, algorithm, t);
+}
+
+function aesCmac(key: Buffer, algorithm: string, message: Buffer): Buffer {
+  const encryptBlock = (block: Buffer): Buffer => {
+    const cipher = createCipheriv(`${algorithm}-ecb`, key, null);
+    cipher.setAutoPadding(false);
+    return Buffer.concat([cipher.update(block), cipher.final()]);
+  };
+  const k1 = dbl(encryptBlock(Buffer.alloc(16)));
+  const k2 = dbl(k1);
+
+  const blockCount = Math.max(1, Math.ceil(message.length / 16));
+  const complete = message.length > 0 && message.length % 16 === 0;
+  const lastBlock = Buffer.alloc(16);
+  message.copy(lastBlock, 0, (blockCount - 1) * 16);
+  if (!complete) {
+    lastBlock[message.length - (blockCount - 1) * 16] = 0x80;
+  }
+
+  let x: Buffer = Buffer.alloc(16);
+  for (let i = 0; i < blockCount - 1; i++) {
+    x = encryptBlock(xor(x, message.subarray(i * 16, i * 16 + 16)));
+  }
+  return encryptBlock(xor(x, xor(lastBlock, complete ? k1 : k2)));
+}
+
+function dbl(block: Buffer): Buffer {
+  const out = Buffer.alloc(16);
+  for (let i = 0; i < 15; i++) {
+    out[i] = ((block[i] << 1) | (block[i + 1] >>> 7)) & 0xff;
+  }
+  out[15] = ((block[15] << 1) & 0xff) ^ (block[0] & 0x80 ? 0x87 : 0);
+  return out;
+}
+
+function xor(a: Uint8Array, b: Uint8Array): Buffer {
+  const out = Buffer.alloc(a.length);
+  for (let i = 0; i < a.length; i++) out[i] = a[i] ^ b[i];
+  return out;
+}
+
+function x25519PrivateKeyObject(privateKey: Uint8Array) {
+  return createPrivateKey({
+    key: Buffer.concat([X25519_PKCS8_PREFIX, Buffer.from(privateKey)]),
+    format: 'der',
+    type: 'pkcs8',
+  });
+}
+
+// ============================================================
+// Transaction results
+// ============================================================
+
+const COMPUTE_MSG_FIELDS: Record<string, string> = {
+  '/secret.compute.v1beta1.MsgExecuteContract': 'msg',
+  '/secret.compute.v1beta1.MsgInstantiateContract': 'init_msg',
+};
+
+/**
+ * Returns the encryption nonce of every message of a tx as returned by the
+ * LCD, or undefined for messages that carry no encrypted contract message.
+ */
+export function extractNonces(messages: Array<Record<string, any>>): Array<Buffer | undefined> {
+  return messages.map((message) => {
+    const field = COMPUTE_MSG_FIELDS[message['@type']];
+    const encrypted = field && message[field] ? Buffer.from(message[field], 'base64') : undefined;
+    return encrypted && encrypted.length >= 64 ? encrypted.subarray(0, 32) : undefined;
+  });
+}
+
+/**
+ * Decrypts the contract outputs of a tx response: the per-message response
+ * data (added as `decrypted_data`), wasm event attributes in `logs` and
+ * `events`, and encrypted contract errors in `raw_log`. Values that cannot
+ * be decrypted with the given key are left untouched.
+ */
+export function decryptTxResponse(
+  txResponse: Record<string, any>,
+  nonces: Array<Buffer | undefined>,
+  keyPair: EncryptionKeyPair,
+  consensusIoPubKey: Uint8Array,
+): Record<string, any> {
+  const candidates = nonces.filter((nonce): nonce is Buffer => nonce !== undefined);
+  if (!candidates.length) return txResponse;
+
+  const tryDecrypt = (ciphertext: Buffer, preferred?: Buffer): Buffer | undefined => {
+    for (const nonce of preferred ? [preferred, ...candidates] : candidates) {
+      try {
+        return decryptContractResult(keyPair, consensusIoPubKey, nonce, ciphertext);
+      } catch (error) {
+        // Not encrypted for this nonce, try the next one
+      }
+    }
+    return undefined;
+  };
+
+  const decryptEvents = (events: any[] | undefined, preferred?: Buffer) =>
+    events?.map((event) =>
+      event.type !== 'wasm'
+        ? event
+        : {
+            ...event,
+            attributes: (event.attributes ?? []).map((attribute: any) => {
+              if (attribute.key === 'contract_address') return attribute;
+              const decrypt = (value: string) =>
+                (value && tryDecrypt(Buffer.from(value, 'base64'), preferred)?.toString('utf8')) ?? value;
+              return { ...attribute, key: decrypt(attribute.key), value: decrypt(attribute.value) };
+            }),
+          },
+    );
+
+  const result: Record<string, any> = { ...txResponse };
+
+  if (txResponse.data) {
+    result.decrypted_data = decodeMsgResponses(txResponse.data).map((response, index) => {
+      const nonce = nonces[index];
+      if (!nonce || !response) return null;
+      const decrypted = tryDecrypt(response, nonce);
+      if (!decrypted) return null;
+      // The enclave returns the contract's binary response base64 encoded
+      const plaintext = Buffer.from(decrypted.toString('utf8'), 'base64').toString('utf8');
+      try {
+        return JSON.parse(plaintext);
+      } catch (error) {
+        return plaintext;
+      }
+    });
+  }
+
+  if (Array.isArray(txResponse.logs)) {
+    result.logs = txResponse.logs.map((log: any) => ({
+      ...log,
+      events: decryptEvents(log.events, nonces[Number(log.msg_index ?? 0)]),
+    }));
+  }
+
+  if (Array.isArray(txResponse.events)) {
+    result.events = decryptEvents(txResponse.events);
+  }
+
+  if (typeof txResponse.raw_log === 'string') {
+    result.raw_log = decryptErrorMessage(txResponse.raw_log, tryDecrypt);
+  }
+
+  return result;
+}
+
+/**
+ * Replaces "encrypted: <base64>" fragments of an error message with their
+ * plaintext when they can be decrypted.
+ */
+export function decryptErrorMessage(
+  message: string,
+  tryDecrypt: (ciphertext: Buffer) => Buffer | undefined,
+): string {
+  return message.replace(/encrypted: ([A-Za-z0-9+/=]+)/g, (match, ciphertext: string) => {
+    const plaintext = tryDecrypt(Buffer.from(ciphertext, 'base64'));
+    return plaintext ? plaintext.toString('utf8') : match;
+  });
+}
+
+/**
+ * Extracts the encrypted contract response of each message from the hex
+ * encoded TxMsgData, supporting both the legacy `data` list and the newer
+ * `msg_responses` list of Any.
+ */
+function decodeMsgResponses(hexData: string): Array<Buffer | undefined> {
+  let txMsgData: ProtobufReader;
+  try {
+    txMsgData = new ProtobufReader(Buffer.from(hexData, 'hex'));
+  } catch (error) {
+    return [];
+  }
+
+  const entries = txMsgData.has(2)
+    ? txMsgData.repeatedMessages(2).map((any) => ({ type: any.string(1), value: any.bytes(2) }))
+    : txMsgData.repeatedMessages(1).map((msgData) => ({ type: msgData.string(1), value: msgData.bytes(2) }));
+
+  return entries.map(({ type, value }) => {
+    if (!value) return undefined;
+    try {
+      const response = new ProtobufReader(value);
+      // MsgInstantiateContractResponse { address = 1; data = 2 }, MsgExecuteContractResponse { data = 1 }
+      return type.includes('MsgInstantiateContract') ? response.bytes(2) : response.bytes(1);
+    } catch (error) {
+      return undefined;
+    }
+  });
+}
@@ -0,0 +1,1836 @@
+/**
+ * Copyright (c) 2026 Velocity BPA
+ *
+ * Licensed under the Business Source License 1.1 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://github.com/VelocityBPA/n8n-nodes-secretnetwork/blob/main/LICENSE
+ *
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  IDataObject,
+  IExecuteFunctions,
+  IHttpRequestMethods,
+  IHttpRequestOptions,
+  INodeExecutionData,
+  IPollFunctions,
+  ITriggerFunctions,
+  NodeOperationError,
+  sleep,
+} from 'n8n-workflow';
+
+import { randomBytes } from 'crypto';
+import { Buffer } from 'buffer';
+
+import {
+  EncryptionKeyPair,
+  decryptContractResult,
+  decryptTxResponse,
+  encryptContractMsg,
+  encryptionKeyPairFromSeed,
+  encryptionKeyPairFromSigningKey,
+  extractNonces,
+} from './Encryption';
+import {
+  Coin,
+  EncodedMessage,
+  calculateFee,
+  computeTxHash,
+  encodeMsgExecuteContract,
+  encodeSimulationTx,
+  getContractMsgNonce,
+  parseGasPrice,
+  signTransaction,
+} from './Transaction';
+import { decodeTxRaw } from './TxDecoder';
+import { SecretWallet, walletFromMnemonic, walletFromPrivateKey } from './Wallet';
+
+export interface TxOptions {
+  gasLimit: number;
+  gasPrice: string;
+  memo?: string;
+  /**
+   * `signOnly` returns the signed tx instead of broadcasting it and
+   * `waitForConfirmation` polls until the tx is included in a block.
+   */
+  mode?: 'broadcast' | 'waitForConfirmation' | 'signOnly';
+  /** Seconds to wait for inclusion in `waitForConfirmation` mode. */
+  confirmationTimeout?: number;
+  /** Simulates the tx and uses gas used × `gasAdjustment` instead of `gasLimit`. */
+  autoGas?: boolean;
+  gasAdjustment?: number;
+  /** The input item the tx is sent for, or the items of a batch. */
+  itemIndex?: ItemIndex;
+}
+
+/**
+ * The input item a request is sent for, or the items of a batch, that the
+ * endpoint serving it is reported on and whose settings its retries follow.
+ */
+export type ItemIndex = number | number[];
+
+interface RequestLayer {
+  request(options: IHttpRequestOptions, itemIndex?: ItemIndex): Promise<any>;
+}
+
+// Set up per execution by createRequestContext
+const requestLayers = new WeakMap<object, RequestLayer>();
+
+/**
+ * Sends a request for an item through the retry and failover layer of the
+ * execution. Contexts without one, such as the triggers, send it directly.
+ */
+export async function sendRequest(
+  this: IExecuteFunctions | IPollFunctions | ITriggerFunctions,
+  options: IHttpRequestOptions,
+  itemIndex?: ItemIndex,
+): Promise<any> {
+  const layer = requestLayers.get(this);
+  return layer ? await layer.request(options, itemIndex) : await this.helpers.httpRequest(options);
+}
+
+/**
+ * Sends a request to the LCD endpoint configured in the credentials.
+ */
+export async function lcdRequest(
+  this: IExecuteFunctions | IPollFunctions,
+  credentials: IDataObject,
+  method: IHttpRequestMethods,
+  endpoint: string,
+  body?: IDataObject,
+  itemIndex?: ItemIndex,
+): Promise<any> {
+  const options: IHttpRequestOptions = {
+    method,
+    url: `${credentials.baseUrl || 'https://lcd.secret.express'}${endpoint}`,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    json: true,
+  };
+
+  if (body) {
+    options.body = body;
+  }
+
+  if (credentials.username && credentials.password) {
+    options.auth = {
+      username: credentials.username as string,
+      password: credentials.password as string,
+    };
+  }
+
+  return await sendRequest.call(this, options, itemIndex);
+}
+
+/**
+ * Base URL of the CometBFT RPC endpoint configured in the credentials.
+ */
+export function getRpcUrl(credentials: IDataObject): string {
+  return ((credentials.rpcUrl as string) || 'https://rpc.secret.express').replace(/\/+$/, '');
+}
+
+/**
+ * Calls a CometBFT RPC method through its URI (GET) interface and returns
+ * the JSON-RPC `result`. String arguments such as `query` must be passed
+ * JSON encoded, i.e. `JSON.stringify(query)`.
+ */
+export async function rpcRequest(
+  this: IExecuteFunctions | IPollFunctions | ITriggerFunctions,
+  credentials: IDataObject,
+  method: string,
+  params: Record<string, string | number | boolean | undefined> = {},
+  itemIndex?: ItemIndex,
+): Promise<any> {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== '') query.append(key, String(value));
+  }
+
+  const options: IHttpRequestOptions = {
+    method: 'GET',
+    url: `${getRpcUrl(credentials)}/${method}${query.toString() ? `?${query.toString()}` : ''}`,
+    json: true,
+  };
+  if (credentials.username && credentials.password) {
+    options.auth = {
+      username: credentials.username as string,
+      password: credentials.password as string,
+    };
+  }
+
+  const response = await sendRequest.call(this, options, itemIndex);
+  if (response?.error) {
+    const { message, data } = response.error;
+    throw new NodeOperationError(this.getNode(), `RPC ${method} failed: ${data || message}`);
+  }
+  return response?.result ?? response;
+}
+
+/**
+ * The LCD endpoints configured in the credentials: the base URL followed
+ * by the additional endpoints, without duplicates or trailing slashes.
+ */
+export function getLcdEndpoints(credentials: IDataObject): string[] {
+  const urls = [
+    (credentials.baseUrl as string) || 'https://lcd.secret.express',
+    ...((credentials.additionalEndpoints as string) ?? '').split(/[\s,]+/),
+  ];
+  return [...new Set(urls.map((url) => url.trim().replace(/\/+$/, '')).filter(Boolean))];
+}
+
+export interface LcdEndpointHealth {
+  url: string;
+  healthy: boolean;
+  reason?: string;
+  network?: string;
+  height?: number;
+  blockTime?: string;
+  syncing?: boolean;
+  /** Milliseconds the probe took. */
+  latency?: number;
+}
+
+// Probes must not hold up the execution when an endpoint hangs
+const LCD_PROBE_TIMEOUT = 5000;
+// Applied to LCD requests that can fail over, so a hanging endpoint is left
+const LCD_FAILOVER_REQUEST_TIMEOUT = 30000;
+// Blocks an endpoint may be behind the highest one before it counts as lagging
+const MAX_HEIGHT_LAG = 10;
+
+/**
+ * Reads the network, sync state and latest block of an LCD endpoint.
+ */
+export async function probeLcdEndpoint(
+  this: IExecuteFunctions,
+  credentials: IDataObject,
+  url: string,
+): Promise<LcdEndpointHealth> {
+  const get = async (path: string) =>
+    this.helpers.httpRequest({
+      method: 'GET',
+      url: `${url}${path}`,
+      json: true,
+      timeout: LCD_PROBE_TIMEOUT,
+      ...(credentials.username && credentials.password
+        ? { auth: { username: credentials.username as string, password: credentials.password as string } }
+        : {}),
+    });
+
+  const start = Date.now();
+  try {
+    const [nodeInfo, syncing, latest] = await Promise.all([
+      get('/cosmos/base/tendermint/v1beta1/node_info'),
+      get('/cosmos/base/tendermint/v1beta1/syncing'),
+      get('/cosmos/base/tendermint/v1beta1/blocks/latest'),
+    ]);
+    const header = (latest.sdk_block ?? latest.block).header;
+    return {
+      url,
+      healthy: true,
+      network: nodeInfo.default_node_info?.network,
+      height: Number(header.height),
+      blockTime: header.time,
+      syncing: syncing.syncing === true,
+      latency: Date.now() - start,
+    };
+  } catch (error: any) {
+    return { url, healthy: false, reason: `unreachable: ${error.message}` };
+  }
+}
+
+/**
+ * Marks endpoints that are catching up, on another network than the first
+ * reachable one, more than `maxBlockAge` seconds or `MAX_HEIGHT_LAG` blocks
+ * behind as unhealthy and orders the healthy ones by latency.
+ */
+export function rankLcdEndpoints(
+  probes: LcdEndpointHealth[],
+  maxBlockAge: number,
+  now = Date.now(),
+): LcdEndpointHealth[] {
+  const reachable = probes.filter((probe) => probe.healthy);
+  const network = reachable[0]?.network;
+  const maxHeight = Math.max(0, ...reachable.map((probe) => probe.height ?? 0));
+
+  const ranked = probes.map((probe): LcdEndpointHealth => {
+    if (!probe.healthy) return probe;
+    const blockAge = (now - new Date(probe.blockTime ?? 0).getTime()) / 1000;
+    let reason: string | undefined;
+    if (probe.syncing) reason = 'catching up';
+    else if (network && probe.network !== network) reason = `on network ${probe.network} instead of ${network}`;
+    else if (blockAge > maxBlockAge) reason = `latest block is ${Math.round(blockAge)} seconds old`;
+    else if (maxHeight - (probe.height ?? 0) > MAX_HEIGHT_LAG) reason = `${maxHeight - (probe.height ?? 0)} blocks behind`;
+    return reason ? { ...probe, healthy: false, reason } : probe;
+  });
+
+  return ranked
+    .filter((probe) => probe.healthy)
+    .sort((a, b) => (a.latency ?? 0) - (b.latency ?? 0))
+    .concat(ranked.filter((probe) => !probe.healthy));
+}
+
+/**
+ * Whether a failed request may be sent to another endpoint. Writes only
+ * fail over when the endpoint could not be reached, as a tx that timed out
+ * or hit a 5xx may still have been accepted.
+ */
+export function isFailoverError(error: any, method: IHttpRequestMethods = 'GET'): boolean {
+  if (isConnectionError(error)) return true;
+  if (method !== 'GET') return false;
+
+  const code = error.code ?? error.cause?.code;
+  return (
+    getHttpStatus(error) >= 500 ||
+    ['ETIMEDOUT', 'ECONNABORTED', 'ECONNRESET', 'ESOCKETTIMEDOUT'].includes(code) ||
+    /timeout|timed out/i.test(error.message ?? '')
+  );
+}
+
+/**
+ * Whether a request failed before it reached the endpoint.
+ */
+function isConnectionError(error: any): boolean {
+  return ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'EHOSTUNREACH'].includes(error.code ?? error.cause?.code);
+}
+
+function getHttpStatus(error: any): number {
+  return Number(error.httpCode ?? error.response?.status ?? error.cause?.response?.status);
+}
+
+export interface LcdFailover {
+  /** Endpoints in the order they are tried; failing ones move to the end. */
+  endpoints: string[];
+  probes: LcdEndpointHealth[];
+  /**
+   * Sends a request for one of the LCD endpoints to the healthiest one,
+   * moving on to the next on 5xx responses, timeouts and connection
+   * errors. Other requests are sent unchanged.
+   */
+  request(options: IHttpRequestOptions, onServed?: (endpoint: string) => void): Promise<any>;
+}
+
+/**
+ * Probes the LCD endpoints of the credentials for failover. Returns
+ * undefined when a single endpoint is configured.
+ *
+ * Requests stick to one endpoint rather than rotating so that account
+ * sequences and freshly broadcast txs are read from the same node.
+ */
+export async function createLcdFailover(
+  this: IExecuteFunctions,
+  credentials: IDataObject,
+): Promise<LcdFailover | undefined> {
+  const urls = getLcdEndpoints(credentials);
+  if (urls.length < 2) return undefined;
+
+  const probes = rankLcdEndpoints(
+    await Promise.all(urls.map((url) => probeLcdEndpoint.call(this, credentials, url))),
+    (credentials.maxBlockAge as number) || 60,
+  );
+  const healthy = probes.filter((probe) => probe.healthy);
+  for (const probe of probes.filter((probe) => !probe.healthy)) {
+    this.logger.warn(`Skipping LCD endpoint ${probe.url}: ${probe.reason}`);
+  }
+  // With no healthy endpoint left, stale data still beats failing every item
+  const endpoints = (healthy.length ? healthy : probes).map((probe) => probe.url);
+
+  const request = async (options: IHttpRequestOptions, onServed?: (endpoint: string) => void) => {
+    const url = String(options.url);
+    const base = urls.find((endpoint) => url.startsWith(endpoint));
+    if (!base) return this.helpers.httpRequest(options);
+
+    const path = url.slice(base.length);
+    let lastError: any;
+    for (const endpoint of [...endpoints]) {
+      try {
+        const response = await this.helpers.httpRequest({
+          timeout: LCD_FAILOVER_REQUEST_TIMEOUT,
+          ...options,
+          url: `${endpoint}${path}`,
+        });
+        onServed?.(endpoint);
+        return response;
+      } catch (error: any) {
+        if (!isFailoverError(error, options.method)) throw error;
+        this.logger.warn(`LCD endpoint ${endpoint} failed (${error.message}), trying the next one`);
+        endpoints.splice(endpoints.indexOf(endpoint), 1);
+        endpoints.push(endpoint);
+        lastError = error;
+      }
+    }
+    throw lastError;
+  };
+
+  return { endpoints, probes, request };
+}
+
+const RETRY_BASE_DELAY = 500;
+// Longer Retry-After waits fail the request instead of stalling the execution
+const RETRY_MAX_DELAY = 60000;
+const BROADCAST_LOOKUP_INTERVAL = 2000;
+
+export interface RetryOptions {
+  maxRetries: number;
+  /** Milliseconds to keep looking for a broadcast tx whose result is unknown. */
+  broadcastLookupTimeout?: number;
+  logger?: { warn(message: string): void };
+}
+
+/** Sends a request once, for the given item. */
+export type RequestSender = (options: IHttpRequestOptions, itemIndex?: ItemIndex) => Promise<any>;
+
+/**
+ * Milliseconds to wait before retrying a failed request, or undefined when
+ * it must not be retried. 429s are retried for every method, after their
+ * `Retry-After` when given; other errors only for GETs, with jittered
+ * exponential backoff.
+ */
+export function getRetryDelay(
+  error: any,
+  method: IHttpRequestMethods = 'GET',
+  attempt = 0,
+  random = Math.random,
+): number | undefined {
+  if (getHttpStatus(error) === 429) {
+    const headers = (error.response ?? error.cause?.response)?.headers;
+    const retryAfter = parseRetryAfter(headers?.['retry-after']);
+    if (retryAfter !== undefined) return retryAfter <= RETRY_MAX_DELAY ? retryAfter : undefined;
+  } else if (!isFailoverError(error, method)) {
+    return undefined;
+  }
+  return random() * Math.min(RETRY_MAX_DELAY, RETRY_BASE_DELAY * 2 ** (attempt + 1));
+}
+
+/**
+ * Converts a `Retry-After` header, in seconds or as an HTTP date, to
+ * milliseconds.
+ */
+export function parseRetryAfter(value: unknown, now = Date.now()): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (/^\d+$/.test(String(value).trim())) return Number(value) * 1000;
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Sends a request and retries it as allowed by `getRetryDelay`. A tx
+ * broadcast is never sent twice: when its result is unknown because of a
+ * timeout or a 5xx, the tx is looked up by hash instead.
+ */
+export async function requestWithRetry(
+  send: RequestSender,
+  options: IHttpRequestOptions,
+  retry: RetryOptions,
+  itemIndex?: ItemIndex,
+): Promise<any> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await send(options, itemIndex);
+    } catch (error: any) {
+      const txBytes = getBroadcastTxBytes(options);
+      // Without an answer below 500, the node may have accepted the tx
+      const unknownResult = !(getHttpStatus(error) < 500) && !isConnectionError(error);
+      if (txBytes && unknownResult) {
+        return await lookUpBroadcastTx(send, options, txBytes, error, retry, itemIndex);
+      }
+
+      const delay = getRetryDelay(error, options.method, attempt);
+      if (delay === undefined || attempt >= retry.maxRetries) throw error;
+      retry.logger?.warn(
+        `Request to ${options.url} failed (${error.message}), retrying in ${Math.round(delay)} ms`,
+      );
+      await sleep(delay);
+    }
+  }
+}
+
+function getBroadcastTxBytes(options: IHttpRequestOptions): string | undefined {
+  const body = options.body as IDataObject | undefined;
+  return options.method === 'POST' && /\/cosmos\/tx\/v1beta1\/txs$/.test(String(options.url))
+    ? (body?.tx_bytes as string | undefined)
+    : undefined;
+}
+
+async function lookUpBroadcastTx(
+  send: RequestSender,
+  options: IHttpRequestOptions,
+  txBytes: string,
+  broadcastError: any,
+  retry: RetryOptions,
+  itemIndex?: ItemIndex,
+): Promise<any> {
+  const txHash = computeTxHash(Buffer.from(txBytes, 'base64'));
+  const deadline = Date.now() + (retry.broadcastLookupTimeout ?? 20000);
+  const lookup: IHttpRequestOptions = {
+    ...options,
+    method: 'GET',
+    url: `${options.url}/${txHash}`,
+    body: undefined,
+  };
+  retry.logger?.warn(`Broadcast of ${txHash} failed (${broadcastError.message}), looking the tx up`);
+
+  let lookupError: any;
+  for (;;) {
+    try {
+      // Same shape as a broadcast response, with the DeliverTx result
+      const { tx_response } = await requestWithRetry(send, lookup, { ...retry, logger: undefined }, itemIndex);
+      return { tx_response };
+    } catch (error: any) {
+      if (!isNotFoundError(error)) lookupError = error;
+    }
+    if (Date.now() + BROADCAST_LOOKUP_INTERVAL > deadline) break;
+    await sleep(BROADCAST_LOOKUP_INTERVAL);
+  }
+
+  const message =
+    `The result of broadcasting transaction ${txHash} is unknown: ${broadcastError.message}. ` +
+    (lookupError
+      ? `Looking it up failed as well (${lookupError.message}).`
+      : 'It was not found on chain yet but may still be in the mempool.') +
+    ' Check the hash before sending it again.';
+  throw new Error(message);
+}
+
+export interface RequestContext {
+  failover?: LcdFailover;
+  /** The LCD endpoint that answered the last request of each item when failing over. */
+  servedBy: Map<number, string>;
+}
+
+/**
+ * Sets up the request layer that `sendRequest` and `lcdRequest` use for
+ * this execution: requests are retried as configured in the credentials
+ * and, unless disabled, LCD requests fail over between the configured
+ * endpoints. A broadcast whose result is unknown is looked up for as long
+ * as the Confirmation Timeout of its item, when it waits for confirmation.
+ */
+export async function createRequestContext(
+  this: IExecuteFunctions,
+  lcdFailover = true,
+): Promise<RequestContext> {
+  const credentials = await this.getCredentials('secretNetworkApi');
+  const failover = lcdFailover ? await createLcdFailover.call(this, credentials) : undefined;
+  const maxRetries = (credentials.maxRetries as number | undefined) ?? 3;
+
+  const servedBy = new Map<number, string>();
+  const send: RequestSender = async (options, itemIndex) =>
+    failover
+      ? failover.request(options, (endpoint) => {
+          for (const index of [itemIndex ?? []].flat()) servedBy.set(index, endpoint);
+        })
+      : this.helpers.httpRequest(options);
+
+  const request = async (options: IHttpRequestOptions, itemIndex?: ItemIndex) => {
+    const retry: RetryOptions = { maxRetries, logger: this.logger };
+    // A batch is sent with the settings of its first item
+    const [firstItem] = [itemIndex ?? []].flat();
+    if (getBroadcastTxBytes(options) && firstItem !== undefined) {
+      const timeout = this.getNodeParameter('confirmationTimeout', firstItem, 0) as number;
+      if (timeout) retry.broadcastLookupTimeout = timeout * 1000;
+    }
+    return await requestWithRetry(send, options, retry, itemIndex);
+  };
+  requestLayers.set(this, { request });
+
+  return { failover, servedBy };
+}
+
+/** Where the next page of a list starts, in the style of each API. */
+export interface PageCursor {
+  /** `pagination.next_key` of the previous page, empty for the first one. */
+  nextKey: string;
+  /** Page number starting at 1, for the tx search APIs. */
+  page: number;
+}
+
+/**
+ * Requests consecutive pages of a list and collects the entries found
+ * under `field`, up to `maxItems`. Cosmos SDK lists are followed by their
+ * `pagination.next_key`; the tx searches of the LCD and CometBFT RPC
+ * number their pages and report a `total` or `total_count` instead.
+ */
+export async function fetchAllPages(
+  fetchPage: (cursor: PageCursor) => Promise<any>,
+  field: string,
+  maxItems: number,
+): Promise<IDataObject[]> {
+  const results: IDataObject[] = [];
+  const cursor: PageCursor = { nextKey: '', page: 1 };
+  while (results.length < maxItems) {
+    const response = await fetchPage({ ...cursor });
+    const entries = (response?.[field] ?? []) as IDataObject[];
+    results.push(...entries);
+
+    cursor.nextKey = response?.pagination?.next_key ?? '';
+    cursor.page++;
+    const total = Number(response?.total ?? response?.total_count ?? 0);
+    if (!entries.length || (!cursor.nextKey && results.length >= total)) break;
+  }
+  return results.slice(0, maxItems);
+}
+
+/**
+ * Runs a list operation with Return All: fetches its pages up to the
+ * item's Max Items and emits them as one item per entry or as a single
+ * item holding all entries under `field`.
+ */
+export async function returnAllPages(
+  this: IExecuteFunctions,
+  itemIndex: number,
+  field: string,
+  fetchPage: (cursor: PageCursor) => Promise<any>,
+): Promise<INodeExecutionData[]> {
+  const maxItems = this.getNodeParameter('maxItems', itemIndex, 1000) as number;
+  const output = this.getNodeParameter('returnAllOutput', itemIndex, 'items') as string;
+  const entries = await fetchAllPages(fetchPage, field, maxItems);
+
+  const pairedItem = { item: itemIndex };
+  if (output === 'merged') {
+    return [{ json: { [field]: entries, count: entries.length }, pairedItem }];
+  }
+  return entries.map((entry) => ({ json: entry, pairedItem }));
+}
+
+/**
+ * Parses a `json` node parameter, which n8n hands over either as a string or
+ * as an already parsed value depending on how it was set.
+ */
+export function parseJsonParameter(this: IExecuteFunctions, value: unknown, name: string): any {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    throw new NodeOperationError(this.getNode(), `Parameter "${name}" must be valid JSON`);
+  }
+}
+
+/**
+ * Builds the wallet configured in the credentials, from either a raw
+ * private key or a mnemonic. Returns undefined when no key is configured.
+ */
+export function getCredentialsWallet(credentials: IDataObject): SecretWallet | undefined {
+  if (credentials.keyType === 'mnemonic') {
+    if (!credentials.mnemonic) return undefined;
+    return walletFromMnemonic(credentials.mnemonic as string, {
+      passphrase: credentials.passphrase as string,
+      derivationPath: credentials.derivationPath as string,
+      accountIndex: credentials.accountIndex as number,
+    });
+  }
+  return credentials.privateKey ? walletFromPrivateKey(credentials.privateKey as string) : undefined;
+}
+
+/**
+ * Resolves the signing key for an item, preferring a key set on the
+ * operation itself over the one stored in the credentials.
+ */
+export function getSigningWallet(
+  this: IExecuteFunctions,
+  credentials: IDataObject,
+  itemIndex: number,
+): SecretWallet {
+  const privateKey = this.getNodeParameter('privateKey', itemIndex, '') as string;
+  let wallet: SecretWallet | undefined;
+  try {
+    wallet = privateKey ? walletFromPrivateKey(privateKey) : getCredentialsWallet(credentials);
+  } catch (error: any) {
+    throw new NodeOperationError(this.getNode(), error.message, { itemIndex });
+  }
+  if (!wallet) {
+    throw new NodeOperationError(
+      this.getNode(),
+      'A signing key is required for this operation. Set a private key on the operation or a private key or mnemonic in the credentials.',
+      { itemIndex },
+    );
+  }
+  return wallet;
+}
+
+/**
+ * Reads the gas and broadcast settings shared by all write operations.
+ */
+export function getTxOptions(this: IExecuteFunctions, itemIndex: number): TxOptions {
+  return {
+    gasLimit: this.getNodeParameter('gasLimit', itemIndex, 200000) as number,
+    gasPrice: this.getNodeParameter('gasPrice', itemIndex, '0.25uscrt') as string,
+    mode: this.getNodeParameter('txMode', itemIndex, 'broadcast') as TxOptions['mode'],
+    autoGas: this.getNodeParameter('gasEstimation', itemIndex, 'manual') === 'auto',
+    gasAdjustment: this.getNodeParameter('gasAdjustment', itemIndex, 1.3) as number,
+    confirmationTimeout: this.getNodeParameter('confirmationTimeout', itemIndex, 60) as number,
+    itemIndex,
+  };
+}
+
+/**
+ * Operations that ask for a sender address sign with the configured key,
+ * so both must refer to the same account.
+ */
+export function assertSignerAddress(
+  this: IExecuteFunctions,
+  wallet: SecretWallet,
+  sender: string,
+  itemIndex: number,
+): void {
+  if (sender && sender !== wallet.address) {
+    throw new NodeOperationError(
+      this.getNode(),
+      `Sender ${sender} does not match the address of the signing key (${wallet.address})`,
+      { itemIndex },
+    );
+  }
+}
+
+export async function getChainId(
+  this: IExecuteFunctions,
+  credentials: IDataObject,
+  itemIndex?: ItemIndex,
+): Promise<string> {
+  const response = await lcdRequest.call(
+    this,
+    credentials,
+    'GET',
+    '/cosmos/base/tendermint/v1beta1/node_info',
+    undefined,
+    itemIndex,
+  );
+  return response.default_node_info.network;
+}
+
+/**
+ * Fetches account number and sequence, unwrapping vesting account types.
+ * Accounts that never received funds do not exist on chain yet.
+ */
+export async function getAccountInfo(
+  this: IExecuteFunctions,
+  credentials: IDataObject,
+  address: string,
+  itemIndex?: ItemIndex,
+): Promise<{ accountNumber: string; sequence: string }> {
+  const { account } = await lcdRequest.call(
+    this,
+    credentials,
+    'GET',
+    `/cosmos/auth/v1beta1/accounts/${address}`,
+    undefined,
+    itemIndex,
+  );
+  const baseAccount =
+    account.base_vesting_account?.base_account ?? account.base_account ?? account;
+  return {
+    accountNumber: baseAccount.account_number ?? '0',
+    sequence: baseAccount.sequence ?? '0',
+  };
+}
+
+export interface DelegatorReward {
+  validator_address: string;
+  reward: Array<{ denom: string; amount: string }>;
+}
+
+/**
+ * Returns the pending rewards of a delegator per validator. Reward amounts
+ * are DecCoins, i.e. they carry 18 decimals.
+ */
+export async function getDelegatorRewards(
+  this: IExecuteFunctions,
+  credentials: IDataObject,
+  delegatorAddress: string,
+  itemIndex?: ItemIndex,
+): Promise<DelegatorReward[]> {
+  const response = await lcdRequest.call(
+    this,
+    credentials,
+    'GET',
+    `/cosmos/distribution/v1beta1/delegators/${delegatorAddress}/rewards`,
+    undefined,
+    itemIndex,
+  );
+  return response.rewards ?? [];
+}
+
+export interface CompoundPlan {
+  total_rewards: number;
+  fee_reserve: number;
+  total_restaked: number;
+  validators: Array<{ validator_address: string; rewards: number; restaked: number }>;
+  skipped: Array<{ validator_address: string; rewards: number }>;
+}
+
+/**
+ * Decides how much to restake with each validator. Validators whose whole
+ * reward is below the minimum are left alone; the fee reserve is taken from
+ * the remaining rewards pro rata, rounding each share up.
+ */
+export function planRewardCompounding(
+  rewards: DelegatorReward[],
+  denom: string,
+  minimumReward: number,
+  feeReserve: number,
+): CompoundPlan {
+  const plan: CompoundPlan = {
+    total_rewards: 0,
+    fee_reserve: feeReserve,
+    total_restaked: 0,
+    validators: [],
+    skipped: [],
+  };
+
+  for (const { validator_address, reward } of rewards) {
+    const coin = reward.find((entry) => entry.denom === denom);
+    // Only whole units can be withdrawn, the decimals stay in the pool
+    const amount = coin ? Number(coin.amount.split('.')[0]) : 0;
+    if (amount < Math.max(minimumReward, 1)) {
+      plan.skipped.push({ validator_address, rewards: amount });
+      continue;
+    }
+    plan.validators.push({ validator_address, rewards: amount, restaked: 0 });
+    plan.total_rewards += amount;
+  }
+
+  if (plan.total_rewards <= feeReserve) return plan;
+
+  for (const validator of plan.validators) {
+    const reserveShare = Math.ceil((feeReserve * validator.rewards) / plan.total_rewards);
+    validator.restaked = validator.rewards - reserveShare;
+    plan.total_restaked += validator.restaked;
+  }
+  return plan;
+}
+
+export interface ValidatorHealth {
+  validator_address: string;
+  moniker: string;
+  consensus_address: string;
+  status: 'healthy' | 'at_risk' | 'jailed' | 'tombstoned';
+  healthy: boolean;
+  jailed: boolean;
+  tombstoned: boolean;
+  jailed_until: string;
+  bond_status: string;
+  missed_blocks_counter: number;
+  signed_blocks_window: number;
+  missed_blocks_ratio: number;
+  max_missed_blocks: number;
+  remaining_missed_blocks: number;
+}
+
+/**
+ * Turns a validator, its slashing signing info and the slashing params into
+ * a single verdict. A validator is at risk once its missed blocks reach the
+ * warning ratio of the signing window, and is jailed for downtime when it
+ * misses more than `max_missed_blocks`.
+ */
+export function assessValidatorHealth(
+  validator: IDataObject,
+  signingInfo: IDataObject,
+  params: IDataObject,
+  consensusAddress: string,
+  warningRatio: number,
+): ValidatorHealth {
+  const window = Number(params.signed_blocks_window);
+  const minSigned = parseGovDec(params.min_signed_per_window);
+  const maxMissed = window - Math.round(window * minSigned);
+  const missed = Number(signingInfo.missed_blocks_counter ?? 0);
+  const missedRatio = window ? missed / window : 0;
+  const tombstoned = signingInfo.tombstoned === true;
+  const jailed = validator.jailed === true;
+
+  let status: ValidatorHealth['status'] = 'healthy';
+  if (tombstoned) {
+    status = 'tombstoned';
+  } else if (jailed) {
+    status = 'jailed';
+  } else if (missedRatio >= warningRatio) {
+    status = 'at_risk';
+  }
+
+  return {
+    validator_address: validator.operator_address as string,
+    moniker: (validator.description as IDataObject | undefined)?.moniker as string ?? '',
+    consensus_address: consensusAddress,
+    status,
+    healthy: status === 'healthy',
+    jailed,
+    tombstoned,
+    jailed_until: signingInfo.jailed_until as string,
+    bond_status: validator.status as string,
+    missed_blocks_counter: missed,
+    signed_blocks_window: window,
+    missed_blocks_ratio: missedRatio,
+    max_missed_blocks: maxMissed,
+    remaining_missed_blocks: Math.max(maxMissed - missed, 0),
+  };
+}
+
+export interface StakingAprInputs {
+  inflation: number;
+  communityTax: number;
+  foundationTax?: number;
+  bondedTokens: number;
+  totalSupply: number;
+  commissionRate?: number;
+}
+
+/**
+ * Nominal staking APR: the newly minted supply, minus what the distribution
+ * module diverts to the community pool (and, on Secret, the foundation),
+ * shared by the bonded tokens. The validator APR additionally deducts the
+ * validator's commission.
+ */
+export function calculateStakingApr(inputs: StakingAprInputs): IDataObject {
+  const foundationTax = inputs.foundationTax ?? 0;
+  const bondedRatio = inputs.totalSupply ? inputs.bondedTokens / inputs.totalSupply : 0;
+  const nominalApr = bondedRatio
+    ? (inputs.inflation * (1 - inputs.communityTax - foundationTax)) / bondedRatio
+    : 0;
+  const apr = nominalApr * (1 - (inputs.commissionRate ?? 0));
+
+  return {
+    inflation: inputs.inflation,
+    community_tax: inputs.communityTax,
+    foundation_tax: foundationTax,
+    bonded_tokens: inputs.bondedTokens,
+    total_supply: inputs.totalSupply,
+    bonded_ratio: bondedRatio,
+    nominal_apr: nominalApr,
+    commission_rate: inputs.commissionRate ?? 0,
+    apr,
+    apr_percent: Math.round(apr * 10000) / 100,
+  };
+}
+
+/**
+ * Reads a `cosmos.Dec` as served by the LCD: most queries return decimal
+ * strings ("0.334000000000000000"), while some, such as the gov v1beta1 tally
+ * params, come as base64 of the integer scaled by 10^18.
+ */
+export function parseGovDec(value: unknown): number {
+  const text = String(value ?? '').trim();
+  if (/^\d*\.\d+$/.test(text)) return parseFloat(text);
+  const decoded = Buffer.from(text, 'base64').toString('utf8');
+  if (/^\d+$/.test(decoded)) return Number(decoded) / 1e18;
+  if (/^\d*\.\d+$/.test(decoded)) return parseFloat(decoded);
+  return parseFloat(text);
+}
+
+/**
+ * Applies the gov tally rules to the current votes: a proposal needs the
+ * quorum of bonded tokens to vote, must stay at or below the veto threshold
+ * of all votes, and needs more than the threshold of the non-abstaining
+ * votes to be yes.
+ */
+export function projectTally(inputs: {
+  tally: IDataObject;
+  tallyParams: IDataObject;
+  bondedTokens: number;
+  votingEndTime?: string;
+  now?: number;
+}): IDataObject {
+  const yes = Number(inputs.tally.yes ?? inputs.tally.yes_count ?? 0);
+  const abstain = Number(inputs.tally.abstain ?? inputs.tally.abstain_count ?? 0);
+  const no = Number(inputs.tally.no ?? inputs.tally.no_count ?? 0);
+  const noWithVeto = Number(inputs.tally.no_with_veto ?? inputs.tally.no_with_veto_count ?? 0);
+  const totalVoted = yes + abstain + no + noWithVeto;
+  const nonAbstaining = totalVoted - abstain;
+
+  const quorum = parseGovDec(inputs.tallyParams.quorum);
+  const threshold = parseGovDec(inputs.tallyParams.threshold);
+  const vetoThreshold = parseGovDec(inputs.tallyParams.veto_threshold);
+
+  const turnout = inputs.bondedTokens ? totalVoted / inputs.bondedTokens : 0;
+  const vetoRatio = totalVoted ? noWithVeto / totalVoted : 0;
+  const yesRatio = nonAbstaining ? yes / nonAbstaining : 0;
+  const quorumReached = totalVoted > 0 && turnout >= quorum;
+
+  let projectedOutcome: string;
+  if (!quorumReached) {
+    projectedOutcome = 'no_quorum';
+  } else if (vetoRatio > vetoThreshold) {
+    projectedOutcome = 'vetoed';
+  } else if (yesRatio > threshold) {
+    projectedOutcome = 'passing';
+  } else {
+    projectedOutcome = 'rejected';
+  }
+
+  const endTime = inputs.votingEndTime ? Date.parse(inputs.votingEndTime) : NaN;
+  const secondsRemaining = Number.isNaN(endTime)
+    ? null
+    : Math.max(Math.floor((endTime - (inputs.now ?? Date.now())) / 1000), 0);
+
+  return {
+    tally: { yes, abstain, no, no_with_veto: noWithVeto },
+    bonded_tokens: inputs.bondedTokens,
+    total_voted: totalVoted,
+    turnout,
+    quorum,
+    quorum_reached: quorumReached,
+    tokens_missing_for_quorum: Math.max(Math.ceil(quorum * inputs.bondedTokens - totalVoted), 0),
+    yes_ratio: yesRatio,
+    threshold,
+    veto_ratio: vetoRatio,
+    veto_threshold: vetoThreshold,
+    voting_end_time: inputs.votingEndTime ?? null,
+    seconds_remaining: secondsRemaining,
+    voting_ended: secondsRemaining === 0,
+    projected_outcome: projectedOutcome,
+    passing: projectedOutcome === 'passing',
+  };
+}
+
+/**
+ * Returns the network's consensus IO public key that contract messages
+ * are encrypted against.
+ */
+export async function getConsensusIoPubKey(
+  this: IExecuteFunctions | IPollFunctions,
+  credentials: IDataObject,
+  itemIndex?: ItemIndex,
+): Promise<Buffer> {
+  const response = await lcdRequest.call(
+    this,
+    credentials,
+    'GET',
+    '/registration/v1beta1/tx-key',
+    undefined,
+    itemIndex,
+  );
+  return Buffer.from(response.key, 'base64');
+}
+
+export async function getCodeHashByContract(
+  this: IExecuteFunctions,
+  credentials: IDataObject,
+  contractAddress: string,
+  itemIndex?: ItemIndex,
+): Promise<string> {
+  const response = await lcdRequest.call(
+    this,
+    credentials,
+    'GET',
+    `/compute/v1beta1/code_hash/by_contract_address/${contractAddress}`,
+    undefined,
+    itemIndex,
+  );
+  return response.code_hash;
+}
+
+export async function getCodeHashByCodeId(
+  this: IExecuteFunctions,
+  credentials: IDataObject,
+  codeId: string,
+  itemIndex?: ItemIndex,
+): Promise<string> {
+  const response = await lcdRequest.call(
+    this,
+    credentials,
+    'GET',
+    `/compute/v1beta1/code_hash/by_code_id/${codeId}`,
+    undefined,
+    itemIndex,
+  );
+  return response.code_hash;
+}
+
+/**
+ * Returns the node's `minimum-gas-price` for `denom` (e.g. "0.0125uscrt"),
+ * or undefined when the node does not expose its config or sets no price
+ * for that denom.
+ */
+export async function getMinimumGasPrice(
+  this: IExecuteFunctions,
+  credentials: IDataObject,
+  denom: string,
+  itemIndex?: ItemIndex,
+): Promise<string | undefined> {
+  let response: any;
+  try {
+    response = await lcdRequest.call(
+      this,
+      credentials,
+      'GET',
+      '/cosmos/base/node/v1beta1/config',
+      undefined,
+      itemIndex,
+    );
+  } catch (error) {
+    // Older nodes do not implement the config endpoint
+    return undefined;
+  }
+  // The setting is a comma separated list of DecCoins
+  return String(response?.minimum_gas_price ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .find((entry) => entry && parseGasPrice(entry).denom === denom);
+}
+
+/**
+ * Raises `gasPrice` to the node's minimum gas price, below which the node
+ * rejects the tx with "insufficient fee".
+ */
+export async function applyMinimumGasPrice(
+  this: IExecuteFunctions,
+  credentials: IDataObject,
+  gasPrice: string,
+  itemIndex?: ItemIndex,
+): Promise<string> {
+  const { amount, denom } = parseGasPrice(gasPrice);
+  const minimum = await getMinimumGasPrice.call(this, credentials, denom, itemIndex);
+  return minimum && parseGasPrice(minimum).amount > amount ? minimum : gasPrice;
+}
+
+/**
+ * Simulates the messages and returns the gas used multiplied by the
+ * adjustment factor, leaving headroom for state changes between the
+ * simulation and the tx's inclusion in a block.
+ */
+export async function estimateGas(
+  this: IExecuteFunctions,
+  credentials: IDataObject,
+  wallet: SecretWallet,
+  messages: EncodedMessage[],
+  sequence: string,
+  txOptions: TxOptions,
+): Promise<number> {
+  const txBytes = encodeSimulationTx(wallet.publicKey, messages, sequence, txOptions.memo);
+  let response: any;
+  try {
+    response = await lcdRequest.call(
+      this,
+      credentials,
+      'POST',
+      '/cosmos/tx/v1beta1/simulate',
+      { tx_bytes: txBytes.toString('base64') },
+      txOptions.itemIndex,
+    );
+  } catch (error: any) {
+    const details = error.response?.data?.message ?? error.cause?.response?.data?.message ?? error.message;
+    throw new NodeOperationError(this.getNode(), `Gas estimation failed: ${details}`);
+  }
+  const gasUsed = parseInt(response.gas_info?.gas_used ?? '0', 10);
+  if (!gasUsed) {
+    throw new NodeOperationError(this.getNode(), 'Gas estimation failed: the simulation returned no gas used');
+  }
+  return Math.ceil(gasUsed * (txOptions.gasAdjustment || 1.3));
+}
+
+/**
+ * Encrypts a contract execute or init message for the enclave using the
+ * signer's deterministic encryption key.
+ */
+export async function encryptForContract(
+  this: IExecuteFunctions,
+  credentials: IDataObject,
+  wallet: SecretWallet,
+  codeHash: string,
+  msg: object,
+  itemIndex?: ItemIndex,
+): Promise<{ ciphertext: Buffer; keyPair: EncryptionKeyPair }> {
+  const consensusIoPubKey = await getConsensusIoPubKey.call(this, credentials, itemIndex);
+  const keyPair = encryptionKeyPairFromSigningKey(wallet.privateKey);
+  return { ciphertext: encryptContractMsg(keyPair, consensusIoPubKey, codeHash, msg), keyPair };
+}
+
+/**
+ * Runs an encrypted query against a Secret contract and returns the
+ * decrypted JSON response. Contract errors are returned encrypted as well
+ * and are decrypted before being rethrown.
+ */
+export async function queryContract(
+  this: IExecuteFunctions,
+  credentials: IDataObject,
+  contractAddress: string,
+  query: object,
+  itemIndex?: ItemIndex,
+): Promise<any> {
+  const codeHash = await getCodeHashByContract.call(this, credentials, contractAddress, itemIndex);
+  const consensusIoPubKey = await getConsensusIoPubKey.call(this, credentials, itemIndex);
+  // Queries are not tied to an account, so a throwaway key pair is enough
+  const keyPair = encryptionKeyPairFromSeed(randomBytes(32));
+  const nonce = randomBytes(32);
+  const encryptedQuery = encryptContractMsg(keyPair, consensusIoPubKey, codeHash, query, nonce);
+
+  let response: any;
+  try {
+    response = await lcdRequest.call(
+      this,
+      credentials,
+      'GET',
+      `/compute/v1beta1/query/${contractAddress}?query=${encodeURIComponent(encryptedQuery.toString('base64'))}`,
+      undefined,
+      itemIndex,
+    );
+  } catch (error: any) {
+    const details = JSON.stringify(error.response?.data ?? error.cause?.response?.data ?? '') + (error.message ?? '');
+    const encryptedError = /encrypted: ([A-Za-z0-9+/=]+)/.exec(details);
+    if (!encryptedError) throw error;
+    const plaintext = decryptContractResult(
+      keyPair,
+      consensusIoPubKey,
+      nonce,
+      Buffer.from(encryptedError[1], 'base64'),
+    ).toString('utf8');
+    throw new NodeOperationError(this.getNode(), `Contract query failed: ${plaintext}`);
+  }
+
+  // The enclave returns the base64 encoded JSON answer, encrypted
+  const decrypted = decryptContractResult(
+    keyPair,
+    consensusIoPubKey,
+    nonce,
+    Buffer.from(response.data, 'base64'),
+  );
+  return JSON.parse(Buffer.from(decrypted.toString('utf8'), 'base64').toString('utf8'));
+}
+
+/**
+ * Decrypts the contract results of a tx response with the signer's
+ * encryption key. `nonces` holds one entry per tx message.
+ */
+export async function decryptTxResult(
+  this: IExecuteFunctions | IPollFunctions,
+  credentials: IDataObject,
+  wallet: SecretWallet,
+  txResponse: IDataObject,
+  nonces: Array<Buffer | undefined>,
+  itemIndex?: ItemIndex,
+): Promise<IDataObject> {
+  if (!nonces.some((nonce) => nonce)) return txResponse;
+  const consensusIoPubKey = await getConsensusIoPubKey.call(this, credentials, itemIndex);
+  const keyPair = encryptionKeyPairFromSigningKey(wallet.privateKey);
+  return decryptTxResponse(txResponse, nonces, keyPair, consensusIoPubKey);
+}
+
+/**
+ * Decrypts a `GetTxResponse` from the LCD when a signing key is configured,
+ * using the nonces embedded in the tx's compute messages.
+ */
+export async function decryptGetTxResponse(
+  this: IExecuteFunctions | IPollFunctions,
+  credentials: IDataObject,
+  response: IDataObject,
+  itemIndex?: ItemIndex,
+): Promise<IDataObject> {
+  const messages = ((response.tx as IDataObject)?.body as IDataObject)?.messages;
+  if (!response.tx_response || !Array.isArray(messages)) {
+    return response;
+  }
+  const wallet = getCredentialsWallet(credentials);
+  if (!wallet) {
+    return response;
+  }
+  const txResponse = await decryptTxResult.call(
+    this,
+    credentials,
+    wallet,
+    response.tx_response as IDataObject,
+    extractNonces(messages as IDataObject[]),
+    itemIndex,
+  );
+  return { ...response, tx_response: txResponse };
+}
+
+/**
+ * Whether an LCD request failed because the entry does not exist. Besides
+ * 404s this covers gRPC gateway errors such as a 400 "vote not found".
+ */
+export function isNotFoundError(error: any): boolean {
+  const status = error.httpCode ?? error.response?.status ?? error.cause?.response?.status;
+  const body = error.response?.data ?? error.cause?.response?.data ?? error.description;
+  const message = `${error.message ?? ''} ${typeof body === 'string' ? body : body?.message ?? ''}`;
+  return Number(status) === 404 || /not found/i.test(message);
+}
+
+/**
+ * Whether an LCD request failed because the node does not serve the route,
+ * e.g. a 501 or a gRPC gateway "unimplemented" error for a module version
+ * the chain does not run.
+ */
+export function isNotImplementedError(error: any): boolean {
+  const status = error.httpCode ?? error.response?.status ?? error.cause?.response?.status;
+  const body = error.response?.data ?? error.cause?.response?.data ?? error.description;
+  const message = `${error.message ?? ''} ${typeof body === 'string' ? body : body?.message ?? ''}`;
+  return Number(status) === 501 || /not implemented|unimplemented/i.test(message);
+}
+
+/**
+ * Polls `/cosmos/tx/v1beta1/txs/{hash}` with an increasing interval until
+ * the tx is included in a block and returns the `GetTxResponse`. A SYNC
+ * broadcast only runs CheckTx, so this is what tells whether a tx is final.
+ */
+export async function waitForTransaction(
+  this: IExecuteFunctions,
+  credentials: IDataObject,
+  txHash: string,
+  timeoutSeconds = 60,
+  itemIndex?: ItemIndex,
+  initialInterval = 1000,
+): Promise<IDataObject> {
+  const deadline = Date.now() + timeoutSeconds * 1000;
+  let interval = initialInterval;
+
+  for (;;) {
+    try {
+      return await lcdRequest.call(
+        this,
+        credentials,
+        'GET',
+        `/cosmos/tx/v1beta1/txs/${txHash}`,
+        undefined,
+        itemIndex,
+      );
+    } catch (error: any) {
+      // The LCD answers 404 until the tx has been indexed
+      if (!isNotFoundError(error)) throw error;
+    }
+
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      throw new NodeOperationError(
+        this.getNode(),
+        `Transaction ${txHash} was not included in a block within ${timeoutSeconds} seconds. It may still be committed later.`,
+      );
+    }
+    await sleep(Math.min(interval, remaining));
+    interval = Math.min(interval * 1.5, 6000);
+  }
+}
+
+/**
+ * Groups the attributes of ABCI events by key, e.g.
+ * `{ type: 'transfer', attributes: { recipient: 'secret1…', amount: '1uscrt' } }`.
+ * Keys repeated within one event are collected into an array.
+ */
+export function parseTxEvents(events: unknown): IDataObject[] {
+  if (!Array.isArray(events)) return [];
+  return events.map((event: any) => {
+    const attributes: { [key: string]: any } = {};
+    for (const { key, value } of event.attributes ?? []) {
+      const previous = attributes[key];
+      if (previous === undefined) attributes[key] = value;
+      else attributes[key] = Array.isArray(previous) ? [...previous, value] : [previous, value];
+    }
+    return { type: event.type, attributes };
+  });
+}
+
+/**
+ * Returns the events emitted by the messages of a tx. Older SDKs report
+ * them per message in `logs`; from SDK 0.50 on, `logs` is empty and message
+ * events are the ones tagged with a `msg_index`, which leaves out the fee
+ * payment.
+ */
+export function getMessageEvents(txResponse: IDataObject): IDataObject[] {
+  return parseTxEvents(getRawMessageEvents(txResponse));
+}
+
+function getRawMessageEvents(txResponse: IDataObject): any[] {
+  const logs = (txResponse.logs ?? []) as Array<{ events?: unknown }>;
+  if (logs.length) {
+    return logs.flatMap((log) => (Array.isArray(log.events) ? log.events : []));
+  }
+  return ((txResponse.events ?? []) as any[]).filter((event) =>
+    (event.attributes ?? []).some((attribute: any) => attribute.key === 'msg_index'),
+  );
+}
+
+/**
+ * Returns the `wasm` events a contract emitted in a tx whose attributes
+ * match every `filters` entry, one entry per event. Older SDKs merge the
+ * wasm events of one message, so those are split again at each
+ * `contract_address` attribute.
+ */
+export function extractContractEvents(
+  txResponse: IDataObject,
+  contractAddress: string,
+  filters: Record<string, string> = {},
+): IDataObject[] {
+  const events: IDataObject[] = [];
+
+  for (const event of getRawMessageEvents(txResponse)) {
+    if (event.type !== 'wasm') continue;
+    const groups: any[][] = [];
+    for (const attribute of event.attributes ?? []) {
+      if (attribute.key === 'contract_address' || !groups.length) groups.push([]);
+      groups[groups.length - 1].push(attribute);
+    }
+
+    for (const group of groups) {
+      const { contract_address, ...attributes } = parseTxEvents([{ type: 'wasm', attributes: group }])[0]
+        .attributes as IDataObject;
+      if (contract_address !== contractAddress) continue;
+      const matches = Object.entries(filters).every(([key, expected]) => {
+        const value = attributes[key];
+        return Array.isArray(value) ? (value as string[]).includes(expected) : value === expected;
+      });
+      if (!matches) continue;
+      events.push({
+        txhash: txResponse.txhash,
+        height: Number(txResponse.height),
+        timestamp: txResponse.timestamp,
+        contract_address,
+        attributes,
+      });
+    }
+  }
+  return events;
+}
+
+/**
+ * Normalises the `transfer` events of a tx that involve `address` into one
+ * entry per coin, seen from that address.
+ */
+export function extractTransfers(txResponse: IDataObject, address: string): IDataObject[] {
+  const asArray = (value: unknown): string[] =>
+    value === undefined ? [] : Array.isArray(value) ? value : [value as string];
+  const tx = txResponse.tx as IDataObject | undefined;
+  const transfers: IDataObject[] = [];
+
+  for (const event of getMessageEvents(txResponse)) {
+    if (event.type !== 'transfer') continue;
+    const attributes = event.attributes as IDataObject;
+    // Events of older SDKs merge several transfers into repeated attributes
+    const recipients = asArray(attributes.recipient);
+    const senders = asArray(attributes.sender);
+    const amounts = asArray(attributes.amount);
+
+    recipients.forEach((recipient, index) => {
+      const sender = senders[index];
+      if (recipient !== address && sender !== address) return;
+      const incoming = recipient === address;
+
+      for (const coin of (amounts[index] ?? '').split(',')) {
+        const match = /^(\d+)(.+)$/.exec(coin.trim());
+        if (!match) continue;
+        transfers.push({
+          txhash: txResponse.txhash,
+          height: Number(txResponse.height),
+          timestamp: txResponse.timestamp,
+          direction: incoming ? 'incoming' : 'outgoing',
+          address,
+          counterparty: incoming ? sender : recipient,
+          denom: match[2],
+          amount: match[1],
+          memo: (tx?.body as IDataObject | undefined)?.memo ?? '',
+        });
+      }
+    });
+  }
+  return transfers;
+}
+
+/**
+ * Flattens a block, as returned by the LCD's `GetBlockByHeight` or the
+ * RPC's `block` method and `NewBlock` events, into a workflow item. The
+ * hashes of the block's transactions are always listed, their decoded body
+ * only on request.
+ */
+export function formatBlock(response: IDataObject, includeTransactions: boolean): IDataObject {
+  const block = response.block as IDataObject;
+  const header = block.header as IDataObject;
+  const txs = ((block.data as IDataObject | undefined)?.txs ?? []) as string[];
+  const txBytes = txs.map((tx) => Buffer.from(tx, 'base64'));
+
+  const item: IDataObject = {
+    height: Number(header.height),
+    hash: (response.block_id as IDataObject | undefined)?.hash,
+    time: header.time,
+    chain_id: header.chain_id,
+    proposer_address: header.proposer_address,
+    num_txs: txs.length,
+    tx_hashes: txBytes.map(computeTxHash),
+    header,
+  };
+  if (includeTransactions) {
+    item.transactions = txBytes.map((bytes) => {
+      try {
+        return decodeTxRaw(bytes);
+      } catch (error: any) {
+        return { txhash: computeTxHash(bytes), error: `Could not decode transaction: ${error.message}` };
+      }
+    });
+  }
+  return item;
+}
+
+/**
+ * Reduces a DeliverTx result to what downstream steps need and throws when
+ * the tx failed in the block.
+ */
+export function confirmedTxResult(
+  this: IExecuteFunctions,
+  txResponse: IDataObject,
+): IDataObject {
+  if (txResponse.code) {
+    throw new NodeOperationError(
+      this.getNode(),
+      `Transaction ${txResponse.txhash} failed in block ${txResponse.height} (code ${txResponse.code}): ${txResponse.raw_log}`,
+    );
+  }
+  return {
+    ...txResponse,
+    confirmed: true,
+    parsed_events: parseTxEvents(txResponse.events),
+  };
+}
+
+// Cosmos SDK ErrWrongSequence
+const WRONG_SEQUENCE_CODE = 32;
+const MAX_SEQUENCE_RETRIES = 3;
+
+/**
+ * Hands out account sequences within one node execution. Each item signed
+ * by an account gets the next sequence instead of re-reading the on-chain
+ * one, which only advances once the previous tx is in the mempool.
+ */
+export class SequenceTracker {
+  private accounts = new Map<string, { accountNumber: string; next: number }>();
+
+  async reserve(
+    address: string,
+    fetchAccount: () => Promise<{ accountNumber: string; sequence: string }>,
+  ): Promise<{ accountNumber: string; sequence: string }> {
+    let account = this.accounts.get(address);
+    if (!account) {
+      const info = await fetchAccount();
+      account = { accountNumber: info.accountNumber, next: Number(info.sequence) };
+      this.accounts.set(address, account);
+    }
+    const sequence = account.next++;
+    return { accountNumber: account.accountNumber, sequence: String(sequence) };
+  }
+
+  /** Hands a sequence out again when its tx was rejected before using it up. */
+  release(address: string, sequence: string): void {
+    const account = this.accounts.get(address);
+    if (account && account.next === Number(sequence) + 1) account.next = Number(sequence);
+  }
+
+  /** Continues from `next`, or re-reads the sequence from chain when omitted. */
+  reset(address: string, next?: string): void {
+    const account = this.accounts.get(address);
+    if (account && next !== undefined) account.next = Number(next);
+    else this.accounts.delete(address);
+  }
+}
+
+const sequenceTrackers = new WeakMap<object, SequenceTracker>();
+
+/**
+ * Returns the tracker of the current execution. The execute functions
+ * object is created per node run, so sequences never leak across runs.
+ */
+export function getSequenceTracker(context: IExecuteFunctions): SequenceTracker {
+  let tracker = sequenceTrackers.get(context);
+  if (!tracker) {
+    tracker = new SequenceTracker();
+    sequenceTrackers.set(context, tracker);
+  }
+  return tracker;
+}
+
+/**
+ * Reads the expected sequence from an "account sequence mismatch, expected
+ * 5, got 4" CheckTx log.
+ */
+export function parseExpectedSequence(rawLog: string): string | undefined {
+  return /expected (\d+), got \d+/.exec(rawLog ?? '')?.[1];
+}
+
+/**
+ * Signs the messages with the wallet and broadcasts them in SYNC mode.
+ * Throws when the transaction is rejected by CheckTx. Contract errors and
+ * results are decrypted with the nonces used to encrypt the messages.
+ *
+ * Sequences are reserved per execution (see SequenceTracker). A tx rejected
+ * with a sequence mismatch is signed again with the sequence the chain
+ * expects, up to MAX_SEQUENCE_RETRIES times.
+ *
+ * In `waitForConfirmation` mode the DeliverTx result from the block is
+ * returned instead, and a tx that failed in the block throws as well.
+ *
+ * In `signOnly` mode the signed tx is returned as base64 `txBytes` for a
+ * later Broadcast Transaction step, e.g. after a manual approval.
+ */
+export async function signAndBroadcast(
+  this: IExecuteFunctions,
+  credentials: IDataObject,
+  wallet: SecretWallet,
+  messages: EncodedMessage[],
+  txOptions: TxOptions,
+): Promise<IDataObject> {
+  const { itemIndex } = txOptions;
+  const chainId = await getChainId.call(this, credentials, itemIndex);
+  const gasPrice = await applyMinimumGasPrice.call(this, credentials, txOptions.gasPrice, itemIndex);
+  const sequences = getSequenceTracker(this);
+  const nonces = messages.map(getContractMsgNonce);
+
+  for (let attempt = 0; ; attempt++) {
+    const { accountNumber, sequence } = await sequences.reserve(wallet.address, () =>
+      getAccountInfo.call(this, credentials, wallet.address, itemIndex),
+    );
+
+    let txBytes: Buffer;
+    let txHash: string;
+    let response: any;
+    try {
+      const gasLimit = txOptions.autoGas
+        ? await estimateGas.call(this, credentials, wallet, messages, sequence, txOptions)
+        : txOptions.gasLimit;
+
+      ({ txBytes, txHash } = signTransaction(wallet, {
+        messages,
+        memo: txOptions.memo,
+        fee: calculateFee(gasLimit, gasPrice),
+        chainId,
+        accountNumber,
+        sequence,
+      }));
+
+      if (txOptions.mode === 'signOnly') {
+        const { body, auth_info } = decodeTxRaw(txBytes);
+        return {
+          txhash: txHash,
+          txBytes: txBytes.toString('base64'),
+          signer: wallet.address,
+          chain_id: chainId,
+          account_number: accountNumber,
+          sequence,
+          messages: body.messages,
+          memo: body.memo,
+          fee: auth_info.fee,
+        };
+      }
+
+      response = await lcdRequest.call(
+        this,
+        credentials,
+        'POST',
+        '/cosmos/tx/v1beta1/txs',
+        { tx_bytes: txBytes.toString('base64'), mode: 'BROADCAST_MODE_SYNC' },
+        itemIndex,
+      );
+    } catch (error) {
+      // Whether the sequence was used up is unknown, so read it from chain next time
+      sequences.reset(wallet.address);
+      throw error;
+    }
+
+    const txResponse = await decryptTxResult.call(
+      this,
+      credentials,
+      wallet,
+      response.tx_response ?? {},
+      nonces,
+      itemIndex,
+    );
+
+    if (txResponse.code === WRONG_SEQUENCE_CODE && attempt < MAX_SEQUENCE_RETRIES) {
+      sequences.reset(wallet.address, parseExpectedSequence(txResponse.raw_log as string));
+      continue;
+    }
+    if (txResponse.code) {
+      sequences.release(wallet.address, sequence);
+      throw new NodeOperationError(
+        this.getNode(),
+        `Transaction ${txHash} was rejected (code ${txResponse.code}): ${txResponse.raw_log}`,
+      );
+    }
+
+    if (txOptions.mode === 'waitForConfirmation') {
+      const confirmed = await waitForTransaction.call(
+        this,
+        credentials,
+        txHash,
+        txOptions.confirmationTimeout,
+        itemIndex,
+      );
+      const finalResponse = await decryptTxResult.call(
+        this,
+        credentials,
+        wallet,
+        confirmed.tx_response as IDataObject,
+        nonces,
+        itemIndex,
+      );
+      return { signer: wallet.address, ...confirmedTxResult.call(this, finalResponse) };
+    }
+
+    return { txhash: txHash, signer: wallet.address, ...txResponse };
+  }
+}
+
+/**
+ * Encrypts `msg` for the contract and wraps it in a MsgExecuteContract.
+ */
+export async function buildExecuteContractMessage(
+  this: IExecuteFunctions,
+  credentials: IDataObject,
+  wallet: SecretWallet,
+  contractAddress: string,
+  msg: object,
+  sentFunds: Coin[],
+  itemIndex?: ItemIndex,
+): Promise<EncodedMessage> {
+  const codeHash = await getCodeHashByContract.call(this, credentials, contractAddress, itemIndex);
+  const { ciphertext } = await encryptForContract.call(this, credentials, wallet, codeHash, msg, itemIndex);
+  return encodeMsgExecuteContract({
+    sender: wallet.address,
+    contract: contractAddress,
+    msg: ciphertext,
+    sentFunds,
+  });
+}
+
+/**
+ * Encrypts `msg` for the contract and broadcasts it as a MsgExecuteContract.
+ */
+export async function executeContract(
+  this: IExecuteFunctions,
+  credentials: IDataObject,
+  wallet: SecretWallet,
+  contractAddress: string,
+  msg: object,
+  sentFunds: Coin[],
+  txOptions: TxOptions,
+): Promise<IDataObject> {
+  const message = await buildExecuteContractMessage.call(
+    this,
+    credentials,
+    wallet,
+    contractAddress,
+    msg,
+    sentFunds,
+    txOptions.itemIndex,
+  );
+  return await signAndBroadcast.call(this, credentials, wallet, [message], txOptions);
+}
+
+/**
+ * Signs and broadcasts message groups in consecutive transactions of at
+ * most `maxMessages` messages, never splitting a group. The gas limit of
+ * `txOptions` applies per group. A failed transaction stops the remaining
+ * ones, and its error names the transactions already broadcast.
+ */
+export async function signAndBroadcastInChunks(
+  this: IExecuteFunctions,
+  credentials: IDataObject,
+  wallet: SecretWallet,
+  groups: EncodedMessage[][],
+  maxMessages: number,
+  txOptions: TxOptions,
+): Promise<IDataObject[]> {
+  const chunks: EncodedMessage[][][] = [];
+  for (const group of groups) {
+    const chunk = chunks[chunks.length - 1];
+    if (chunk && chunk.flat().length + group.length <= maxMessages) chunk.push(group);
+    else chunks.push([group]);
+  }
+
+  const results: IDataObject[] = [];
+  for (const chunk of chunks) {
+    try {
+      results.push(
+        await signAndBroadcast.call(this, credentials, wallet, chunk.flat(), {
+          ...txOptions,
+          gasLimit: txOptions.gasLimit * chunk.length,
+        }),
+      );
+    } catch (error: any) {
+      if (!results.length) throw error;
+      const sent = results.map((result) => result.txhash).join(', ');
+      throw new NodeOperationError(
+        this.getNode(),
+        `Transaction ${results.length + 1} of ${chunks.length} failed after ${sent} succeeded: ${error.message}`,
+      );
+    }
+  }
+  return results;
+}
+
+/**
+ * Packs the messages built for several input items into multi-message
+ * transactions, per signer, and maps each tx result back to the items
+ * whose messages it carries.
+ */
+export class TransactionBatcher {
+  private groups = new Map<
+    string,
+    { wallet: SecretWallet; entries: Array<{ itemIndex: number; message: EncodedMessage }> }
+  >();
+
+  constructor(private maxMessages: number) {}
+
+  add(wallet: SecretWallet, itemIndex: number, message: EncodedMessage): void {
+    let group = this.groups.get(wallet.address);
+    if (!group) {
+      group = { wallet, entries: [] };
+      this.groups.set(wallet.address, group);
+    }
+    group.entries.push({ itemIndex, message });
+  }
+
+  /**
+   * Signs and broadcasts the collected messages. The gas limit of
+   * `txOptions` applies per message. A failed tx fails all of its items.
+   */
+  async flush(
+    context: IExecuteFunctions,
+    credentials: IDataObject,
+    txOptions: TxOptions,
+  ): Promise<INodeExecutionData[]> {
+    const returnData: INodeExecutionData[] = [];
+
+    for (const { wallet, entries } of this.groups.values()) {
+      for (let start = 0; start < entries.length; start += this.maxMessages) {
+        const batch = entries.slice(start, start + this.maxMessages);
+        try {
+          const result = await signAndBroadcast.call(
+            context,
+            credentials,
+            wallet,
+            batch.map((entry) => entry.message),
+            {
+              ...txOptions,
+              gasLimit: txOptions.gasLimit * batch.length,
+              itemIndex: batch.map((entry) => entry.itemIndex),
+            },
+          );
+          batch.forEach(({ itemIndex }, index) => {
+            returnData.push({
+              json: { ...result, message_index: index, batch_size: batch.length },
+              pairedItem: { item: itemIndex },
+            });
+          });
+        } catch (error: any) {
+          if (!context.continueOnFail()) throw error;
+          for (const { itemIndex } of batch) {
+            returnData.push({ json: { error: error.message }, pairedItem: { item: itemIndex } });
+          }
+        }
+      }
+    }
+
+    this.groups.clear();
+    return returnData;
+  }
+}
+
+/**
+ * Returns the batching settings of the node, or undefined when every item
+ * is sent in its own transaction or `operation` is not one of the
+ * `batchable` operations. Read from the first item, as batches span items.
+ */
+export function getTransactionBatcher(
+  this: IExecuteFunctions,
+  operation: string,
+  batchable: string[],
+): TransactionBatcher | undefined {
+  if (!batchable.includes(operation) || !this.getNodeParameter('batchItems', 0, false)) return undefined;
+  return new TransactionBatcher(this.getNodeParameter('maxMessagesPerTx', 0, 50) as number);
+}
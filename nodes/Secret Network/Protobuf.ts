@@ -0,0 +1,244 @@
+/**
+ * Copyright (c) 2026 Velocity BPA
+ *
+ * Licensed under the Business Source License 1.1 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://github.com/VelocityBPA/n8n-nodes-secretnetwork/blob/main/LICENSE
+ *
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Buffer } from 'buffer';
+
+// Protobuf wire types found in Cosmos SDK messages
+const WIRE_VARINT = 0;
+const WIRE_FIXED64 = 1;
+const WIRE_LENGTH_DELIMITED = 2;
+const WIRE_FIXED32 = 5;
+
+/**
+ * Minimal proto3 writer. Scalar fields holding their default value are
+ * omitted, matching the canonical encoding produced by the Go SDK, so that
+ * sign bytes are identical to what the chain recomputes.
+ */
+export class ProtobufWriter {
+  private chunks: Buffer[] = [];
+
+  uint64(field: number, value: number | string | undefined): this {
+    if (value === undefined || /^0*$/.test(String(value))) return this;
+    this.tag(field, WIRE_VARINT);
+    this.chunks.push(encodeVarint(value));
+    return this;
+  }
+
+  bool(field: number, value: boolean | undefined): this {
+    if (!value) return this;
+    this.tag(field, WIRE_VARINT);
+    this.chunks.push(encodeVarint(1));
+    return this;
+  }
+
+  string(field: number, value: string | undefined): this {
+    if (!value) return this;
+    return this.bytes(field, Buffer.from(value, 'utf8'));
+  }
+
+  bytes(field: number, value: Uint8Array | undefined): this {
+    if (!value || value.length === 0) return this;
+    return this.message(field, value);
+  }
+
+  /**
+   * Writes a length-delimited field even when empty, as required for
+   * embedded messages and repeated bytes entries such as signatures.
+   */
+  message(field: number, value: Uint8Array): this {
+    this.tag(field, WIRE_LENGTH_DELIMITED);
+    this.chunks.push(encodeVarint(value.length));
+    this.chunks.push(Buffer.from(value));
+    return this;
+  }
+
+  finish(): Buffer {
+    return Buffer.concat(this.chunks);
+  }
+
+  private tag(field: number, wireType: number): void {
+    this.chunks.push(encodeVarint((field << 3) | wireType));
+  }
+}
+
+/**
+ * Encodes an unsigned integer as a varint. Decimal strings are accepted so
+ * that uint64 values beyond Number.MAX_SAFE_INTEGER (e.g. nanosecond
+ * timestamps) keep their precision.
+ */
+export function encodeVarint(value: number | string): Buffer {
+  let digits = String(value);
+  if (!/^\d+$/.test(digits)) {
+    throw new Error(`Cannot encode ${value} as an unsigned varint`);
+  }
+  const bytes: number[] = [];
+  for (;;) {
+    // Long division of the decimal string by 128
+    let quotient = '';
+    let remainder = 0;
+    for (const digit of digits) {
+      const current = remainder * 10 + Number(digit);
+      quotient += Math.floor(current / 0x80);
+      remainder = current % 0x80;
+    }
+    digits = quotient.replace(/^0+/, '');
+    if (!digits) {
+      bytes.push(remainder);
+      return Buffer.from(bytes);
+    }
+    bytes.push(remainder | 0x80);
+  }
+}
+
+export interface ProtobufField {
+  field: number;
+  wireType: number;
+  /** Decimal string for varints, raw bytes for every other wire type. */
+  value: string | Buffer;
+}
+
+/**
+ * Minimal proto3 reader giving typed access to the fields of a message.
+ * Repeated fields are returned in wire order.
+ */
+export class ProtobufReader {
+  readonly fields: ProtobufField[];
+
+  constructor(bytes: Uint8Array) {
+    this.fields = decodeFields(bytes);
+  }
+
+  has(field: number): boolean {
+    return this.fields.some((f) => f.field === field);
+  }
+
+  uint64(field: number): string {
+    const found = this.last(field);
+    return typeof found?.value === 'string' ? found.value : '0';
+  }
+
+  bool(field: number): boolean {
+    return this.uint64(field) !== '0';
+  }
+
+  string(field: number): string {
+    return this.bytes(field)?.toString('utf8') ?? '';
+  }
+
+  bytes(field: number): Buffer | undefined {
+    const found = this.last(field);
+    return Buffer.isBuffer(found?.value) ? found?.value : undefined;
+  }
+
+  message(field: number): ProtobufReader | undefined {
+    const bytes = this.bytes(field);
+    return bytes ? new ProtobufReader(bytes) : undefined;
+  }
+
+  repeatedBytes(field: number): Buffer[] {
+    return this.fields
+      .filter((f) => f.field === field && Buffer.isBuffer(f.value))
+      .map((f) => f.value as Buffer);
+  }
+
+  repeatedStrings(field: number): string[] {
+    return this.repeatedBytes(field).map((b) => b.toString('utf8'));
+  }
+
+  repeatedMessages(field: number): ProtobufReader[] {
+    return this.repeatedBytes(field).map((b) => new ProtobufReader(b));
+  }
+
+  private last(field: number): ProtobufField | undefined {
+    for (let i = this.fields.length - 1; i >= 0; i--) {
+      if (this.fields[i].field === field) return this.fields[i];
+    }
+    return undefined;
+  }
+}
+
+export function decodeFields(bytes: Uint8Array): ProtobufField[] {
+  const buffer = Buffer.from(bytes);
+  const fields: ProtobufField[] = [];
+  let offset = 0;
+
+  while (offset < buffer.length) {
+    const tag = decodeVarint(buffer, offset);
+    offset += tag.length;
+    const key = Number(tag.value);
+    const field = Math.floor(key / 8);
+    const wireType = key % 8;
+
+    switch (wireType) {
+      case WIRE_VARINT: {
+        const varint = decodeVarint(buffer, offset);
+        offset += varint.length;
+        fields.push({ field, wireType, value: varint.value });
+        break;
+      }
+      case WIRE_LENGTH_DELIMITED: {
+        const length = decodeVarint(buffer, offset);
+        offset += length.length;
+        const end = offset + Number(length.value);
+        if (end > buffer.length) throw new Error('Truncated protobuf message');
+        fields.push({ field, wireType, value: buffer.subarray(offset, end) });
+        offset = end;
+        break;
+      }
+      case WIRE_FIXED64:
+      case WIRE_FIXED32: {
+        const size = wireType === WIRE_FIXED64 ? 8 : 4;
+        if (offset + size > buffer.length) throw new Error('Truncated protobuf message');
+        fields.push({ field, wireType, value: buffer.subarray(offset, offset + size) });
+        offset += size;
+        break;
+      }
+      default:
+        throw new Error(`Unsupported protobuf wire type ${wireType}`);
+    }
+  }
+
+  return fields;
+}
+
+/**
+ * Decodes a varint at `offset` into a decimal string, keeping uint64 precision.
+ */
+export function decodeVarint(buffer: Buffer, offset: number): { value: string; length: number } {
+  const groups: number[] = [];
+  let length = 0;
+  for (;;) {
+    if (offset + length >= buffer.length) throw new Error('Truncated protobuf varint');
+    const byte = buffer[offset + length++];
+    groups.push(byte & 0x7f);
+    if (!(byte & 0x80)) break;
+    if (length > 10) throw new Error('Protobuf varint is too long');
+  }
+
+  // Accumulate base-128 groups from the most significant one, in decimal
+  let digits = [0];
+  for (let g = groups.length - 1; g >= 0; g--) {
+    let carry = groups[g];
+    for (let d = 0; d < digits.length; d++) {
+      const current = digits[d] * 0x80 + carry;
+      digits[d] = current % 10;
+      carry = Math.floor(current / 10);
+    }
+    while (carry) {
+      digits.push(carry % 10);
+      carry = Math.floor(carry / 10);
+    }
+  }
+  digits = digits.reverse();
+  return { value: digits.join(''), length };
+}
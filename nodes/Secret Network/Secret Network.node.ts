@@ -12,19 +12,87 @@
  */
 
 import {
+  IDataObject,
   IExecuteFunctions,
   INodeExecutionData,
   INodeType,
   INodeTypeDescription,
+  NodeConnectionType,
   NodeOperationError,
   NodeApiError,
 } from 'n8n-workflow';
 
-import { createHash } from 'crypto';
+import { createHash, randomBytes } from 'crypto';
 import * as bech32 from 'bech32';
 import * as secp256k1 from 'secp256k1';
 import { Buffer } from 'buffer';
 
+import {
+  assertSignerAddress,
+  buildExecuteContractMessage,
+  confirmedTxResult,
+  createRequestContext,
+  decryptGetTxResponse,
+  executeContract,
+  fetchAllPages,
+  getCodeHashByCodeId,
+  getCredentialsWallet,
+  assessValidatorHealth,
+  calculateStakingApr,
+  getDelegatorRewards,
+  planRewardCompounding,
+  projectTally,
+  encryptForContract,
+  getSigningWallet,
+  getTransactionBatcher,
+  isNotFoundError,
+  isNotImplementedError,
+  getTxOptions,
+  parseGovDec,
+  parseJsonParameter,
+  parseTxEvents,
+  queryContract,
+  returnAllPages,
+  rpcRequest,
+  sendRequest,
+  signAndBroadcast,
+  signAndBroadcastInChunks,
+  waitForTransaction,
+} from './GenericFunctions';
+import {
+  Coin,
+  EncodedMessage,
+  GovVersion,
+  computeTxHash,
+  encodeJsonMessage,
+  encodeMsgBeginRedelegate,
+  encodeMsgDelegate,
+  encodeMsgDeposit,
+  encodeMsgInstantiateContract,
+  encodeMsgSend,
+  encodeMsgSetWithdrawAddress,
+  encodeMsgUndelegate,
+  encodeMsgWithdrawDelegatorReward,
+  encodeMsgWithdrawValidatorCommission,
+  encodeMsgStoreCode,
+  encodeMsgSubmitProposal,
+  encodeMsgSubmitProposalV1beta1,
+  encodeMsgTransfer,
+  encodeMsgUpdateClient,
+  encodeMsgVote,
+  encodeMsgVoteWeighted,
+  encodeTextProposal,
+  parseVoteOption,
+} from './Transaction';
+import { decodeTxRaw } from './TxDecoder';
+import {
+  SECRET_BECH32_PREFIX,
+  SECRET_VALOPER_PREFIX,
+  SecretWallet,
+  consensusPubkeyToAddress,
+  convertAddressPrefix,
+} from './Wallet';
+
 export class SecretNetwork implements INodeType {
   description: INodeTypeDescription = {
     displayName: 'Secret Network',
@@ -37,11 +105,11 @@ export class SecretNetwork implements INodeType {
     defaults: {
       name: 'Secret Network',
     },
-    inputs: ['main'],
-    outputs: ['main'],
+    inputs: [NodeConnectionType.Main],
+    outputs: [NodeConnectionType.Main],
     credentials: [
       {
-        name: 'secretnetworkApi',
+        name: 'secretNetworkApi',
         required: true,
       },
     ],
@@ -69,6 +137,18 @@ export class SecretNetwork implements INodeType {
             name: 'Staking',
             value: 'staking',
           },
+          {
+            name: 'Distribution',
+            value: 'distribution',
+          },
+          {
+            name: 'Mint',
+            value: 'mint',
+          },
+          {
+            name: 'Slashing',
+            value: 'slashing',
+          },
           {
             name: 'SmartContracts',
             value: 'smartContracts',
@@ -81,6 +161,10 @@ export class SecretNetwork implements INodeType {
             name: 'IBC',
             value: 'iBC',
           },
+          {
+            name: 'RPC',
+            value: 'rpc',
+          },
           {
             name: 'Snip20Tokens',
             value: 'snip20Tokens',
@@ -123,6 +207,7 @@ export class SecretNetwork implements INodeType {
 		{ name: 'Get Transactions', value: 'getTransactions', description: 'Search transactions', action: 'Search transactions' },
 		{ name: 'Broadcast Transaction', value: 'broadcastTransaction', description: 'Broadcast transaction', action: 'Broadcast transaction' },
 		{ name: 'Simulate Transaction', value: 'simulateTransaction', description: 'Simulate transaction execution', action: 'Simulate transaction execution' },
+		{ name: 'Decode Transaction', value: 'decodeTransaction', description: 'Decode transaction bytes into JSON', action: 'Decode transaction bytes' },
 		{ name: 'Get Transactions By Height', value: 'getTransactionsByHeight', description: 'Get transactions by block height', action: 'Get transactions by block height' },
 	],
 	default: 'getTransaction',
@@ -143,6 +228,7 @@ export class SecretNetwork implements INodeType {
     { name: 'Get Delegation Rewards', value: 'getDelegationRewards', description: 'Get delegation rewards for a delegator address', action: 'Get delegation rewards' },
     { name: 'Get Delegations', value: 'getDelegations', description: 'Get all delegations for a delegator address', action: 'Get delegations' },
     { name: 'Get Unbonding Delegations', value: 'getUnbondingDelegations', description: 'Get unbonding delegations for a delegator address', action: 'Get unbonding delegations' },
+    { name: 'Send Tokens', value: 'send', description: 'Send native tokens to an address', action: 'Send tokens' },
   ],
   default: 'getAccount',
 },
@@ -187,9 +273,205 @@ export class SecretNetwork implements INodeType {
 			description: 'Get unbonding delegations for a delegator',
 			action: 'Get unbonding delegations',
 		},
+		{
+			name: 'Staking APR',
+			value: 'getStakingApr',
+			description: 'Calculate the staking APR from inflation, taxes, the bonded ratio and validator commission',
+			action: 'Calculate staking APR',
+		},
+		{
+			name: 'Delegate',
+			value: 'delegate',
+			description: 'Delegate tokens to a validator',
+			action: 'Delegate tokens',
+		},
+		{
+			name: 'Undelegate',
+			value: 'undelegate',
+			description: 'Undelegate tokens from a validator',
+			action: 'Undelegate tokens',
+		},
+		{
+			name: 'Redelegate',
+			value: 'redelegate',
+			description: 'Move delegated tokens from one validator to another',
+			action: 'Redelegate tokens',
+		},
+		{
+			name: 'Withdraw Rewards',
+			value: 'withdrawRewards',
+			description: 'Claim delegation rewards',
+			action: 'Withdraw delegation rewards',
+		},
+		{
+			name: 'Compound Rewards',
+			value: 'compoundRewards',
+			description: 'Withdraw delegation rewards and delegate them back to the same validators',
+			action: 'Compound delegation rewards',
+		},
+		{
+			name: 'Withdraw Commission',
+			value: 'withdrawCommission',
+			description: 'Claim the commission of a validator',
+			action: 'Withdraw validator commission',
+		},
+		{
+			name: 'Set Withdraw Address',
+			value: 'setWithdrawAddress',
+			description: 'Set the address rewards are paid out to',
+			action: 'Set withdraw address',
+		},
 	],
 	default: 'getValidators',
 },
+{
+  displayName: 'Operation',
+  name: 'operation',
+  type: 'options',
+  noDataExpression: true,
+  displayOptions: { show: { resource: ['distribution'] } },
+  options: [
+    {
+      name: 'Get Community Pool',
+      value: 'getCommunityPool',
+      description: 'Get the funds of the community pool',
+      action: 'Get community pool',
+    },
+    {
+      name: 'Get Validator Outstanding Rewards',
+      value: 'getValidatorOutstandingRewards',
+      description: 'Get the rewards not yet withdrawn by the delegators of a validator',
+      action: 'Get validator outstanding rewards',
+    },
+    {
+      name: 'Get Validator Commission',
+      value: 'getValidatorCommission',
+      description: 'Get the accumulated commission of a validator',
+      action: 'Get validator commission',
+    },
+    {
+      name: 'Get Params',
+      value: 'getParams',
+      description: 'Get the distribution module parameters',
+      action: 'Get distribution params',
+    },
+  ],
+  default: 'getCommunityPool',
+},
+{
+  displayName: 'Operation',
+  name: 'operation',
+  type: 'options',
+  noDataExpression: true,
+  displayOptions: { show: { resource: ['mint'] } },
+  options: [
+    {
+      name: 'Get Inflation',
+      value: 'getInflation',
+      description: 'Get the current annual inflation rate',
+      action: 'Get inflation',
+    },
+    {
+      name: 'Get Annual Provisions',
+      value: 'getAnnualProvisions',
+      description: 'Get the amount of tokens minted per year at the current inflation',
+      action: 'Get annual provisions',
+    },
+    {
+      name: 'Get Params',
+      value: 'getParams',
+      description: 'Get the mint module parameters',
+      action: 'Get mint params',
+    },
+  ],
+  default: 'getInflation',
+},
+{
+  displayName: 'Operation',
+  name: 'operation',
+  type: 'options',
+  noDataExpression: true,
+  displayOptions: { show: { resource: ['slashing'] } },
+  options: [
+    {
+      name: 'Get Signing Infos',
+      value: 'getSigningInfos',
+      description: 'Get the signing info of all validators',
+      action: 'Get signing infos',
+    },
+    {
+      name: 'Get Signing Info',
+      value: 'getSigningInfo',
+      description: 'Get the signing info of a validator',
+      action: 'Get signing info',
+    },
+    {
+      name: 'Get Params',
+      value: 'getParams',
+      description: 'Get the slashing module parameters',
+      action: 'Get slashing params',
+    },
+    {
+      name: 'Validator Health',
+      value: 'getValidatorHealth',
+      description: 'Check missed blocks, jailing and tombstoning of a validator',
+      action: 'Check validator health',
+    },
+  ],
+  default: 'getValidatorHealth',
+},
+{
+  displayName: 'Operation',
+  name: 'operation',
+  type: 'options',
+  noDataExpression: true,
+  displayOptions: { show: { resource: ['rpc'] } },
+  options: [
+    {
+      name: 'ABCI Query',
+      value: 'abciQuery',
+      description: 'Send a raw query to the application',
+      action: 'Run an ABCI query',
+    },
+    {
+      name: 'Get Block Results',
+      value: 'getBlockResults',
+      description: 'Get the tx results and begin, end or finalize block events of a block',
+      action: 'Get block results',
+    },
+    {
+      name: 'Get Consensus State',
+      value: 'getConsensusState',
+      description: 'Get the state of the current consensus round',
+      action: 'Get consensus state',
+    },
+    {
+      name: 'Get Net Info',
+      value: 'getNetInfo',
+      description: 'Get the peers of the node',
+      action: 'Get net info',
+    },
+    {
+      name: 'Get Status',
+      value: 'getStatus',
+      description: 'Get the node info, sync state and validator info of the node',
+      action: 'Get node status',
+    },
+    {
+      name: 'Get Unconfirmed Txs',
+      value: 'getUnconfirmedTxs',
+      description: 'Get the transactions waiting in the mempool',
+      action: 'Get unconfirmed txs',
+    },
+    {
+      name: 'Search Transactions',
+      value: 'txSearch',
+      description: 'Search transactions by event query',
+      action: 'Search transactions',
+    },
+  ],
+  default: 'getStatus',
+},
 {
   displayName: 'Operation',
   name: 'operation',
@@ -278,6 +560,12 @@ export class SecretNetwork implements INodeType {
     { name: 'Get Proposal Votes', value: 'getProposalVotes', description: 'Get votes for proposal', action: 'Get votes for proposal' },
     { name: 'Get Vote', value: 'getVote', description: 'Get specific vote', action: 'Get specific vote' },
     { name: 'Get Proposal Deposits', value: 'getProposalDeposits', description: 'Get deposits for proposal', action: 'Get deposits for proposal' },
+    { name: 'Tally Projection', value: 'getTallyProjection', description: 'Project whether a proposal will pass from its current tally', action: 'Project proposal tally' },
+    { name: 'Vote Reminder', value: 'voteReminder', description: 'Check which addresses have not voted on a proposal yet', action: 'Check who has not voted' },
+    { name: 'Vote', value: 'vote', description: 'Vote on a proposal', action: 'Vote on a proposal' },
+    { name: 'Vote Weighted', value: 'voteWeighted', description: 'Split a vote across several options', action: 'Cast a weighted vote' },
+    { name: 'Deposit', value: 'deposit', description: 'Deposit tokens on a proposal', action: 'Deposit on a proposal' },
+    { name: 'Submit Proposal', value: 'submitProposal', description: 'Submit a new governance proposal', action: 'Submit a proposal' },
   ],
   default: 'getProposals',
 },
@@ -560,7 +848,8 @@ export class SecretNetwork implements INodeType {
 	displayOptions: {
 		show: {
 			resource: ['transactions'],
-			operation: ['getTransactions']
+			operation: ['getTransactions'],
+			returnAll: [false]
 		}
 	},
 	default: '',
@@ -587,11 +876,11 @@ export class SecretNetwork implements INodeType {
 	displayOptions: {
 		show: {
 			resource: ['transactions'],
-			operation: ['broadcastTransaction', 'simulateTransaction']
+			operation: ['broadcastTransaction', 'simulateTransaction', 'decodeTransaction']
 		}
 	},
 	default: '',
-	description: 'Base64 encoded transaction bytes'
+	description: 'Base64 encoded transaction bytes, e.g. the txBytes output of a write operation in Sign Only mode or an entry of a block\'s data.txs'
 },
 {
 	displayName: 'Broadcast Mode',
@@ -599,8 +888,9 @@ export class SecretNetwork implements INodeType {
 	type: 'options',
 	options: [
 		{ name: 'Sync', value: 'BROADCAST_MODE_SYNC' },
+		{ name: 'Sync and Wait for Confirmation', value: 'waitForConfirmation', description: 'Broadcast in sync mode, then poll until the transaction is included in a block' },
 		{ name: 'Async', value: 'BROADCAST_MODE_ASYNC' },
-		{ name: 'Block', value: 'BROADCAST_MODE_BLOCK' }
+		{ name: 'Block (Removed in Cosmos SDK 0.47)', value: 'BROADCAST_MODE_BLOCK' }
 	],
 	displayOptions: {
 		show: {
@@ -611,6 +901,21 @@ export class SecretNetwork implements INodeType {
 	default: 'BROADCAST_MODE_SYNC',
 	description: 'Broadcast mode for transaction'
 },
+{
+	displayName: 'Confirmation Timeout',
+	name: 'confirmationTimeout',
+	type: 'number',
+	typeOptions: { minValue: 1 },
+	displayOptions: {
+		show: {
+			resource: ['transactions'],
+			operation: ['broadcastTransaction'],
+			mode: ['waitForConfirmation']
+		}
+	},
+	default: 60,
+	description: 'Maximum number of seconds to wait for the transaction to be included in a block'
+},
 {
 	displayName: 'Block Height',
 	name: 'height',
@@ -676,6 +981,7 @@ export class SecretNetwork implements INodeType {
     show: {
       resource: ['accounts'],
       operation: ['getTotalSupply'],
+      returnAll: [false],
     },
   },
   default: '',
@@ -725,6 +1031,171 @@ export class SecretNetwork implements INodeType {
   description: 'The delegator address to get delegations for',
   placeholder: 'secret1...',
 },
+{
+  displayName: 'Recipient',
+  name: 'toAddress',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['accounts'],
+      operation: ['send'],
+    },
+  },
+  default: '',
+  description: 'The address to send the tokens to',
+  placeholder: 'secret1...',
+},
+{
+  displayName: 'Amount',
+  name: 'amount',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['accounts'],
+      operation: ['send'],
+    },
+  },
+  default: '',
+  description: 'The amount to send in the smallest unit of the denomination (e.g. 1000000 uscrt = 1 SCRT)',
+},
+{
+  displayName: 'Denomination',
+  name: 'denom',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['accounts'],
+      operation: ['send'],
+    },
+  },
+  default: 'uscrt',
+  description: 'The denomination to send',
+},
+{
+  displayName: 'Gas Estimation',
+  name: 'gasEstimation',
+  type: 'options',
+  options: [
+    { name: 'Manual', value: 'manual', description: 'Use the configured gas limit' },
+    { name: 'Auto', value: 'auto', description: 'Simulate the transaction and derive the gas limit from the gas used' },
+  ],
+  displayOptions: {
+    show: {
+      resource: ['accounts'],
+      operation: ['send'],
+    },
+  },
+  default: 'manual',
+  description: 'How the gas limit of the transaction is determined',
+},
+{
+  displayName: 'Gas Limit',
+  name: 'gasLimit',
+  type: 'number',
+  required: false,
+  displayOptions: {
+    show: {
+      resource: ['accounts'],
+      operation: ['send'],
+      gasEstimation: ['manual'],
+    },
+  },
+  default: 200000,
+  description: 'Gas limit for the transaction',
+},
+{
+  displayName: 'Gas Adjustment',
+  name: 'gasAdjustment',
+  type: 'number',
+  typeOptions: { minValue: 1, numberPrecision: 2 },
+  displayOptions: {
+    show: {
+      resource: ['accounts'],
+      operation: ['send'],
+      gasEstimation: ['auto'],
+    },
+  },
+  default: 1.3,
+  description: 'Multiplier applied to the simulated gas used to get the gas limit',
+},
+{
+  displayName: 'Gas Price',
+  name: 'gasPrice',
+  type: 'string',
+  required: false,
+  displayOptions: {
+    show: {
+      resource: ['accounts'],
+      operation: ['send'],
+    },
+  },
+  default: '0.25uscrt',
+  description: 'Gas price for the transaction',
+},
+{
+  displayName: 'Transaction Mode',
+  name: 'txMode',
+  type: 'options',
+  options: [
+    { name: 'Broadcast', value: 'broadcast', description: 'Sign the transaction and broadcast it' },
+    { name: 'Broadcast and Wait for Confirmation', value: 'waitForConfirmation', description: 'Broadcast the transaction and wait until it is included in a block' },
+    { name: 'Sign Only', value: 'signOnly', description: 'Return the signed transaction bytes without broadcasting them' },
+  ],
+  displayOptions: {
+    show: {
+      resource: ['accounts'],
+      operation: ['send'],
+    },
+  },
+  default: 'broadcast',
+  description: 'Whether to broadcast the signed transaction or return it for a later Broadcast Transaction step',
+},
+{
+  displayName: 'Confirmation Timeout',
+  name: 'confirmationTimeout',
+  type: 'number',
+  typeOptions: { minValue: 1 },
+  displayOptions: {
+    show: {
+      resource: ['accounts'],
+      operation: ['send'],
+      txMode: ['waitForConfirmation'],
+    },
+  },
+  default: 60,
+  description: 'Maximum number of seconds to wait for the transaction to be included in a block',
+},
+{
+  displayName: 'Batch Items',
+  name: 'batchItems',
+  type: 'boolean',
+  displayOptions: {
+    show: {
+      resource: ['accounts'],
+      operation: ['send'],
+    },
+  },
+  default: false,
+  description: 'Whether to pack the messages of all input items into as few transactions as possible instead of sending one transaction per item',
+},
+{
+  displayName: 'Max Messages per Transaction',
+  name: 'maxMessagesPerTx',
+  type: 'number',
+  typeOptions: { minValue: 1 },
+  displayOptions: {
+    show: {
+      resource: ['accounts'],
+      operation: ['send'],
+      batchItems: [true],
+    },
+  },
+  default: 50,
+  description: 'Maximum number of item messages in one transaction. When batching, the gas limit applies per message.',
+},
 {
 	displayName: 'Status',
 	name: 'status',
@@ -777,6 +1248,7 @@ export class SecretNetwork implements INodeType {
 		show: {
 			resource: ['staking'],
 			operation: ['getValidators'],
+			returnAll: [false],
 		},
 	},
 	default: '',
@@ -813,34 +1285,332 @@ export class SecretNetwork implements INodeType {
 	placeholder: 'secret1...',
 },
 {
-  displayName: 'Pagination Offset',
-  name: 'offset',
-  type: 'number',
-  displayOptions: {
-    show: {
-      resource: ['smartContracts'],
-      operation: ['getContracts']
-    }
-  },
-  default: 0,
-  description: 'Number of items to skip'
-},
-{
-  displayName: 'Pagination Limit',
-  name: 'limit',
-  type: 'number',
-  displayOptions: {
-    show: {
-      resource: ['smartContracts'],
-      operation: ['getContracts']
-    }
-  },
-  default: 100,
-  description: 'Maximum number of items to return'
+	displayName: 'Validator Address',
+	name: 'validatorAddr',
+	type: 'string',
+	required: true,
+	displayOptions: {
+		show: {
+			resource: ['staking'],
+			operation: ['delegate', 'undelegate'],
+		},
+	},
+	default: '',
+	description: 'The validator to delegate to or undelegate from',
+	placeholder: 'secretvaloper1...',
 },
 {
-  displayName: 'Code ID',
-  name: 'codeId',
+	displayName: 'Source Validator Address',
+	name: 'srcValidatorAddr',
+	type: 'string',
+	required: true,
+	displayOptions: {
+		show: {
+			resource: ['staking'],
+			operation: ['redelegate'],
+		},
+	},
+	default: '',
+	description: 'The validator to move the delegation away from',
+	placeholder: 'secretvaloper1...',
+},
+{
+	displayName: 'Destination Validator Address',
+	name: 'dstValidatorAddr',
+	type: 'string',
+	required: true,
+	displayOptions: {
+		show: {
+			resource: ['staking'],
+			operation: ['redelegate'],
+		},
+	},
+	default: '',
+	description: 'The validator to move the delegation to',
+	placeholder: 'secretvaloper1...',
+},
+{
+	displayName: 'Validator Address',
+	name: 'validatorAddr',
+	type: 'string',
+	required: false,
+	displayOptions: {
+		show: {
+			resource: ['staking'],
+			operation: ['withdrawRewards'],
+		},
+	},
+	default: '',
+	description: 'The validator to claim rewards from. Leave empty to claim from every validator with pending rewards.',
+	placeholder: 'secretvaloper1...',
+},
+{
+	displayName: 'Validator Address',
+	name: 'validatorAddr',
+	type: 'string',
+	required: false,
+	displayOptions: {
+		show: {
+			resource: ['staking'],
+			operation: ['withdrawCommission'],
+		},
+	},
+	default: '',
+	description: 'The validator to claim commission for. Leave empty to use the validator operated by the signing key.',
+	placeholder: 'secretvaloper1...',
+},
+{
+	displayName: 'Validator Address',
+	name: 'validatorAddr',
+	type: 'string',
+	required: false,
+	displayOptions: {
+		show: {
+			resource: ['staking'],
+			operation: ['getStakingApr'],
+		},
+	},
+	default: '',
+	description: 'The validator whose commission is deducted. Leave empty for the network wide APR before commission.',
+	placeholder: 'secretvaloper1...',
+},
+{
+	displayName: 'Amount',
+	name: 'amount',
+	type: 'string',
+	required: true,
+	displayOptions: {
+		show: {
+			resource: ['staking'],
+			operation: ['delegate', 'undelegate', 'redelegate'],
+		},
+	},
+	default: '',
+	description: 'The amount in the smallest unit of the denomination (e.g. 1000000 uscrt = 1 SCRT)',
+},
+{
+	displayName: 'Denomination',
+	name: 'denom',
+	type: 'string',
+	required: true,
+	displayOptions: {
+		show: {
+			resource: ['staking'],
+			operation: ['delegate', 'undelegate', 'redelegate', 'compoundRewards'],
+		},
+	},
+	default: 'uscrt',
+	description: 'The staking denomination',
+},
+{
+	displayName: 'Minimum Reward',
+	name: 'minimumReward',
+	type: 'number',
+	typeOptions: { minValue: 0 },
+	displayOptions: {
+		show: {
+			resource: ['staking'],
+			operation: ['compoundRewards'],
+		},
+	},
+	default: 1000000,
+	description: 'Validators with less pending reward than this amount (in the smallest unit) are skipped',
+},
+{
+	displayName: 'Fee Reserve',
+	name: 'feeReserve',
+	type: 'number',
+	typeOptions: { minValue: 0 },
+	displayOptions: {
+		show: {
+			resource: ['staking'],
+			operation: ['compoundRewards'],
+		},
+	},
+	default: 100000,
+	description: 'Amount of the withdrawn rewards (in the smallest unit) that is kept liquid to pay transaction fees',
+},
+{
+	displayName: 'Withdraw Address',
+	name: 'withdrawAddress',
+	type: 'string',
+	required: true,
+	displayOptions: {
+		show: {
+			resource: ['staking'],
+			operation: ['setWithdrawAddress'],
+		},
+	},
+	default: '',
+	description: 'The address rewards and commission will be paid out to',
+	placeholder: 'secret1...',
+},
+{
+	displayName: 'Gas Estimation',
+	name: 'gasEstimation',
+	type: 'options',
+	options: [
+		{ name: 'Manual', value: 'manual', description: 'Use the configured gas limit' },
+		{ name: 'Auto', value: 'auto', description: 'Simulate the transaction and derive the gas limit from the gas used' },
+	],
+	displayOptions: {
+		show: {
+			resource: ['staking'],
+			operation: ['delegate', 'undelegate', 'redelegate', 'withdrawRewards', 'compoundRewards', 'withdrawCommission', 'setWithdrawAddress'],
+		},
+	},
+	default: 'manual',
+	description: 'How the gas limit of the transaction is determined',
+},
+{
+	displayName: 'Gas Limit',
+	name: 'gasLimit',
+	type: 'number',
+	required: false,
+	displayOptions: {
+		show: {
+			resource: ['staking'],
+			operation: ['delegate', 'undelegate', 'redelegate', 'withdrawRewards', 'compoundRewards', 'withdrawCommission', 'setWithdrawAddress'],
+			gasEstimation: ['manual'],
+		},
+	},
+	default: 200000,
+	description: 'Gas limit for the transaction',
+},
+{
+	displayName: 'Gas Adjustment',
+	name: 'gasAdjustment',
+	type: 'number',
+	typeOptions: { minValue: 1, numberPrecision: 2 },
+	displayOptions: {
+		show: {
+			resource: ['staking'],
+			operation: ['delegate', 'undelegate', 'redelegate', 'withdrawRewards', 'compoundRewards', 'withdrawCommission', 'setWithdrawAddress'],
+			gasEstimation: ['auto'],
+		},
+	},
+	default: 1.3,
+	description: 'Multiplier applied to the simulated gas used to get the gas limit',
+},
+{
+	displayName: 'Gas Price',
+	name: 'gasPrice',
+	type: 'string',
+	required: false,
+	displayOptions: {
+		show: {
+			resource: ['staking'],
+			operation: ['delegate', 'undelegate', 'redelegate', 'withdrawRewards', 'compoundRewards', 'withdrawCommission', 'setWithdrawAddress'],
+		},
+	},
+	default: '0.25uscrt',
+	description: 'Gas price for the transaction',
+},
+{
+	displayName: 'Transaction Mode',
+	name: 'txMode',
+	type: 'options',
+	options: [
+		{ name: 'Broadcast', value: 'broadcast', description: 'Sign the transaction and broadcast it' },
+		{ name: 'Broadcast and Wait for Confirmation', value: 'waitForConfirmation', description: 'Broadcast the transaction and wait until it is included in a block' },
+		{ name: 'Sign Only', value: 'signOnly', description: 'Return the signed transaction bytes without broadcasting them' },
+	],
+	displayOptions: {
+		show: {
+			resource: ['staking'],
+			operation: ['delegate', 'undelegate', 'redelegate', 'withdrawRewards', 'compoundRewards', 'withdrawCommission', 'setWithdrawAddress'],
+		},
+	},
+	default: 'broadcast',
+	description: 'Whether to broadcast the signed transaction or return it for a later Broadcast Transaction step',
+},
+{
+	displayName: 'Confirmation Timeout',
+	name: 'confirmationTimeout',
+	type: 'number',
+	typeOptions: { minValue: 1 },
+	displayOptions: {
+		show: {
+			resource: ['staking'],
+			operation: ['delegate', 'undelegate', 'redelegate', 'withdrawRewards', 'compoundRewards', 'withdrawCommission', 'setWithdrawAddress'],
+			txMode: ['waitForConfirmation'],
+		},
+	},
+	default: 60,
+	description: 'Maximum number of seconds to wait for the transaction to be included in a block',
+},
+{
+	displayName: 'Batch Items',
+	name: 'batchItems',
+	type: 'boolean',
+	displayOptions: {
+		show: {
+			resource: ['staking'],
+			operation: ['delegate', 'undelegate', 'redelegate'],
+		},
+	},
+	default: false,
+	description: 'Whether to pack the messages of all input items into as few transactions as possible instead of sending one transaction per item',
+},
+{
+	displayName: 'Max Messages per Transaction',
+	name: 'maxMessagesPerTx',
+	type: 'number',
+	typeOptions: { minValue: 1 },
+	displayOptions: {
+		show: {
+			resource: ['staking'],
+			operation: ['delegate', 'undelegate', 'redelegate'],
+			batchItems: [true],
+		},
+	},
+	default: 50,
+	description: 'Maximum number of item messages in one transaction. When batching, the gas limit applies per message.',
+},
+{
+	displayName: 'Max Messages per Transaction',
+	name: 'maxMessagesPerTx',
+	type: 'number',
+	typeOptions: { minValue: 2 },
+	displayOptions: {
+		show: {
+			resource: ['staking'],
+			operation: ['withdrawRewards', 'compoundRewards'],
+		},
+	},
+	default: 50,
+	description: 'Maximum number of messages in one transaction. Rewards of more validators are withdrawn in several transactions, so the block gas limit is not exceeded.',
+},
+{
+  displayName: 'Pagination Offset',
+  name: 'offset',
+  type: 'number',
+  displayOptions: {
+    show: {
+      resource: ['smartContracts'],
+      operation: ['getContracts'],
+      returnAll: [false]
+    }
+  },
+  default: 0,
+  description: 'Number of items to skip'
+},
+{
+  displayName: 'Pagination Limit',
+  name: 'limit',
+  type: 'number',
+  displayOptions: {
+    show: {
+      resource: ['smartContracts'],
+      operation: ['getContracts']
+    }
+  },
+  default: 100,
+  description: 'Maximum number of items to return'
+},
+{
+  displayName: 'Code ID',
+  name: 'codeId',
   type: 'string',
   required: true,
   displayOptions: {
@@ -891,7 +1661,7 @@ export class SecretNetwork implements INodeType {
     }
   },
   default: '',
-  description: 'Viewing key for encrypted data access'
+  description: 'Viewing key for permissioned queries. Added as "key" to the query message when it does not set one itself.'
 },
 {
   displayName: 'Message',
@@ -911,7 +1681,7 @@ export class SecretNetwork implements INodeType {
   displayName: 'Sender',
   name: 'sender',
   type: 'string',
-  required: true,
+  required: false,
   displayOptions: {
     show: {
       resource: ['smartContracts'],
@@ -919,7 +1689,7 @@ export class SecretNetwork implements INodeType {
     },
   },
   default: '',
-  description: 'The sender address',
+  description: 'The sender address. Leave empty to use the address of the signing key.',
 },
 {
   displayName: 'Funds',
@@ -983,6 +1753,7 @@ export class SecretNetwork implements INodeType {
     show: {
       resource: ['smartContracts'],
       operation: ['listCodes'],
+      returnAll: [false],
     },
   },
   default: '',
@@ -1000,441 +1771,428 @@ export class SecretNetwork implements INodeType {
     },
   },
   default: '',
-  description: 'The WASM byte code to store',
+  description: 'Base64 encoded WASM byte code to store (plain or gzipped)',
 },
 {
-  displayName: 'Proposal Status',
-  name: 'proposalStatus',
+  displayName: 'Gas Estimation',
+  name: 'gasEstimation',
   type: 'options',
+  options: [
+    { name: 'Manual', value: 'manual', description: 'Use the configured gas limit' },
+    { name: 'Auto', value: 'auto', description: 'Simulate the transaction and derive the gas limit from the gas used' },
+  ],
   displayOptions: {
     show: {
-      resource: ['governance'],
-      operation: ['getProposals'],
+      resource: ['smartContracts'],
+      operation: ['executeContract', 'instantiateContract', 'storeCode'],
     },
   },
-  options: [
-    { name: 'Unspecified', value: 'PROPOSAL_STATUS_UNSPECIFIED' },
-    { name: 'Deposit Period', value: 'PROPOSAL_STATUS_DEPOSIT_PERIOD' },
-    { name: 'Voting Period', value: 'PROPOSAL_STATUS_VOTING_PERIOD' },
-    { name: 'Passed', value: 'PROPOSAL_STATUS_PASSED' },
-    { name: 'Rejected', value: 'PROPOSAL_STATUS_REJECTED' },
-    { name: 'Failed', value: 'PROPOSAL_STATUS_FAILED' },
-  ],
-  default: 'PROPOSAL_STATUS_UNSPECIFIED',
-  description: 'Filter proposals by status',
+  default: 'manual',
+  description: 'How the gas limit of the transaction is determined',
 },
 {
-  displayName: 'Voter Address',
-  name: 'voter',
-  type: 'string',
+  displayName: 'Gas Limit',
+  name: 'gasLimit',
+  type: 'number',
+  required: false,
   displayOptions: {
     show: {
-      resource: ['governance'],
-      operation: ['getProposals'],
+      resource: ['smartContracts'],
+      operation: ['executeContract', 'instantiateContract', 'storeCode'],
+      gasEstimation: ['manual'],
     },
   },
-  default: '',
-  description: 'Filter proposals by voter address',
+  default: 200000,
+  description: 'Gas limit for the transaction',
 },
 {
-  displayName: 'Depositor Address',
-  name: 'depositor',
-  type: 'string',
+  displayName: 'Gas Adjustment',
+  name: 'gasAdjustment',
+  type: 'number',
+  typeOptions: { minValue: 1, numberPrecision: 2 },
   displayOptions: {
     show: {
-      resource: ['governance'],
-      operation: ['getProposals'],
+      resource: ['smartContracts'],
+      operation: ['executeContract', 'instantiateContract', 'storeCode'],
+      gasEstimation: ['auto'],
     },
   },
-  default: '',
-  description: 'Filter proposals by depositor address',
+  default: 1.3,
+  description: 'Multiplier applied to the simulated gas used to get the gas limit',
 },
 {
-  displayName: 'Proposal ID',
-  name: 'proposalId',
+  displayName: 'Gas Price',
+  name: 'gasPrice',
   type: 'string',
-  required: true,
+  required: false,
   displayOptions: {
     show: {
-      resource: ['governance'],
-      operation: ['getProposal', 'getProposalVotes', 'getProposalDeposits', 'getVote'],
+      resource: ['smartContracts'],
+      operation: ['executeContract', 'instantiateContract', 'storeCode'],
     },
   },
-  default: '',
-  description: 'The ID of the proposal',
+  default: '0.25uscrt',
+  description: 'Gas price for the transaction',
 },
 {
-  displayName: 'Voter Address',
-  name: 'voterAddress',
-  type: 'string',
-  required: true,
+  displayName: 'Transaction Mode',
+  name: 'txMode',
+  type: 'options',
+  options: [
+    { name: 'Broadcast', value: 'broadcast', description: 'Sign the transaction and broadcast it' },
+    { name: 'Broadcast and Wait for Confirmation', value: 'waitForConfirmation', description: 'Broadcast the transaction and wait until it is included in a block' },
+    { name: 'Sign Only', value: 'signOnly', description: 'Return the signed transaction bytes without broadcasting them' },
+  ],
   displayOptions: {
     show: {
-      resource: ['governance'],
-      operation: ['getVote'],
+      resource: ['smartContracts'],
+      operation: ['executeContract', 'instantiateContract', 'storeCode'],
     },
   },
-  default: '',
-  description: 'The address of the voter',
+  default: 'broadcast',
+  description: 'Whether to broadcast the signed transaction or return it for a later Broadcast Transaction step',
 },
 {
-  displayName: 'Client ID',
-  name: 'clientId',
-  type: 'string',
-  required: true,
+  displayName: 'Confirmation Timeout',
+  name: 'confirmationTimeout',
+  type: 'number',
+  typeOptions: { minValue: 1 },
   displayOptions: {
     show: {
-      resource: ['iBC'],
-      operation: ['getClientState'],
+      resource: ['smartContracts'],
+      operation: ['executeContract', 'instantiateContract', 'storeCode'],
+      txMode: ['waitForConfirmation'],
     },
   },
-  default: '',
-  description: 'The client ID to retrieve state for',
+  default: 60,
+  description: 'Maximum number of seconds to wait for the transaction to be included in a block',
 },
 {
-  displayName: 'Connection ID',
-  name: 'connectionId',
-  type: 'string',
-  required: true,
+  displayName: 'Batch Items',
+  name: 'batchItems',
+  type: 'boolean',
   displayOptions: {
     show: {
-      resource: ['iBC'],
-      operation: ['getConnection'],
+      resource: ['smartContracts'],
+      operation: ['executeContract'],
     },
   },
-  default: '',
-  description: 'The connection ID to retrieve',
+  default: false,
+  description: 'Whether to pack the messages of all input items into as few transactions as possible instead of sending one transaction per item',
 },
 {
-  displayName: 'Pagination',
-  name: 'pagination',
-  type: 'collection',
-  placeholder: 'Add Pagination',
+  displayName: 'Max Messages per Transaction',
+  name: 'maxMessagesPerTx',
+  type: 'number',
+  typeOptions: { minValue: 1 },
   displayOptions: {
     show: {
-      resource: ['iBC'],
-      operation: ['getClientStates', 'getConnections', 'getChannels'],
+      resource: ['smartContracts'],
+      operation: ['executeContract'],
+      batchItems: [true],
     },
   },
-  default: {},
-  options: [
-    {
-      displayName: 'Limit',
-      name: 'limit',
-      type: 'number',
-      default: 100,
-      description: 'Maximum number of items to return',
-    },
-    {
-      displayName: 'Offset',
-      name: 'offset',
-      type: 'number',
-      default: 0,
-      description: 'Number of items to skip',
-    },
-    {
-      displayName: 'Count Total',
-      name: 'countTotal',
-      type: 'boolean',
-      default: false,
-      description: 'Whether to count total number of items',
-    },
-  ],
+  default: 50,
+  description: 'Maximum number of item messages in one transaction. When batching, the gas limit applies per message.',
 },
 {
-  displayName: 'Contract Address',
-  name: 'contractAddress',
-  type: 'string',
-  required: true,
+  displayName: 'Proposal Status',
+  name: 'proposalStatus',
+  type: 'options',
   displayOptions: {
     show: {
-      resource: ['snip20Tokens'],
-      operation: ['transfer', 'getBalance', 'increaseAllowance', 'decreaseAllowance', 'getAllowance', 'getTokenInfo', 'createViewingKey', 'setViewingKey'],
+      resource: ['governance'],
+      operation: ['getProposals'],
     },
   },
-  default: '',
-  description: 'The SNIP-20 token contract address',
+  options: [
+    { name: 'Unspecified', value: 'PROPOSAL_STATUS_UNSPECIFIED' },
+    { name: 'Deposit Period', value: 'PROPOSAL_STATUS_DEPOSIT_PERIOD' },
+    { name: 'Voting Period', value: 'PROPOSAL_STATUS_VOTING_PERIOD' },
+    { name: 'Passed', value: 'PROPOSAL_STATUS_PASSED' },
+    { name: 'Rejected', value: 'PROPOSAL_STATUS_REJECTED' },
+    { name: 'Failed', value: 'PROPOSAL_STATUS_FAILED' },
+  ],
+  default: 'PROPOSAL_STATUS_UNSPECIFIED',
+  description: 'Filter proposals by status',
 },
 {
-  displayName: 'Recipient Address',
-  name: 'recipient',
+  displayName: 'Voter Address',
+  name: 'voter',
   type: 'string',
-  required: true,
   displayOptions: {
     show: {
-      resource: ['snip20Tokens'],
-      operation: ['transfer'],
+      resource: ['governance'],
+      operation: ['getProposals'],
     },
   },
   default: '',
-  description: 'The recipient address for the token transfer',
+  description: 'Filter proposals by voter address',
 },
 {
-  displayName: 'Amount',
-  name: 'amount',
+  displayName: 'Depositor Address',
+  name: 'depositor',
   type: 'string',
-  required: true,
   displayOptions: {
     show: {
-      resource: ['snip20Tokens'],
-      operation: ['transfer', 'increaseAllowance', 'decreaseAllowance'],
+      resource: ['governance'],
+      operation: ['getProposals'],
     },
   },
   default: '',
-  description: 'The amount of tokens (in smallest unit)',
+  description: 'Filter proposals by depositor address',
 },
 {
-  displayName: 'Memo',
-  name: 'memo',
+  displayName: 'Proposal ID',
+  name: 'proposalId',
   type: 'string',
-  required: false,
+  required: true,
   displayOptions: {
     show: {
-      resource: ['snip20Tokens'],
-      operation: ['transfer'],
+      resource: ['governance'],
+      operation: ['getProposal', 'getProposalVotes', 'getProposalDeposits', 'getVote', 'getTallyProjection', 'voteReminder', 'vote', 'voteWeighted', 'deposit'],
     },
   },
   default: '',
-  description: 'Optional memo for the transfer',
+  description: 'The ID of the proposal',
 },
 {
-  displayName: 'Address',
-  name: 'address',
+  displayName: 'Voter Address',
+  name: 'voterAddress',
   type: 'string',
   required: true,
   displayOptions: {
     show: {
-      resource: ['snip20Tokens'],
-      operation: ['getBalance'],
+      resource: ['governance'],
+      operation: ['getVote'],
     },
   },
   default: '',
-  description: 'The address to query balance for',
+  description: 'The address of the voter',
 },
 {
-  displayName: 'Viewing Key',
-  name: 'viewingKey',
-  type: 'string',
-  required: true,
+  displayName: 'Voters',
+  name: 'voterSource',
+  type: 'options',
+  options: [
+    { name: 'List of Addresses', value: 'addresses' },
+    { name: 'All Bonded Validators', value: 'bondedValidators' },
+  ],
   displayOptions: {
     show: {
-      resource: ['snip20Tokens'],
-      operation: ['getBalance', 'getAllowance'],
+      resource: ['governance'],
+      operation: ['voteReminder'],
     },
   },
-  default: '',
-  description: 'The viewing key to access private data',
+  default: 'addresses',
+  description: 'Which addresses to check',
 },
 {
-  displayName: 'Spender Address',
-  name: 'spender',
+  displayName: 'Addresses',
+  name: 'voterAddresses',
   type: 'string',
+  typeOptions: { rows: 4 },
   required: true,
   displayOptions: {
     show: {
-      resource: ['snip20Tokens'],
-      operation: ['increaseAllowance', 'decreaseAllowance', 'getAllowance'],
+      resource: ['governance'],
+      operation: ['voteReminder'],
+      voterSource: ['addresses'],
     },
   },
   default: '',
-  description: 'The spender address for the allowance',
+  description: 'Account (secret1...) or validator (secretvaloper1...) addresses, separated by commas or new lines. Validators vote with the account of their operator.',
 },
 {
-  displayName: 'Owner Address',
-  name: 'owner',
-  type: 'string',
-  required: true,
+  displayName: 'Gov Version',
+  name: 'govVersion',
+  type: 'options',
+  options: [
+    { name: 'V1', value: 'v1', description: 'cosmos.gov.v1, proposals carry messages to execute' },
+    { name: 'V1beta1 (Legacy)', value: 'v1beta1', description: 'cosmos.gov.v1beta1, proposals carry a single legacy content' },
+  ],
   displayOptions: {
     show: {
-      resource: ['snip20Tokens'],
-      operation: ['getAllowance'],
+      resource: ['governance'],
+      operation: ['vote', 'voteWeighted', 'deposit', 'submitProposal'],
     },
   },
-  default: '',
-  description: 'The owner address for the allowance query',
+  default: 'v1',
+  description: 'The version of the gov module messages to sign',
 },
 {
-  displayName: 'Entropy',
-  name: 'entropy',
-  type: 'string',
-  required: false,
+  displayName: 'Vote Option',
+  name: 'voteOption',
+  type: 'options',
+  options: [
+    { name: 'Yes', value: 'yes' },
+    { name: 'Abstain', value: 'abstain' },
+    { name: 'No', value: 'no' },
+    { name: 'No With Veto', value: 'no_with_veto' },
+  ],
   displayOptions: {
     show: {
-      resource: ['snip20Tokens'],
-      operation: ['createViewingKey'],
+      resource: ['governance'],
+      operation: ['vote'],
     },
   },
-  default: '',
-  description: 'Optional entropy for viewing key generation',
+  default: 'yes',
 },
 {
-  displayName: 'Key',
-  name: 'key',
-  type: 'string',
+  displayName: 'Weighted Options',
+  name: 'weightedOptions',
+  type: 'json',
   required: true,
   displayOptions: {
     show: {
-      resource: ['snip20Tokens'],
-      operation: ['setViewingKey'],
+      resource: ['governance'],
+      operation: ['voteWeighted'],
     },
   },
-  default: '',
-  description: 'The custom viewing key to set',
+  default: '[{"option": "yes", "weight": "0.7"}, {"option": "abstain", "weight": "0.3"}]',
+  description: 'Options with their weights, which must add up to 1',
 },
 {
-  displayName: 'Contract Address',
-  name: 'contractAddress',
+  displayName: 'Title',
+  name: 'title',
   type: 'string',
   required: true,
   displayOptions: {
     show: {
-      resource: ['snip721Tokens'],
-      operation: ['transferNft', 'mintNft', 'getOwnerOf', 'getNftInfo', 'approve', 'approveAll', 'getApprovals', 'getTokens'],
+      resource: ['governance'],
+      operation: ['submitProposal'],
     },
   },
   default: '',
-  description: 'The SNIP-721 contract address',
 },
 {
-  displayName: 'Token ID',
-  name: 'tokenId',
+  displayName: 'Description',
+  name: 'description',
   type: 'string',
+  typeOptions: { rows: 4 },
   required: true,
   displayOptions: {
     show: {
-      resource: ['snip721Tokens'],
-      operation: ['transferNft', 'mintNft', 'getOwnerOf', 'getNftInfo', 'approve', 'getApprovals'],
+      resource: ['governance'],
+      operation: ['submitProposal'],
     },
   },
   default: '',
-  description: 'The token ID',
+  description: 'The proposal text, used as the summary of gov v1 proposals',
 },
 {
-  displayName: 'Recipient',
-  name: 'recipient',
-  type: 'string',
-  required: true,
+  displayName: 'Proposal Messages',
+  name: 'proposalMessages',
+  type: 'json',
   displayOptions: {
     show: {
-      resource: ['snip721Tokens'],
-      operation: ['transferNft'],
+      resource: ['governance'],
+      operation: ['submitProposal'],
+      govVersion: ['v1'],
     },
   },
-  default: '',
-  description: 'The recipient address',
+  default: '[]',
+  description: 'Messages executed when the proposal passes, as JSON with an "@type" (e.g. /cosmos.distribution.v1beta1.MsgCommunityPoolSpend or /cosmos.gov.v1.MsgExecLegacyContent) or as {"typeUrl", "value"} with base64 protobuf. Leave empty for a text proposal.',
 },
 {
-  displayName: 'Owner',
-  name: 'owner',
-  type: 'string',
-  required: true,
+  displayName: 'Proposal Content',
+  name: 'proposalContent',
+  type: 'json',
   displayOptions: {
     show: {
-      resource: ['snip721Tokens'],
-      operation: ['mintNft', 'getTokens'],
+      resource: ['governance'],
+      operation: ['submitProposal'],
+      govVersion: ['v1beta1'],
     },
   },
   default: '',
-  description: 'The owner address',
+  description: 'Legacy content as JSON with an "@type", e.g. /cosmos.params.v1beta1.ParameterChangeProposal. Title and description are filled in from the fields above. Leave empty for a text proposal.',
 },
 {
   displayName: 'Metadata',
   name: 'metadata',
-  type: 'json',
-  required: false,
+  type: 'string',
   displayOptions: {
     show: {
-      resource: ['snip721Tokens'],
-      operation: ['mintNft'],
+      resource: ['governance'],
+      operation: ['vote', 'voteWeighted', 'deposit', 'submitProposal'],
+      govVersion: ['v1'],
     },
   },
-  default: '{}',
-  description: 'The NFT metadata',
+  default: '',
+  description: 'Optional metadata, usually a link to a JSON document on IPFS',
 },
 {
-  displayName: 'Spender',
-  name: 'spender',
+  displayName: 'Amount',
+  name: 'amount',
   type: 'string',
-  required: true,
   displayOptions: {
     show: {
-      resource: ['snip721Tokens'],
-      operation: ['approve'],
+      resource: ['governance'],
+      operation: ['deposit', 'submitProposal'],
     },
   },
   default: '',
-  description: 'The spender address',
+  description: 'The deposit (or the initial deposit of a new proposal) in the smallest unit of the denomination',
 },
 {
-  displayName: 'Operator',
-  name: 'operator',
+  displayName: 'Denomination',
+  name: 'denom',
   type: 'string',
-  required: true,
   displayOptions: {
     show: {
-      resource: ['snip721Tokens'],
-      operation: ['approveAll'],
+      resource: ['governance'],
+      operation: ['deposit', 'submitProposal'],
     },
   },
-  default: '',
-  description: 'The operator address',
+  default: 'uscrt',
 },
 {
-  displayName: 'Approved',
-  name: 'approved',
-  type: 'boolean',
-  required: true,
+  displayName: 'Gas Estimation',
+  name: 'gasEstimation',
+  type: 'options',
+  options: [
+    { name: 'Manual', value: 'manual', description: 'Use the configured gas limit' },
+    { name: 'Auto', value: 'auto', description: 'Simulate the transaction and derive the gas limit from the gas used' },
+  ],
   displayOptions: {
     show: {
-      resource: ['snip721Tokens'],
-      operation: ['approveAll'],
-    },
-  },
-  default: true,
-  description: 'Whether to approve or revoke approval',
-},
-{
-  displayName: 'Viewing Key',
-  name: 'viewingKey',
-  type: 'string',
-  required: true,
-  displayOptions: {
-    show: {
-      resource: ['snip721Tokens'],
-      operation: ['getOwnerOf', 'getNftInfo', 'getApprovals', 'getTokens'],
+      resource: ['governance'],
+      operation: ['vote', 'voteWeighted', 'deposit', 'submitProposal'],
     },
   },
-  default: '',
-  description: 'The viewing key for querying encrypted data',
+  default: 'manual',
+  description: 'How the gas limit of the transaction is determined',
 },
 {
-  displayName: 'Private Key',
-  name: 'privateKey',
-  type: 'string',
-  typeOptions: { password: true },
-  required: true,
+  displayName: 'Gas Limit',
+  name: 'gasLimit',
+  type: 'number',
+  required: false,
   displayOptions: {
     show: {
-      resource: ['snip721Tokens'],
-      operation: ['transferNft', 'mintNft', 'approve', 'approveAll'],
+      resource: ['governance'],
+      operation: ['vote', 'voteWeighted', 'deposit', 'submitProposal'],
+      gasEstimation: ['manual'],
     },
   },
-  default: '',
-  description: 'The private key for signing transactions',
+  default: 200000,
+  description: 'Gas limit for the transaction',
 },
 {
-  displayName: 'Gas Limit',
-  name: 'gasLimit',
+  displayName: 'Gas Adjustment',
+  name: 'gasAdjustment',
   type: 'number',
-  required: false,
+  typeOptions: { minValue: 1, numberPrecision: 2 },
   displayOptions: {
     show: {
-      resource: ['snip721Tokens'],
-      operation: ['transferNft', 'mintNft', 'approve', 'approveAll'],
+      resource: ['governance'],
+      operation: ['vote', 'voteWeighted', 'deposit', 'submitProposal'],
+      gasEstimation: ['auto'],
     },
   },
-  default: 200000,
-  description: 'Gas limit for the transaction',
+  default: 1.3,
+  description: 'Multiplier applied to the simulated gas used to get the gas limit',
 },
 {
   displayName: 'Gas Price',
@@ -1443,283 +2201,3297 @@ export class SecretNetwork implements INodeType {
   required: false,
   displayOptions: {
     show: {
-      resource: ['snip721Tokens'],
-      operation: ['transferNft', 'mintNft', 'approve', 'approveAll'],
+      resource: ['governance'],
+      operation: ['vote', 'voteWeighted', 'deposit', 'submitProposal'],
     },
   },
   default: '0.25uscrt',
   description: 'Gas price for the transaction',
 },
 {
-  displayName: 'Source Port',
-  name: 'sourcePort',
-  type: 'string',
-  required: true,
+  displayName: 'Transaction Mode',
+  name: 'txMode',
+  type: 'options',
+  options: [
+    { name: 'Broadcast', value: 'broadcast', description: 'Sign the transaction and broadcast it' },
+    { name: 'Broadcast and Wait for Confirmation', value: 'waitForConfirmation', description: 'Broadcast the transaction and wait until it is included in a block' },
+    { name: 'Sign Only', value: 'signOnly', description: 'Return the signed transaction bytes without broadcasting them' },
+  ],
   displayOptions: {
     show: {
-      resource: ['ibcOperations'],
-      operation: ['ibcTransfer'],
+      resource: ['governance'],
+      operation: ['vote', 'voteWeighted', 'deposit', 'submitProposal'],
     },
   },
-  default: 'transfer',
-  description: 'The source port for the IBC transfer',
+  default: 'broadcast',
+  description: 'Whether to broadcast the signed transaction or return it for a later Broadcast Transaction step',
 },
 {
-  displayName: 'Source Channel',
-  name: 'sourceChannel',
-  type: 'string',
-  required: true,
+  displayName: 'Confirmation Timeout',
+  name: 'confirmationTimeout',
+  type: 'number',
+  typeOptions: { minValue: 1 },
   displayOptions: {
     show: {
-      resource: ['ibcOperations'],
-      operation: ['ibcTransfer'],
+      resource: ['governance'],
+      operation: ['vote', 'voteWeighted', 'deposit', 'submitProposal'],
+      txMode: ['waitForConfirmation'],
     },
   },
-  default: '',
-  description: 'The source channel for the IBC transfer',
+  default: 60,
+  description: 'Maximum number of seconds to wait for the transaction to be included in a block',
 },
 {
-  displayName: 'Token',
-  name: 'token',
-  type: 'json',
-  required: true,
+  displayName: 'Batch Items',
+  name: 'batchItems',
+  type: 'boolean',
   displayOptions: {
     show: {
-      resource: ['ibcOperations'],
-      operation: ['ibcTransfer'],
+      resource: ['governance'],
+      operation: ['vote', 'voteWeighted', 'deposit'],
     },
   },
-  default: '{"denom": "uscrt", "amount": "1000000"}',
-  description: 'The token to transfer with denomination and amount',
+  default: false,
+  description: 'Whether to pack the messages of all input items into as few transactions as possible instead of sending one transaction per item',
 },
 {
-  displayName: 'Sender',
-  name: 'sender',
+  displayName: 'Max Messages per Transaction',
+  name: 'maxMessagesPerTx',
+  type: 'number',
+  typeOptions: { minValue: 1 },
+  displayOptions: {
+    show: {
+      resource: ['governance'],
+      operation: ['vote', 'voteWeighted', 'deposit'],
+      batchItems: [true],
+    },
+  },
+  default: 50,
+  description: 'Maximum number of item messages in one transaction. When batching, the gas limit applies per message.',
+},
+{
+  displayName: 'Client ID',
+  name: 'clientId',
   type: 'string',
   required: true,
   displayOptions: {
     show: {
-      resource: ['ibcOperations'],
-      operation: ['ibcTransfer'],
+      resource: ['iBC'],
+      operation: ['getClientState'],
     },
   },
   default: '',
-  description: 'The sender address',
+  description: 'The client ID to retrieve state for',
 },
 {
-  displayName: 'Receiver',
-  name: 'receiver',
+  displayName: 'Connection ID',
+  name: 'connectionId',
   type: 'string',
   required: true,
   displayOptions: {
     show: {
-      resource: ['ibcOperations'],
-      operation: ['ibcTransfer'],
+      resource: ['iBC'],
+      operation: ['getConnection'],
     },
   },
   default: '',
-  description: 'The receiver address on the destination chain',
+  description: 'The connection ID to retrieve',
 },
 {
-  displayName: 'Timeout Height',
-  name: 'timeoutHeight',
-  type: 'number',
-  required: false,
+  displayName: 'Pagination',
+  name: 'pagination',
+  type: 'collection',
+  placeholder: 'Add Pagination',
   displayOptions: {
     show: {
-      resource: ['ibcOperations'],
-      operation: ['ibcTransfer'],
+      resource: ['iBC'],
+      operation: ['getClientStates', 'getConnections', 'getChannels'],
+      returnAll: [false],
     },
   },
-  default: 0,
-  description: 'The timeout height for the transfer',
+  default: {},
+  options: [
+    {
+      displayName: 'Limit',
+      name: 'limit',
+      type: 'number',
+      default: 100,
+      description: 'Maximum number of items to return',
+    },
+    {
+      displayName: 'Offset',
+      name: 'offset',
+      type: 'number',
+      default: 0,
+      description: 'Number of items to skip',
+    },
+    {
+      displayName: 'Count Total',
+      name: 'countTotal',
+      type: 'boolean',
+      default: false,
+      description: 'Whether to count total number of items',
+    },
+  ],
 },
 {
-  displayName: 'Private Key',
-  name: 'privateKey',
+  displayName: 'Contract Address',
+  name: 'contractAddress',
   type: 'string',
-  typeOptions: { password: true },
   required: true,
   displayOptions: {
     show: {
-      resource: ['ibcOperations'],
-      operation: ['ibcTransfer', 'updateClient'],
+      resource: ['snip20Tokens'],
+      operation: ['transfer', 'getBalance', 'increaseAllowance', 'decreaseAllowance', 'getAllowance', 'getTokenInfo', 'createViewingKey', 'setViewingKey'],
     },
   },
   default: '',
-  description: 'The secp256k1 private key for signing the transaction',
+  description: 'The SNIP-20 token contract address',
 },
 {
-  displayName: 'Gas Limit',
-  name: 'gasLimit',
-  type: 'number',
-  required: false,
+  displayName: 'Recipient Address',
+  name: 'recipient',
+  type: 'string',
+  required: true,
   displayOptions: {
     show: {
-      resource: ['ibcOperations'],
-      operation: ['ibcTransfer', 'updateClient'],
+      resource: ['snip20Tokens'],
+      operation: ['transfer'],
     },
   },
-  default: 200000,
-  description: 'The gas limit for the transaction',
+  default: '',
+  description: 'The recipient address for the token transfer',
 },
 {
-  displayName: 'Gas Price',
-  name: 'gasPrice',
+  displayName: 'Amount',
+  name: 'amount',
   type: 'string',
-  required: false,
+  required: true,
   displayOptions: {
     show: {
-      resource: ['ibcOperations'],
-      operation: ['ibcTransfer', 'updateClient'],
+      resource: ['snip20Tokens'],
+      operation: ['transfer', 'increaseAllowance', 'decreaseAllowance'],
     },
   },
-  default: '0.1uscrt',
-  description: 'The gas price for the transaction',
+  default: '',
+  description: 'The amount of tokens (in smallest unit)',
 },
 {
-  displayName: 'Pagination Offset',
-  name: 'paginationOffset',
-  type: 'number',
+  displayName: 'Memo',
+  name: 'memo',
+  type: 'string',
   required: false,
   displayOptions: {
     show: {
-      resource: ['ibcOperations'],
-      operation: ['getChannels', 'getConnections', 'getClientStates', 'getDenomTraces'],
+      resource: ['snip20Tokens'],
+      operation: ['transfer'],
     },
   },
-  default: 0,
-  description: 'Pagination offset',
+  default: '',
+  description: 'Optional memo for the transfer',
 },
 {
-  displayName: 'Pagination Limit',
-  name: 'paginationLimit',
-  type: 'number',
-  required: false,
+  displayName: 'Address',
+  name: 'address',
+  type: 'string',
+  required: true,
   displayOptions: {
     show: {
-      resource: ['ibcOperations'],
-      operation: ['getChannels', 'getConnections', 'getClientStates', 'getDenomTraces'],
+      resource: ['snip20Tokens'],
+      operation: ['getBalance'],
     },
   },
-  default: 100,
-  description: 'Pagination limit',
+  default: '',
+  description: 'The address to query balance for',
 },
 {
-  displayName: 'Channel ID',
-  name: 'channelId',
+  displayName: 'Viewing Key',
+  name: 'viewingKey',
   type: 'string',
   required: true,
   displayOptions: {
     show: {
-      resource: ['ibcOperations'],
-      operation: ['getChannel'],
+      resource: ['snip20Tokens'],
+      operation: ['getBalance', 'getAllowance'],
     },
   },
   default: '',
-  description: 'The IBC channel ID',
+  description: 'The viewing key to access private data',
 },
 {
-  displayName: 'Port ID',
-  name: 'portId',
+  displayName: 'Spender Address',
+  name: 'spender',
   type: 'string',
   required: true,
   displayOptions: {
     show: {
-      resource: ['ibcOperations'],
-      operation: ['getChannel'],
+      resource: ['snip20Tokens'],
+      operation: ['increaseAllowance', 'decreaseAllowance', 'getAllowance'],
     },
   },
-  default: 'transfer',
-  description: 'The IBC port ID',
+  default: '',
+  description: 'The spender address for the allowance',
 },
 {
-  displayName: 'Connection ID',
-  name: 'connectionId',
+  displayName: 'Owner Address',
+  name: 'owner',
   type: 'string',
   required: true,
   displayOptions: {
     show: {
-      resource: ['ibcOperations'],
-      operation: ['getConnection'],
+      resource: ['snip20Tokens'],
+      operation: ['getAllowance'],
     },
   },
   default: '',
-  description: 'The IBC connection ID',
+  description: 'The owner address for the allowance query',
 },
 {
-  displayName: 'Client ID',
-  name: 'clientId',
+  displayName: 'Entropy',
+  name: 'entropy',
   type: 'string',
-  required: true,
+  required: false,
   displayOptions: {
     show: {
-      resource: ['ibcOperations'],
-      operation: ['updateClient'],
+      resource: ['snip20Tokens'],
+      operation: ['createViewingKey'],
     },
   },
   default: '',
-  description: 'The IBC client ID to update',
+  description: 'Optional entropy for viewing key generation',
 },
 {
-  displayName: 'Header',
-  name: 'header',
-  type: 'json',
+  displayName: 'Key',
+  name: 'key',
+  type: 'string',
   required: true,
   displayOptions: {
     show: {
-      resource: ['ibcOperations'],
-      operation: ['updateClient'],
+      resource: ['snip20Tokens'],
+      operation: ['setViewingKey'],
+    },
+  },
+  default: '',
+  description: 'The custom viewing key to set',
+},
+{
+  displayName: 'Gas Estimation',
+  name: 'gasEstimation',
+  type: 'options',
+  options: [
+    { name: 'Manual', value: 'manual', description: 'Use the configured gas limit' },
+    { name: 'Auto', value: 'auto', description: 'Simulate the transaction and derive the gas limit from the gas used' },
+  ],
+  displayOptions: {
+    show: {
+      resource: ['snip20Tokens'],
+      operation: ['transfer', 'increaseAllowance', 'decreaseAllowance', 'createViewingKey', 'setViewingKey'],
+    },
+  },
+  default: 'manual',
+  description: 'How the gas limit of the transaction is determined',
+},
+{
+  displayName: 'Gas Limit',
+  name: 'gasLimit',
+  type: 'number',
+  required: false,
+  displayOptions: {
+    show: {
+      resource: ['snip20Tokens'],
+      operation: ['transfer', 'increaseAllowance', 'decreaseAllowance', 'createViewingKey', 'setViewingKey'],
+      gasEstimation: ['manual'],
+    },
+  },
+  default: 200000,
+  description: 'Gas limit for the transaction',
+},
+{
+  displayName: 'Gas Adjustment',
+  name: 'gasAdjustment',
+  type: 'number',
+  typeOptions: { minValue: 1, numberPrecision: 2 },
+  displayOptions: {
+    show: {
+      resource: ['snip20Tokens'],
+      operation: ['transfer', 'increaseAllowance', 'decreaseAllowance', 'createViewingKey', 'setViewingKey'],
+      gasEstimation: ['auto'],
+    },
+  },
+  default: 1.3,
+  description: 'Multiplier applied to the simulated gas used to get the gas limit',
+},
+{
+  displayName: 'Gas Price',
+  name: 'gasPrice',
+  type: 'string',
+  required: false,
+  displayOptions: {
+    show: {
+      resource: ['snip20Tokens'],
+      operation: ['transfer', 'increaseAllowance', 'decreaseAllowance', 'createViewingKey', 'setViewingKey'],
+    },
+  },
+  default: '0.25uscrt',
+  description: 'Gas price for the transaction',
+},
+{
+  displayName: 'Transaction Mode',
+  name: 'txMode',
+  type: 'options',
+  options: [
+    { name: 'Broadcast', value: 'broadcast', description: 'Sign the transaction and broadcast it' },
+    { name: 'Broadcast and Wait for Confirmation', value: 'waitForConfirmation', description: 'Broadcast the transaction and wait until it is included in a block' },
+    { name: 'Sign Only', value: 'signOnly', description: 'Return the signed transaction bytes without broadcasting them' },
+  ],
+  displayOptions: {
+    show: {
+      resource: ['snip20Tokens'],
+      operation: ['transfer', 'increaseAllowance', 'decreaseAllowance', 'createViewingKey', 'setViewingKey'],
+    },
+  },
+  default: 'broadcast',
+  description: 'Whether to broadcast the signed transaction or return it for a later Broadcast Transaction step',
+},
+{
+  displayName: 'Confirmation Timeout',
+  name: 'confirmationTimeout',
+  type: 'number',
+  typeOptions: { minValue: 1 },
+  displayOptions: {
+    show: {
+      resource: ['snip20Tokens'],
+      operation: ['transfer', 'increaseAllowance', 'decreaseAllowance', 'createViewingKey', 'setViewingKey'],
+      txMode: ['waitForConfirmation'],
+    },
+  },
+  default: 60,
+  description: 'Maximum number of seconds to wait for the transaction to be included in a block',
+},
+{
+  displayName: 'Batch Items',
+  name: 'batchItems',
+  type: 'boolean',
+  displayOptions: {
+    show: {
+      resource: ['snip20Tokens'],
+      operation: ['transfer', 'increaseAllowance', 'decreaseAllowance'],
+    },
+  },
+  default: false,
+  description: 'Whether to pack the messages of all input items into as few transactions as possible instead of sending one transaction per item',
+},
+{
+  displayName: 'Max Messages per Transaction',
+  name: 'maxMessagesPerTx',
+  type: 'number',
+  typeOptions: { minValue: 1 },
+  displayOptions: {
+    show: {
+      resource: ['snip20Tokens'],
+      operation: ['transfer', 'increaseAllowance', 'decreaseAllowance'],
+      batchItems: [true],
+    },
+  },
+  default: 50,
+  description: 'Maximum number of item messages in one transaction. When batching, the gas limit applies per message.',
+},
+{
+  displayName: 'Contract Address',
+  name: 'contractAddress',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['snip721Tokens'],
+      operation: ['transferNft', 'mintNft', 'getOwnerOf', 'getNftInfo', 'approve', 'approveAll', 'getApprovals', 'getTokens'],
+    },
+  },
+  default: '',
+  description: 'The SNIP-721 contract address',
+},
+{
+  displayName: 'Token ID',
+  name: 'tokenId',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['snip721Tokens'],
+      operation: ['transferNft', 'mintNft', 'getOwnerOf', 'getNftInfo', 'approve', 'getApprovals'],
+    },
+  },
+  default: '',
+  description: 'The token ID',
+},
+{
+  displayName: 'Recipient',
+  name: 'recipient',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['snip721Tokens'],
+      operation: ['transferNft'],
+    },
+  },
+  default: '',
+  description: 'The recipient address',
+},
+{
+  displayName: 'Owner',
+  name: 'owner',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['snip721Tokens'],
+      operation: ['mintNft', 'getTokens'],
+    },
+  },
+  default: '',
+  description: 'The owner address',
+},
+{
+  displayName: 'Metadata',
+  name: 'metadata',
+  type: 'json',
+  required: false,
+  displayOptions: {
+    show: {
+      resource: ['snip721Tokens'],
+      operation: ['mintNft'],
     },
   },
   default: '{}',
-  description: 'The client header for updating',
+  description: 'The NFT metadata',
 },
-    ],
-  };
-
-  async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
-    const items = this.getInputData();
-    const resource = this.getNodeParameter('resource', 0) as string;
-
-    switch (resource) {
-      case 'blocks':
-        return [await executeBlocksOperations.call(this, items)];
-      case 'transactions':
-        return [await executeTransactionsOperations.call(this, items)];
-      case 'accounts':
-        return [await executeAccountsOperations.call(this, items)];
-      case 'staking':
-        return [await executeStakingOperations.call(this, items)];
-      case 'smartContracts':
-        return [await executeSmartContractsOperations.call(this, items)];
-      case 'governance':
-        return [await executeGovernanceOperations.call(this, items)];
-      case 'iBC':
-        return [await executeIBCOperations.call(this, items)];
-      case 'snip20Tokens':
-        return [await executeSnip20TokensOperations.call(this, items)];
-      case 'snip721Tokens':
-        return [await executeSnip721TokensOperations.call(this, items)];
-      case 'ibcOperations':
-        return [await executeIbcOperationsOperations.call(this, items)];
-      default:
-        throw new NodeOperationError(this.getNode(), `The resource "${resource}" is not supported`);
+{
+  displayName: 'Spender',
+  name: 'spender',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['snip721Tokens'],
+      operation: ['approve'],
+    },
+  },
+  default: '',
+  description: 'The spender address',
+},
+{
+  displayName: 'Operator',
+  name: 'operator',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['snip721Tokens'],
+      operation: ['approveAll'],
+    },
+  },
+  default: '',
+  description: 'The operator address',
+},
+{
+  displayName: 'Approved',
+  name: 'approved',
+  type: 'boolean',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['snip721Tokens'],
+      operation: ['approveAll'],
+    },
+  },
+  default: true,
+  description: 'Whether to approve or revoke approval',
+},
+{
+  displayName: 'Viewing Key',
+  name: 'viewingKey',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['snip721Tokens'],
+      operation: ['getOwnerOf', 'getNftInfo', 'getApprovals', 'getTokens'],
+    },
+  },
+  default: '',
+  description: 'The viewing key for querying encrypted data',
+},
+{
+  displayName: 'Private Key',
+  name: 'privateKey',
+  type: 'string',
+  typeOptions: { password: true },
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['snip721Tokens'],
+      operation: ['transferNft', 'mintNft', 'approve', 'approveAll'],
+    },
+  },
+  default: '',
+  description: 'The private key for signing transactions',
+},
+{
+  displayName: 'Gas Estimation',
+  name: 'gasEstimation',
+  type: 'options',
+  options: [
+    { name: 'Manual', value: 'manual', description: 'Use the configured gas limit' },
+    { name: 'Auto', value: 'auto', description: 'Simulate the transaction and derive the gas limit from the gas used' },
+  ],
+  displayOptions: {
+    show: {
+      resource: ['snip721Tokens'],
+      operation: ['transferNft', 'mintNft', 'approve', 'approveAll'],
+    },
+  },
+  default: 'manual',
+  description: 'How the gas limit of the transaction is determined',
+},
+{
+  displayName: 'Gas Limit',
+  name: 'gasLimit',
+  type: 'number',
+  required: false,
+  displayOptions: {
+    show: {
+      resource: ['snip721Tokens'],
+      operation: ['transferNft', 'mintNft', 'approve', 'approveAll'],
+      gasEstimation: ['manual'],
+    },
+  },
+  default: 200000,
+  description: 'Gas limit for the transaction',
+},
+{
+  displayName: 'Gas Adjustment',
+  name: 'gasAdjustment',
+  type: 'number',
+  typeOptions: { minValue: 1, numberPrecision: 2 },
+  displayOptions: {
+    show: {
+      resource: ['snip721Tokens'],
+      operation: ['transferNft', 'mintNft', 'approve', 'approveAll'],
+      gasEstimation: ['auto'],
+    },
+  },
+  default: 1.3,
+  description: 'Multiplier applied to the simulated gas used to get the gas limit',
+},
+{
+  displayName: 'Gas Price',
+  name: 'gasPrice',
+  type: 'string',
+  required: false,
+  displayOptions: {
+    show: {
+      resource: ['snip721Tokens'],
+      operation: ['transferNft', 'mintNft', 'approve', 'approveAll'],
+    },
+  },
+  default: '0.25uscrt',
+  description: 'Gas price for the transaction',
+},
+{
+  displayName: 'Transaction Mode',
+  name: 'txMode',
+  type: 'options',
+  options: [
+    { name: 'Broadcast', value: 'broadcast', description: 'Sign the transaction and broadcast it' },
+    { name: 'Broadcast and Wait for Confirmation', value: 'waitForConfirmation', description: 'Broadcast the transaction and wait until it is included in a block' },
+    { name: 'Sign Only', value: 'signOnly', description: 'Return the signed transaction bytes without broadcasting them' },
+  ],
+  displayOptions: {
+    show: {
+      resource: ['snip721Tokens'],
+      operation: ['transferNft', 'mintNft', 'approve', 'approveAll'],
+    },
+  },
+  default: 'broadcast',
+  description: 'Whether to broadcast the signed transaction or return it for a later Broadcast Transaction step',
+},
+{
+  displayName: 'Confirmation Timeout',
+  name: 'confirmationTimeout',
+  type: 'number',
+  typeOptions: { minValue: 1 },
+  displayOptions: {
+    show: {
+      resource: ['snip721Tokens'],
+      operation: ['transferNft', 'mintNft', 'approve', 'approveAll'],
+      txMode: ['waitForConfirmation'],
+    },
+  },
+  default: 60,
+  description: 'Maximum number of seconds to wait for the transaction to be included in a block',
+},
+{
+  displayName: 'Batch Items',
+  name: 'batchItems',
+  type: 'boolean',
+  displayOptions: {
+    show: {
+      resource: ['snip721Tokens'],
+      operation: ['transferNft', 'mintNft', 'approve', 'approveAll'],
+    },
+  },
+  default: false,
+  description: 'Whether to pack the messages of all input items into as few transactions as possible instead of sending one transaction per item',
+},
+{
+  displayName: 'Max Messages per Transaction',
+  name: 'maxMessagesPerTx',
+  type: 'number',
+  typeOptions: { minValue: 1 },
+  displayOptions: {
+    show: {
+      resource: ['snip721Tokens'],
+      operation: ['transferNft', 'mintNft', 'approve', 'approveAll'],
+      batchItems: [true],
+    },
+  },
+  default: 50,
+  description: 'Maximum number of item messages in one transaction. When batching, the gas limit applies per message.',
+},
+{
+  displayName: 'Source Port',
+  name: 'sourcePort',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['ibcOperations'],
+      operation: ['ibcTransfer'],
+    },
+  },
+  default: 'transfer',
+  description: 'The source port for the IBC transfer',
+},
+{
+  displayName: 'Source Channel',
+  name: 'sourceChannel',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['ibcOperations'],
+      operation: ['ibcTransfer'],
+    },
+  },
+  default: '',
+  description: 'The source channel for the IBC transfer',
+},
+{
+  displayName: 'Token',
+  name: 'token',
+  type: 'json',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['ibcOperations'],
+      operation: ['ibcTransfer'],
+    },
+  },
+  default: '{"denom": "uscrt", "amount": "1000000"}',
+  description: 'The token to transfer with denomination and amount',
+},
+{
+  displayName: 'Sender',
+  name: 'sender',
+  type: 'string',
+  required: false,
+  displayOptions: {
+    show: {
+      resource: ['ibcOperations'],
+      operation: ['ibcTransfer'],
+    },
+  },
+  default: '',
+  description: 'The sender address. Leave empty to use the address of the signing key.',
+},
+{
+  displayName: 'Receiver',
+  name: 'receiver',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['ibcOperations'],
+      operation: ['ibcTransfer'],
+    },
+  },
+  default: '',
+  description: 'The receiver address on the destination chain',
+},
+{
+  displayName: 'Timeout Height',
+  name: 'timeoutHeight',
+  type: 'number',
+  required: false,
+  displayOptions: {
+    show: {
+      resource: ['ibcOperations'],
+      operation: ['ibcTransfer'],
+    },
+  },
+  default: 0,
+  description: 'The timeout height for the transfer',
+},
+{
+  displayName: 'Private Key',
+  name: 'privateKey',
+  type: 'string',
+  typeOptions: { password: true },
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['ibcOperations'],
+      operation: ['ibcTransfer', 'updateClient'],
+    },
+  },
+  default: '',
+  description: 'The secp256k1 private key for signing the transaction',
+},
+{
+  displayName: 'Gas Estimation',
+  name: 'gasEstimation',
+  type: 'options',
+  options: [
+    { name: 'Manual', value: 'manual', description: 'Use the configured gas limit' },
+    { name: 'Auto', value: 'auto', description: 'Simulate the transaction and derive the gas limit from the gas used' },
+  ],
+  displayOptions: {
+    show: {
+      resource: ['ibcOperations'],
+      operation: ['ibcTransfer', 'updateClient'],
+    },
+  },
+  default: 'manual',
+  description: 'How the gas limit of the transaction is determined',
+},
+{
+  displayName: 'Gas Limit',
+  name: 'gasLimit',
+  type: 'number',
+  required: false,
+  displayOptions: {
+    show: {
+      resource: ['ibcOperations'],
+      operation: ['ibcTransfer', 'updateClient'],
+      gasEstimation: ['manual'],
+    },
+  },
+  default: 200000,
+  description: 'The gas limit for the transaction',
+},
+{
+  displayName: 'Gas Adjustment',
+  name: 'gasAdjustment',
+  type: 'number',
+  typeOptions: { minValue: 1, numberPrecision: 2 },
+  displayOptions: {
+    show: {
+      resource: ['ibcOperations'],
+      operation: ['ibcTransfer', 'updateClient'],
+      gasEstimation: ['auto'],
+    },
+  },
+  default: 1.3,
+  description: 'Multiplier applied to the simulated gas used to get the gas limit',
+},
+{
+  displayName: 'Gas Price',
+  name: 'gasPrice',
+  type: 'string',
+  required: false,
+  displayOptions: {
+    show: {
+      resource: ['ibcOperations'],
+      operation: ['ibcTransfer', 'updateClient'],
+    },
+  },
+  default: '0.1uscrt',
+  description: 'The gas price for the transaction',
+},
+{
+  displayName: 'Transaction Mode',
+  name: 'txMode',
+  type: 'options',
+  options: [
+    { name: 'Broadcast', value: 'broadcast', description: 'Sign the transaction and broadcast it' },
+    { name: 'Broadcast and Wait for Confirmation', value: 'waitForConfirmation', description: 'Broadcast the transaction and wait until it is included in a block' },
+    { name: 'Sign Only', value: 'signOnly', description: 'Return the signed transaction bytes without broadcasting them' },
+  ],
+  displayOptions: {
+    show: {
+      resource: ['ibcOperations'],
+      operation: ['ibcTransfer', 'updateClient'],
+    },
+  },
+  default: 'broadcast',
+  description: 'Whether to broadcast the signed transaction or return it for a later Broadcast Transaction step',
+},
+{
+  displayName: 'Confirmation Timeout',
+  name: 'confirmationTimeout',
+  type: 'number',
+  typeOptions: { minValue: 1 },
+  displayOptions: {
+    show: {
+      resource: ['ibcOperations'],
+      operation: ['ibcTransfer', 'updateClient'],
+      txMode: ['waitForConfirmation'],
+    },
+  },
+  default: 60,
+  description: 'Maximum number of seconds to wait for the transaction to be included in a block',
+},
+{
+  displayName: 'Batch Items',
+  name: 'batchItems',
+  type: 'boolean',
+  displayOptions: {
+    show: {
+      resource: ['ibcOperations'],
+      operation: ['ibcTransfer'],
+    },
+  },
+  default: false,
+  description: 'Whether to pack the messages of all input items into as few transactions as possible instead of sending one transaction per item',
+},
+{
+  displayName: 'Max Messages per Transaction',
+  name: 'maxMessagesPerTx',
+  type: 'number',
+  typeOptions: { minValue: 1 },
+  displayOptions: {
+    show: {
+      resource: ['ibcOperations'],
+      operation: ['ibcTransfer'],
+      batchItems: [true],
+    },
+  },
+  default: 50,
+  description: 'Maximum number of item messages in one transaction. When batching, the gas limit applies per message.',
+},
+{
+  displayName: 'Pagination Offset',
+  name: 'paginationOffset',
+  type: 'number',
+  required: false,
+  displayOptions: {
+    show: {
+      resource: ['ibcOperations'],
+      operation: ['getChannels', 'getConnections', 'getClientStates', 'getDenomTraces'],
+      returnAll: [false],
+    },
+  },
+  default: 0,
+  description: 'Pagination offset',
+},
+{
+  displayName: 'Pagination Limit',
+  name: 'paginationLimit',
+  type: 'number',
+  required: false,
+  displayOptions: {
+    show: {
+      resource: ['ibcOperations'],
+      operation: ['getChannels', 'getConnections', 'getClientStates', 'getDenomTraces'],
+    },
+  },
+  default: 100,
+  description: 'Pagination limit',
+},
+{
+  displayName: 'Channel ID',
+  name: 'channelId',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['ibcOperations'],
+      operation: ['getChannel'],
+    },
+  },
+  default: '',
+  description: 'The IBC channel ID',
+},
+{
+  displayName: 'Port ID',
+  name: 'portId',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['ibcOperations'],
+      operation: ['getChannel'],
+    },
+  },
+  default: 'transfer',
+  description: 'The IBC port ID',
+},
+{
+  displayName: 'Connection ID',
+  name: 'connectionId',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['ibcOperations'],
+      operation: ['getConnection'],
+    },
+  },
+  default: '',
+  description: 'The IBC connection ID',
+},
+{
+  displayName: 'Client ID',
+  name: 'clientId',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['ibcOperations'],
+      operation: ['updateClient'],
+    },
+  },
+  default: '',
+  description: 'The IBC client ID to update',
+},
+{
+  displayName: 'Header',
+  name: 'header',
+  type: 'json',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['ibcOperations'],
+      operation: ['updateClient'],
+    },
+  },
+  default: '{"typeUrl": "/ibc.lightclients.tendermint.v1.Header", "value": ""}',
+  description: 'The client message as a protobuf Any, with the type URL and the base64 encoded value',
+},
+{
+  displayName: 'Validator Address',
+  name: 'validatorAddr',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['distribution'],
+      operation: ['getValidatorOutstandingRewards', 'getValidatorCommission'],
+    },
+  },
+  default: '',
+  description: 'The operator address of the validator',
+  placeholder: 'secretvaloper1...',
+},
+{
+  displayName: 'Validator Address',
+  name: 'validatorAddr',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['slashing'],
+      operation: ['getSigningInfo', 'getValidatorHealth'],
+    },
+  },
+  default: '',
+  description: 'The operator address of the validator. Get Signing Info also accepts a consensus address.',
+  placeholder: 'secretvaloper1...',
+},
+{
+  displayName: 'Missed Blocks Warning Ratio',
+  name: 'missedBlocksWarningRatio',
+  type: 'number',
+  typeOptions: { minValue: 0, maxValue: 1, numberPrecision: 4 },
+  displayOptions: {
+    show: {
+      resource: ['slashing'],
+      operation: ['getValidatorHealth'],
+    },
+  },
+  default: 0.05,
+  description: 'Share of the signed blocks window that may be missed before the validator is reported as at risk',
+},
+{
+  displayName: 'Pagination Limit',
+  name: 'paginationLimit',
+  type: 'number',
+  typeOptions: { minValue: 1 },
+  displayOptions: {
+    show: {
+      resource: ['slashing'],
+      operation: ['getSigningInfos'],
+    },
+  },
+  default: 100,
+  description: 'Max number of results to return',
+},
+{
+  displayName: 'Pagination Key',
+  name: 'paginationKey',
+  type: 'string',
+  displayOptions: {
+    show: {
+      resource: ['slashing'],
+      operation: ['getSigningInfos'],
+      returnAll: [false],
+    },
+  },
+  default: '',
+  description: 'The next_key returned by the previous page',
+},
+{
+  displayName: 'Height',
+  name: 'height',
+  type: 'number',
+  typeOptions: { minValue: 0 },
+  displayOptions: {
+    show: {
+      resource: ['rpc'],
+      operation: ['getBlockResults', 'abciQuery'],
+    },
+  },
+  default: 0,
+  description: 'Block height to read, 0 for the latest',
+},
+{
+  displayName: 'Query',
+  name: 'rpcQuery',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['rpc'],
+      operation: ['txSearch'],
+    },
+  },
+  default: '',
+  placeholder: "message.sender='secret1...' AND tx.height>1000",
+  description: 'Event query in CometBFT syntax',
+},
+{
+  displayName: 'Order',
+  name: 'orderBy',
+  type: 'options',
+  options: [
+    { name: 'Ascending', value: 'asc' },
+    { name: 'Descending', value: 'desc' },
+  ],
+  displayOptions: {
+    show: {
+      resource: ['rpc'],
+      operation: ['txSearch'],
+    },
+  },
+  default: 'desc',
+  description: 'Sort order by height and index',
+},
+{
+  displayName: 'Page',
+  name: 'page',
+  type: 'number',
+  typeOptions: { minValue: 1 },
+  displayOptions: {
+    show: {
+      resource: ['rpc'],
+      operation: ['txSearch'],
+      returnAll: [false],
+    },
+  },
+  default: 1,
+  description: 'Page number, starting at 1',
+},
+{
+  displayName: 'Per Page',
+  name: 'perPage',
+  type: 'number',
+  typeOptions: { minValue: 1, maxValue: 100 },
+  displayOptions: {
+    show: {
+      resource: ['rpc'],
+      operation: ['txSearch'],
+    },
+  },
+  default: 30,
+  description: 'Number of transactions per page (at most 100)',
+},
+{
+  displayName: 'Path',
+  name: 'abciPath',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['rpc'],
+      operation: ['abciQuery'],
+    },
+  },
+  default: '',
+  placeholder: '/cosmos.bank.v1beta1.Query/Balance',
+  description: 'Query path, e.g. a gRPC method or a store path such as /store/bank/key',
+},
+{
+  displayName: 'Data (Hex)',
+  name: 'abciData',
+  type: 'string',
+  displayOptions: {
+    show: {
+      resource: ['rpc'],
+      operation: ['abciQuery'],
+    },
+  },
+  default: '',
+  description: 'Hex encoded query data, e.g. the protobuf encoded request of a gRPC method',
+},
+{
+  displayName: 'Prove',
+  name: 'prove',
+  type: 'boolean',
+  displayOptions: {
+    show: {
+      resource: ['rpc'],
+      operation: ['abciQuery'],
+    },
+  },
+  default: false,
+  description: 'Whether to include a Merkle proof of the result',
+},
+{
+  displayName: 'Limit',
+  name: 'limit',
+  type: 'number',
+  typeOptions: { minValue: 1, maxValue: 100 },
+  displayOptions: {
+    show: {
+      resource: ['rpc'],
+      operation: ['getUnconfirmedTxs'],
+    },
+  },
+  default: 30,
+  description: 'Max number of results to return',
+},
+{
+  displayName: 'Return All',
+  name: 'returnAll',
+  type: 'boolean',
+  displayOptions: {
+    show: {
+      resource: ['transactions', 'accounts', 'staking', 'smartContracts', 'governance', 'iBC', 'ibcOperations', 'slashing', 'rpc'],
+      operation: [
+        'getTransactions',
+        'getBalances',
+        'getTotalSupply',
+        'getDelegations',
+        'getUnbondingDelegations',
+        'getValidators',
+        'getValidatorDelegations',
+        'getContracts',
+        'getContractsByCode',
+        'listCodes',
+        'getProposals',
+        'getProposalVotes',
+        'getProposalDeposits',
+        'getChannels',
+        'getConnections',
+        'getClientStates',
+        'getDenomTraces',
+        'getSigningInfos',
+        'txSearch',
+      ],
+    },
+  },
+  default: false,
+  description: 'Whether to fetch every page of results instead of a single one',
+},
+{
+  displayName: 'Max Items',
+  name: 'maxItems',
+  type: 'number',
+  typeOptions: { minValue: 1 },
+  displayOptions: {
+    show: {
+      returnAll: [true],
+    },
+  },
+  default: 1000,
+  description: 'Stop fetching pages once this many results are collected',
+},
+{
+  displayName: 'Output',
+  name: 'returnAllOutput',
+  type: 'options',
+  options: [
+    { name: 'One Item per Result', value: 'items' },
+    { name: 'One Merged Item', value: 'merged', description: 'A single item with all results in one array' },
+  ],
+  displayOptions: {
+    show: {
+      returnAll: [true],
+    },
+  },
+  default: 'items',
+  description: 'How to emit the fetched results',
+},
+    ],
+  };
+
+  async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
+    const items = this.getInputData();
+    const resource = this.getNodeParameter('resource', 0) as string;
+
+    // RPC operations don't use the LCD, so its endpoints need no probing
+    const { failover, servedBy } = await createRequestContext.call(this, resource !== 'rpc');
+    let returnData: INodeExecutionData[];
+
+    switch (resource) {
+      case 'blocks':
+        returnData = await executeBlocksOperations.call(this, items);
+        break;
+      case 'transactions':
+        returnData = await executeTransactionsOperations.call(this, items);
+        break;
+      case 'accounts':
+        returnData = await executeAccountsOperations.call(this, items);
+        break;
+      case 'staking':
+        returnData = await executeStakingOperations.call(this, items);
+        break;
+      case 'distribution':
+        returnData = await executeDistributionOperations.call(this, items);
+        break;
+      case 'mint':
+        returnData = await executeMintOperations.call(this, items);
+        break;
+      case 'slashing':
+        returnData = await executeSlashingOperations.call(this, items);
+        break;
+      case 'smartContracts':
+        returnData = await executeSmartContractsOperations.call(this, items);
+        break;
+      case 'governance':
+        returnData = await executeGovernanceOperations.call(this, items);
+        break;
+      case 'iBC':
+        returnData = await executeIBCOperations.call(this, items);
+        break;
+      case 'rpc':
+        returnData = await executeRpcOperations.call(this, items);
+        break;
+      case 'snip20Tokens':
+        returnData = await executeSnip20TokensOperations.call(this, items);
+        break;
+      case 'snip721Tokens':
+        returnData = await executeSnip721TokensOperations.call(this, items);
+        break;
+      case 'ibcOperations':
+        returnData = await executeIbcOperationsOperations.call(this, items);
+        break;
+      default:
+        throw new NodeOperationError(this.getNode(), `The resource "${resource}" is not supported`);
+    }
+
+    if (failover) {
+      for (const item of returnData) {
+        const itemIndex = (item.pairedItem as { item?: number } | undefined)?.item;
+        const endpoint = itemIndex === undefined ? undefined : servedBy.get(itemIndex);
+        if (endpoint) item.json.lcdEndpoint = endpoint;
+      }
+    }
+    return [returnData];
+  }
+}
+
+// ============================================================
+// Resource Handler Functions
+// ============================================================
+
+export async function executeBlocksOperations(
+  this: IExecuteFunctions,
+  items: INodeExecutionData[],
+): Promise<INodeExecutionData[]> {
+  const returnData: INodeExecutionData[] = [];
+  const operation = this.getNodeParameter('operation', 0) as string;
+  const credentials = await this.getCredentials('secretNetworkApi') as any;
+
+  for (let i = 0; i < items.length; i++) {
+    try {
+      let result: any;
+
+      const baseOptions: any = {
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        json: true,
+      };
+
+      if (credentials.username && credentials.password) {
+        baseOptions.auth = {
+          username: credentials.username,
+          password: credentials.password,
+        };
+      }
+
+      switch (operation) {
+        case 'getLatestBlock': {
+          const options: any = {
+            ...baseOptions,
+            method: 'GET',
+            url: `${credentials.baseUrl || 'https://lcd.secret.express'}/cosmos/base/tendermint/v1beta1/blocks/latest`,
+          };
+          result = await sendRequest.call(this, options, i) as any;
+          break;
+        }
+
+        case 'getBlock': {
+          const height = this.getNodeParameter('height', i) as number;
+          const options: any = {
+            ...baseOptions,
+            method: 'GET',
+            url: `${credentials.baseUrl || 'https://lcd.secret.express'}/cosmos/base/tendermint/v1beta1/blocks/${height}`,
+          };
+          result = await sendRequest.call(this, options, i) as any;
+          break;
+        }
+
+        case 'getNodeInfo': {
+          const options: any = {
+            ...baseOptions,
+            method: 'GET',
+            url: `${credentials.baseUrl || 'https://lcd.secret.express'}/cosmos/base/tendermint/v1beta1/node_info`,
+          };
+          result = await sendRequest.call(this, options, i) as any;
+          break;
+        }
+
+        case 'getLatestValidatorSet': {
+          const options: any = {
+            ...baseOptions,
+            method: 'GET',
+            url: `${credentials.baseUrl || 'https://lcd.secret.express'}/cosmos/base/tendermint/v1beta1/validatorsets/latest`,
+          };
+          result = await sendRequest.call(this, options, i) as any;
+          break;
+        }
+
+        case 'getValidatorSet': {
+          const height = this.getNodeParameter('height', i) as number;
+          const options: any = {
+            ...baseOptions,
+            method: 'GET',
+            url: `${credentials.baseUrl || 'https://lcd.secret.express'}/cosmos/base/tendermint/v1beta1/validatorsets/${height}`,
+          };
+          result = await sendRequest.call(this, options, i) as any;
+          break;
+        }
+
+        default:
+          throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`);
+      }
+
+      returnData.push({ json: result, pairedItem: { item: i } });
+
+    } catch (error: any) {
+      if (this.continueOnFail()) {
+        returnData.push({ json: { error: error.message }, pairedItem: { item: i } });
+      } else {
+        throw error;
+      }
+    }
+  }
+
+  return returnData;
+}
+
+export async function executeTransactionsOperations(
+	this: IExecuteFunctions,
+	items: INodeExecutionData[],
+): Promise<INodeExecutionData[]> {
+	const returnData: INodeExecutionData[] = [];
+	const operation = this.getNodeParameter('operation', 0) as string;
+	const credentials = await this.getCredentials('secretNetworkApi') as any;
+
+	for (let i = 0; i < items.length; i++) {
+		try {
+			let result: any;
+
+			switch (operation) {
+				case 'getTransaction': {
+					const hash = this.getNodeParameter('hash', i) as string;
+					const options: any = {
+						method: 'GET',
+						url: `${credentials.baseUrl}/cosmos/tx/v1beta1/txs/${hash}`,
+						headers: {
+							'Authorization': `Basic ${Buffer.from(`${credentials.username}:${credentials.password}`).toString('base64')}`,
+							'Content-Type': 'application/json'
+						},
+						json: true
+					};
+					result = await sendRequest.call(this, options, i) as any;
+					// Contract outputs of txs signed with our key can be decrypted
+					result = await decryptGetTxResponse.call(this, credentials, result, i);
+					break;
+				}
+
+				case 'getTransactions': {
+					const events = this.getNodeParameter('events', i) as string;
+					const pageKey = this.getNodeParameter('pageKey', i, '') as string;
+					const limit = this.getNodeParameter('limit', i) as number;
+					const headers = {
+						'Authorization': `Basic ${Buffer.from(`${credentials.username}:${credentials.password}`).toString('base64')}`,
+						'Content-Type': 'application/json'
+					};
+
+					if (this.getNodeParameter('returnAll', i, false) as boolean) {
+						// The tx search numbers its pages instead of returning a next_key
+						returnData.push(...await returnAllPages.call(this, i, 'tx_responses', async ({ page }) => {
+							const queryParams = new URLSearchParams({ page: page.toString() });
+							if (events) queryParams.append('events', events);
+							if (limit) queryParams.append('limit', limit.toString());
+							return sendRequest.call(this, {
+								method: 'GET',
+								url: `${credentials.baseUrl}/cosmos/tx/v1beta1/txs?${queryParams.toString()}`,
+								headers,
+								json: true
+							}, i);
+						}));
+						continue;
+					}
+
+					let queryParams = new URLSearchParams();
+					if (events) queryParams.append('events', events);
+					if (pageKey) queryParams.append('pagination.key', pageKey);
+					if (limit) queryParams.append('pagination.limit', limit.toString());
+
+					const options: any = {
+						method: 'GET',
+						url: `${credentials.baseUrl}/cosmos/tx/v1beta1/txs?${queryParams.toString()}`,
+						headers,
+						json: true
+					};
+					result = await sendRequest.call(this, options, i) as any;
+					break;
+				}
+
+				case 'broadcastTransaction': {
+					const txBytes = this.getNodeParameter('txBytes', i) as string;
+					const mode = this.getNodeParameter('mode', i) as string;
+					const waitForConfirmation = mode === 'waitForConfirmation';
+
+					const body = {
+						tx_bytes: txBytes,
+						mode: waitForConfirmation ? 'BROADCAST_MODE_SYNC' : mode
+					};
+
+					const options: any = {
+						method: 'POST',
+						url: `${credentials.baseUrl}/cosmos/tx/v1beta1/txs`,
+						headers: {
+							'Authorization': `Basic ${Buffer.from(`${credentials.username}:${credentials.password}`).toString('base64')}`,
+							'Content-Type': 'application/json'
+						},
+						body: body,
+						json: true
+					};
+					result = await sendRequest.call(this, options, i) as any;
+
+					if (waitForConfirmation) {
+						const checkTx = result.tx_response ?? {};
+						if (checkTx.code) {
+							throw new NodeOperationError(
+								this.getNode(),
+								`Transaction ${checkTx.txhash} was rejected (code ${checkTx.code}): ${checkTx.raw_log}`,
+								{ itemIndex: i },
+							);
+						}
+						const timeout = this.getNodeParameter('confirmationTimeout', i, 60) as number;
+						const confirmed = await waitForTransaction.call(this, credentials, checkTx.txhash, timeout, i);
+						const decrypted = await decryptGetTxResponse.call(this, credentials, confirmed, i);
+						result = confirmedTxResult.call(this, decrypted.tx_response as IDataObject);
+					}
+					break;
+				}
+
+				case 'simulateTransaction': {
+					const txBytes = this.getNodeParameter('txBytes', i) as string;
+
+					const body = {
+						tx_bytes: txBytes
+					};
+
+					const options: any = {
+						method: 'POST',
+						url: `${credentials.baseUrl}/cosmos/tx/v1beta1/simulate`,
+						headers: {
+							'Authorization': `Basic ${Buffer.from(`${credentials.username}:${credentials.password}`).toString('base64')}`,
+							'Content-Type': 'application/json'
+						},
+						body: body,
+						json: true
+					};
+					result = await sendRequest.call(this, options, i) as any;
+					break;
+				}
+
+				case 'decodeTransaction': {
+					const txBytes = this.getNodeParameter('txBytes', i) as string;
+					try {
+						result = decodeTxRaw(Buffer.from(txBytes.trim(), 'base64'));
+					} catch (error: any) {
+						throw new NodeOperationError(this.getNode(), `Could not decode transaction: ${error.message}`, { itemIndex: i });
+					}
+					break;
+				}
+
+				case 'getTransactionsByHeight': {
+					const height = this.getNodeParameter('height', i) as number;
+
+					const options: any = {
+						method: 'GET',
+						url: `${credentials.baseUrl}/cosmos/tx/v1beta1/txs/block/${height}`,
+						headers: {
+							'Authorization': `Basic ${Buffer.from(`${credentials.username}:${credentials.password}`).toString('base64')}`,
+							'Content-Type': 'application/json'
+						},
+						json: true
+					};
+					result = await sendRequest.call(this, options, i) as any;
+					break;
+				}
+
+				default:
+					throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`);
+			}
+
+			returnData.push({ 
+				json: result, 
+				pairedItem: { item: i } 
+			});
+
+		} catch (error: any) {
+			if (this.continueOnFail()) {
+				returnData.push({
+					json: { error: error.message },
+					pairedItem: { item: i }
+				});
+			} else {
+				throw error;
+			}
+		}
+	}
+
+	return returnData;
+}
+
+export async function executeAccountsOperations(
+  this: IExecuteFunctions,
+  items: INodeExecutionData[],
+): Promise<INodeExecutionData[]> {
+  const returnData: INodeExecutionData[] = [];
+  const operation = this.getNodeParameter('operation', 0) as string;
+  const credentials = await this.getCredentials('secretNetworkApi') as any;
+  // Write operations can pack the messages of all items into shared transactions
+  const batcher = getTransactionBatcher.call(this, operation, ['send']);
+
+  for (let i = 0; i < items.length; i++) {
+    try {
+      let result: any;
+
+      switch (operation) {
+        case 'getAccount': {
+          const address = this.getNodeParameter('address', i) as string;
+          const options: any = {
+            method: 'GET',
+            url: `${credentials.baseUrl}/cosmos/auth/v1beta1/accounts/${address}`,
+            headers: {
+              'Content-Type': 'application/json',
+              'Authorization': `Basic ${Buffer.from(`${credentials.username}:${credentials.password}`).toString('base64')}`,
+            },
+            json: true,
+          };
+          result = await sendRequest.call(this, options, i) as any;
+          break;
+        }
+
+        case 'getBalances': {
+          const address = this.getNodeParameter('address', i) as string;
+          const denom = this.getNodeParameter('denom', i) as string;
+          const getBalances = async (paginationKey = ''): Promise<any> => {
+            const queryParams = new URLSearchParams();
+            if (denom) queryParams.append('denom', denom);
+            if (paginationKey) queryParams.append('pagination.key', paginationKey);
+            const query = queryParams.toString();
+            const options: any = {
+              method: 'GET',
+              url: `${credentials.baseUrl}/cosmos/bank/v1beta1/balances/${address}${query ? `?${query}` : ''}`,
+              headers: {
+                'Content-Type': 'application/json',
+                'Authorization': `Basic ${Buffer.from(`${credentials.username}:${credentials.password}`).toString('base64')}`,
+              },
+              json: true,
+            };
+            return sendRequest.call(this, options, i);
+          };
+
+          if (this.getNodeParameter('returnAll', i, false) as boolean) {
+            returnData.push(...await returnAllPages.call(this, i, 'balances', ({ nextKey }) => getBalances(nextKey)));
+            continue;
+          }
+          result = await getBalances();
+          break;
+        }
+
+        case 'getBalanceByDenom': {
+          const address = this.getNodeParameter('address', i) as string;
+          const denom = this.getNodeParameter('denom', i) as string;
+          const options: any = {
+            method: 'GET',
+            url: `${credentials.baseUrl}/cosmos/bank/v1beta1/balances/${address}/by_denom?denom=${encodeURIComponent(denom)}`,
+            headers: {
+              'Content-Type': 'application/json',
+              'Authorization': `Basic ${Buffer.from(`${credentials.username}:${credentials.password}`).toString('base64')}`,
+            },
+            json: true,
+          };
+          result = await sendRequest.call(this, options, i) as any;
+          break;
+        }
+
+        case 'getTotalSupply': {
+          const paginationKey = this.getNodeParameter('paginationKey', i, '') as string;
+          const pageLimit = this.getNodeParameter('pageLimit', i) as number;
+          const getSupply = async (paginationKey: string): Promise<any> => {
+            const queryParams = new URLSearchParams();
+            if (paginationKey) queryParams.append('pagination.key', paginationKey);
+            if (pageLimit) queryParams.append('pagination.limit', pageLimit.toString());
+            const options: any = {
+              method: 'GET',
+              url: `${credentials.baseUrl}/cosmos/bank/v1beta1/supply?${queryParams.toString()}`,
+              headers: {
+                'Content-Type': 'application/json',
+                'Authorization': `Basic ${Buffer.from(`${credentials.username}:${credentials.password}`).toString('base64')}`,
+              },
+              json: true,
+            };
+            return sendRequest.call(this, options, i);
+          };
+
+          if (this.getNodeParameter('returnAll', i, false) as boolean) {
+            returnData.push(...await returnAllPages.call(this, i, 'supply', ({ nextKey }) => getSupply(nextKey)));
+            continue;
+          }
+          result = await getSupply(paginationKey);
+          break;
+        }
+
+        case 'getSupplyByDenom': {
+          const denom = this.getNodeParameter('denom', i) as string;
+          const options: any = {
+            method: 'GET',
+            url: `${credentials.baseUrl}/cosmos/bank/v1beta1/supply/by_denom?denom=${encodeURIComponent(denom)}`,
+            headers: {
+              'Content-Type': 'application/json',
+              'Authorization': `Basic ${Buffer.from(`${credentials.username}:${credentials.password}`).toString('base64')}`,
+            },
+            json: true,
+          };
+          result = await sendRequest.call(this, options, i) as any;
+          break;
+        }
+
+        case 'getBalance': {
+          const address = this.getNodeParameter('address', i) as string;
+          const options: any = {
+            method: 'GET',
+            url: `${credentials.baseUrl}/cosmos/bank/v1beta1/balances/${address}`,
+            headers: {
+              'Content-Type': 'application/json',
+              'Authorization': `Basic ${Buffer.from(`${credentials.username}:${credentials.password}`).toString('base64')}`,
+            },
+            json: true,
+          };
+          result = await sendRequest.call(this, options, i) as any;
+          break;
+        }
+
+        case 'getDelegationRewards': {
+          const delegatorAddress = this.getNodeParameter('delegatorAddress', i) as string;
+          const options: any = {
+            method: 'GET',
+            url: `${credentials.baseUrl}/cosmos/distribution/v1beta1/delegators/${delegatorAddress}/rewards`,
+            headers: {
+              'Content-Type': 'application/json',
+              'Authorization': `Basic ${Buffer.from(`${credentials.username}:${credentials.password}`).toString('base64')}`,
+            },
+            json: true,
+          };
+          result = await sendRequest.call(this, options, i) as any;
+          break;
+        }
+
+        case 'getDelegations': {
+          const delegatorAddr = this.getNodeParameter('delegatorAddr', i) as string;
+          const getDelegations = async (paginationKey = ''): Promise<any> => {
+            const options: any = {
+              method: 'GET',
+              url: `${credentials.baseUrl}/cosmos/staking/v1beta1/delegations/${delegatorAddr}${paginationKey ? `?pagination.key=${encodeURIComponent(paginationKey)}` : ''}`,
+              headers: {
+                'Content-Type': 'application/json',
+                'Authorization': `Basic ${Buffer.from(`${credentials.username}:${credentials.password}`).toString('base64')}`,
+              },
+              json: true,
+            };
+            return sendRequest.call(this, options, i);
+          };
+
+          if (this.getNodeParameter('returnAll', i, false) as boolean) {
+            returnData.push(...await returnAllPages.call(this, i, 'delegation_responses', ({ nextKey }) => getDelegations(nextKey)));
+            continue;
+          }
+          result = await getDelegations();
+          break;
+        }
+
+        case 'getUnbondingDelegations': {
+          const delegatorAddr = this.getNodeParameter('delegatorAddr', i) as string;
+          const getUnbondingDelegations = async (paginationKey = ''): Promise<any> => {
+            const options: any = {
+              method: 'GET',
+              url: `${credentials.baseUrl}/cosmos/staking/v1beta1/delegators/${delegatorAddr}/unbonding_delegations${paginationKey ? `?pagination.key=${encodeURIComponent(paginationKey)}` : ''}`,
+              headers: {
+                'Content-Type': 'application/json',
+                'Authorization': `Basic ${Buffer.from(`${credentials.username}:${credentials.password}`).toString('base64')}`,
+              },
+              json: true,
+            };
+            return sendRequest.call(this, options, i);
+          };
+
+          if (this.getNodeParameter('returnAll', i, false) as boolean) {
+            returnData.push(...await returnAllPages.call(this, i, 'unbonding_responses', ({ nextKey }) => getUnbondingDelegations(nextKey)));
+            continue;
+          }
+          result = await getUnbondingDelegations();
+          break;
+        }
+
+        case 'send': {
+          const toAddress = this.getNodeParameter('toAddress', i) as string;
+          const amount = this.getNodeParameter('amount', i) as string;
+          const denom = this.getNodeParameter('denom', i) as string;
+          const wallet = getSigningWallet.call(this, credentials, i);
+
+          const message = encodeMsgSend({
+            fromAddress: wallet.address,
+            toAddress,
+            amount: [{ denom, amount: String(amount) }],
+          });
+          if (batcher) {
+            batcher.add(wallet, i, message);
+            continue;
+          }
+          result = await signAndBroadcast.call(
+            this, credentials, wallet, [message], getTxOptions.call(this, i),
+          );
+          break;
+        }
+
+        default:
+          throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`);
+      }
+
+      returnData.push({ json: result, pairedItem: { item: i } });
+
+    } catch (error: any) {
+      if (this.continueOnFail()) {
+        returnData.push({ json: { error: error.message }, pairedItem: { item: i } });
+      } else {
+        throw error;
+      }
+    }
+  }
+
+  if (batcher) {
+    returnData.push(...await batcher.flush(this, credentials, getTxOptions.call(this, 0)));
+  }
+
+  return returnData;
+}
+
+export async function executeStakingOperations(
+	this: IExecuteFunctions,
+	items: INodeExecutionData[],
+): Promise<INodeExecutionData[]> {
+	const returnData: INodeExecutionData[] = [];
+	const operation = this.getNodeParameter('operation', 0) as string;
+	const credentials = await this.getCredentials('secretNetworkApi') as any;
+	// Write operations can pack the messages of all items into shared transactions
+	const batcher = getTransactionBatcher.call(this, operation, ['delegate', 'undelegate', 'redelegate']);
+
+	for (let i = 0; i < items.length; i++) {
+		try {
+			let result: any;
+			let wallet: SecretWallet | undefined;
+			let messages: EncodedMessage[] = [];
+
+			const baseOptions: any = {
+				headers: {
+					'Content-Type': 'application/json',
+				},
+				json: true,
+			};
+
+			if (credentials.username && credentials.password) {
+				baseOptions.auth = {
+					username: credentials.username,
+					password: credentials.password,
+				};
+			}
+
+			switch (operation) {
+				case 'getValidators': {
+					const status = this.getNodeParameter('status', i, '') as string;
+					const paginationLimit = this.getNodeParameter('paginationLimit', i, 100) as number;
+					const getValidators = async (paginationKey: string): Promise<any> => {
+						const queryParams = new URLSearchParams();
+						if (status) queryParams.append('status', status);
+						if (paginationLimit) queryParams.append('pagination.limit', paginationLimit.toString());
+						if (paginationKey) queryParams.append('pagination.key', paginationKey);
+
+						return sendRequest.call(this, {
+							...baseOptions,
+							method: 'GET',
+							url: `${credentials.baseUrl}/cosmos/staking/v1beta1/validators?${queryParams.toString()}`,
+						}, i);
+					};
+
+					if (this.getNodeParameter('returnAll', i, false) as boolean) {
+						returnData.push(...await returnAllPages.call(this, i, 'validators', ({ nextKey }) => getValidators(nextKey)));
+						continue;
+					}
+					result = await getValidators(this.getNodeParameter('paginationKey', i, '') as string);
+					break;
+				}
+
+				case 'getValidator': {
+					const validatorAddr = this.getNodeParameter('validatorAddr', i) as string;
+					result = await sendRequest.call(this, {
+						...baseOptions,
+						method: 'GET',
+						url: `${credentials.baseUrl}/cosmos/staking/v1beta1/validators/${validatorAddr}`,
+					}, i) as any;
+					break;
+				}
+
+				case 'getDelegations': {
+					const delegatorAddr = this.getNodeParameter('delegatorAddr', i) as string;
+					const getDelegations = async (paginationKey = ''): Promise<any> =>
+						sendRequest.call(this, {
+							...baseOptions,
+							method: 'GET',
+							url: `${credentials.baseUrl}/cosmos/staking/v1beta1/delegations/${delegatorAddr}${paginationKey ? `?pagination.key=${encodeURIComponent(paginationKey)}` : ''}`,
+						}, i);
+
+					if (this.getNodeParameter('returnAll', i, false) as boolean) {
+						returnData.push(...await returnAllPages.call(this, i, 'delegation_responses', ({ nextKey }) => getDelegations(nextKey)));
+						continue;
+					}
+					result = await getDelegations();
+					break;
+				}
+
+				case 'getValidatorDelegations': {
+					const validatorAddr = this.getNodeParameter('validatorAddr', i) as string;
+					const getValidatorDelegations = async (paginationKey = ''): Promise<any> =>
+						sendRequest.call(this, {
+							...baseOptions,
+							method: 'GET',
+							url: `${credentials.baseUrl}/cosmos/staking/v1beta1/validators/${validatorAddr}/delegations${paginationKey ? `?pagination.key=${encodeURIComponent(paginationKey)}` : ''}`,
+						}, i);
+
+					if (this.getNodeParameter('returnAll', i, false) as boolean) {
+						returnData.push(...await returnAllPages.call(this, i, 'delegation_responses', ({ nextKey }) => getValidatorDelegations(nextKey)));
+						continue;
+					}
+					result = await getValidatorDelegations();
+					break;
+				}
+
+				case 'getUnbondingDelegations': {
+					const delegatorAddr = this.getNodeParameter('delegatorAddr', i) as string;
+					const getUnbondingDelegations = async (paginationKey = ''): Promise<any> =>
+						sendRequest.call(this, {
+							...baseOptions,
+							method: 'GET',
+							url: `${credentials.baseUrl}/cosmos/staking/v1beta1/delegators/${delegatorAddr}/unbonding_delegations${paginationKey ? `?pagination.key=${encodeURIComponent(paginationKey)}` : ''}`,
+						}, i);
+
+					if (this.getNodeParameter('returnAll', i, false) as boolean) {
+						returnData.push(...await returnAllPages.call(this, i, 'unbonding_responses', ({ nextKey }) => getUnbondingDelegations(nextKey)));
+						continue;
+					}
+					result = await getUnbondingDelegations();
+					break;
+				}
+
+				case 'getStakingApr': {
+					const validatorAddr = this.getNodeParameter('validatorAddr', i, '') as string;
+					const get = async (path: string): Promise<any> =>
+						sendRequest.call(this, { ...baseOptions, method: 'GET', url: `${credentials.baseUrl}${path}` }, i);
+
+					const { params: stakingParams } = await get('/cosmos/staking/v1beta1/params');
+					const [{ inflation }, { params: distributionParams }, { pool }, { amount: supply }] = await Promise.all([
+						get('/cosmos/mint/v1beta1/inflation'),
+						get('/cosmos/distribution/v1beta1/params'),
+						get('/cosmos/staking/v1beta1/pool'),
+						get(`/cosmos/bank/v1beta1/supply/by_denom?denom=${stakingParams.bond_denom}`),
+					]);
+					let commissionRate: number | undefined;
+					if (validatorAddr) {
+						const { validator } = await get(`/cosmos/staking/v1beta1/validators/${validatorAddr}`);
+						commissionRate = parseGovDec(validator.commission.commission_rates.rate);
+					}
+
+					result = {
+						...(validatorAddr ? { validator_address: validatorAddr } : {}),
+						denom: stakingParams.bond_denom,
+						...calculateStakingApr({
+							inflation: parseGovDec(inflation),
+							communityTax: parseGovDec(distributionParams.community_tax),
+							// Secret's distribution module also diverts a share to the foundation
+							foundationTax: parseGovDec(distributionParams.secret_foundation_tax ?? 0),
+							bondedTokens: Number(pool.bonded_tokens),
+							totalSupply: Number(supply.amount),
+							commissionRate,
+						}),
+					};
+					break;
+				}
+
+				case 'delegate':
+				case 'undelegate': {
+					const validatorAddr = this.getNodeParameter('validatorAddr', i) as string;
+					const amount = this.getNodeParameter('amount', i) as string;
+					const denom = this.getNodeParameter('denom', i) as string;
+					wallet = getSigningWallet.call(this, credentials, i);
+
+					const params = {
+						delegatorAddress: wallet.address,
+						validatorAddress: validatorAddr,
+						amount: { denom, amount: String(amount) },
+					};
+					messages = [operation === 'delegate' ? encodeMsgDelegate(params) : encodeMsgUndelegate(params)];
+					break;
+				}
+
+				case 'redelegate': {
+					const srcValidatorAddr = this.getNodeParameter('srcValidatorAddr', i) as string;
+					const dstValidatorAddr = this.getNodeParameter('dstValidatorAddr', i) as string;
+					const amount = this.getNodeParameter('amount', i) as string;
+					const denom = this.getNodeParameter('denom', i) as string;
+					wallet = getSigningWallet.call(this, credentials, i);
+
+					messages = [encodeMsgBeginRedelegate({
+						delegatorAddress: wallet.address,
+						validatorSrcAddress: srcValidatorAddr,
+						validatorDstAddress: dstValidatorAddr,
+						amount: { denom, amount: String(amount) },
+					})];
+					break;
+				}
+
+				case 'withdrawRewards': {
+					const validatorAddr = this.getNodeParameter('validatorAddr', i, '') as string;
+					const delegatorAddress = (wallet = getSigningWallet.call(this, credentials, i)).address;
+
+					let validators = [validatorAddr];
+					if (!validatorAddr) {
+						// Rewards below 1 unit would be withdrawn as nothing
+						const rewards = await getDelegatorRewards.call(this, credentials, delegatorAddress, i);
+						validators = rewards
+							.filter(({ reward }) => reward.some((coin) => parseFloat(coin.amount) >= 1))
+							.map(({ validator_address }) => validator_address);
+						if (!validators.length) {
+							throw new NodeOperationError(this.getNode(), `${delegatorAddress} has no pending rewards to withdraw`, { itemIndex: i });
+						}
+					}
+					const txs = await signAndBroadcastInChunks.call(
+						this,
+						credentials,
+						wallet,
+						validators.map((validatorAddress) => [encodeMsgWithdrawDelegatorReward({ delegatorAddress, validatorAddress })]),
+						this.getNodeParameter('maxMessagesPerTx', i, 50) as number,
+						getTxOptions.call(this, i),
+					);
+					result = txs.length === 1 ? txs[0] : { transactions: txs };
+					break;
+				}
+
+				case 'compoundRewards': {
+					const denom = this.getNodeParameter('denom', i) as string;
+					const minimumReward = this.getNodeParameter('minimumReward', i) as number;
+					const feeReserve = this.getNodeParameter('feeReserve', i) as number;
+					wallet = getSigningWallet.call(this, credentials, i);
+					const delegatorAddress = wallet.address;
+
+					// Rewards paid out elsewhere would make the delegations spend the signer's own balance
+					const { withdraw_address } = await sendRequest.call(this, {
+						...baseOptions,
+						method: 'GET',
+						url: `${credentials.baseUrl}/cosmos/distribution/v1beta1/delegators/${delegatorAddress}/withdraw_address`,
+					}, i) as any;
+					if (withdraw_address && withdraw_address !== delegatorAddress) {
+						throw new NodeOperationError(this.getNode(), `Rewards of ${delegatorAddress} are paid out to ${withdraw_address} and cannot be compounded`, { itemIndex: i });
+					}
+
+					const rewards = await getDelegatorRewards.call(this, credentials, delegatorAddress, i);
+					const plan = planRewardCompounding(rewards, denom, minimumReward, feeReserve);
+					if (!plan.total_restaked) {
+						throw new NodeOperationError(this.getNode(), `Pending rewards of ${delegatorAddress} (${plan.total_rewards}${denom} above the minimum) do not exceed the fee reserve of ${feeReserve}${denom}`, { itemIndex: i });
+					}
+
+					// A validator's withdraw and delegate stay in one transaction
+					const messageGroups = plan.validators.map(({ validator_address, restaked }) => {
+						const group = [encodeMsgWithdrawDelegatorReward({ delegatorAddress, validatorAddress: validator_address })];
+						if (restaked > 0) {
+							group.push(encodeMsgDelegate({
+								delegatorAddress,
+								validatorAddress: validator_address,
+								amount: { denom, amount: String(restaked) },
+							}));
+						}
+						return group;
+					});
+
+					// The configured gas limit covers one validator's withdraw and delegate pair
+					const txs = await signAndBroadcastInChunks.call(
+						this,
+						credentials,
+						wallet,
+						messageGroups,
+						this.getNodeParameter('maxMessagesPerTx', i, 50) as number,
+						getTxOptions.call(this, i),
+					);
+					result = { ...(txs.length === 1 ? txs[0] : { transactions: txs }), delegator_address: delegatorAddress, denom, ...plan };
+					break;
+				}
+
+				case 'withdrawCommission': {
+					const validatorAddr = this.getNodeParameter('validatorAddr', i, '') as string;
+					wallet = getSigningWallet.call(this, credentials, i);
+					messages = [encodeMsgWithdrawValidatorCommission({
+						validatorAddress: validatorAddr || convertAddressPrefix(wallet.address, SECRET_VALOPER_PREFIX),
+					})];
+					break;
+				}
+
+				case 'setWithdrawAddress': {
+					const withdrawAddress = this.getNodeParameter('withdrawAddress', i) as string;
+					wallet = getSigningWallet.call(this, credentials, i);
+					messages = [encodeMsgSetWithdrawAddress({ delegatorAddress: wallet.address, withdrawAddress })];
+					break;
+				}
+
+				default:
+					throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`);
+			}
+
+			if (wallet && messages.length) {
+				if (batcher) {
+					for (const message of messages) batcher.add(wallet, i, message);
+					continue;
+				}
+				result = await signAndBroadcast.call(
+					this, credentials, wallet, messages, getTxOptions.call(this, i),
+				);
+			}
+
+			returnData.push({ json: result, pairedItem: { item: i } });
+
+		} catch (error: any) {
+			if (this.continueOnFail()) {
+				returnData.push({ json: { error: error.message }, pairedItem: { item: i } });
+			} else {
+				throw error;
+			}
+		}
+	}
+
+	if (batcher) {
+		returnData.push(...await batcher.flush(this, credentials, getTxOptions.call(this, 0)));
+	}
+
+	return returnData;
+}
+
+export async function executeSmartContractsOperations(
+  this: IExecuteFunctions,
+  items: INodeExecutionData[],
+): Promise<INodeExecutionData[]> {
+  const returnData: INodeExecutionData[] = [];
+  const operation = this.getNodeParameter('operation', 0) as string;
+  const credentials = await this.getCredentials('secretNetworkApi') as any;
+  // Write operations can pack the messages of all items into shared transactions
+  const batcher = getTransactionBatcher.call(this, operation, ['executeContract']);
+
+  for (let i = 0; i < items.length; i++) {
+    try {
+      let result: any;
+
+      const baseOptions: any = {
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        json: true,
+      };
+
+      if (credentials.username && credentials.password) {
+        baseOptions.auth = {
+          username: credentials.username,
+          password: credentials.password,
+        };
+      }
+
+      switch (operation) {
+        case 'getContracts': {
+          const offset = this.getNodeParameter('offset', i, 0) as number;
+          const limit = this.getNodeParameter('limit', i) as number;
+          if (this.getNodeParameter('returnAll', i, false) as boolean) {
+            returnData.push(...await returnAllPages.call(this, i, 'code_infos', ({ nextKey }) => {
+              const queryParams = new URLSearchParams({ 'pagination.limit': limit.toString() });
+              if (nextKey) queryParams.append('pagination.key', nextKey);
+              return sendRequest.call(this, {
+                ...baseOptions,
+                method: 'GET',
+                url: `${credentials.baseUrl}/compute/v1beta1/codes?${queryParams.toString()}`,
+              }, i);
+            }));
+            continue;
+          }
+
+          const options: any = {
+            ...baseOptions,
+            method: 'GET',
+            url: `${credentials.baseUrl}/compute/v1beta1/codes?pagination.offset=${offset}&pagination.limit=${limit}`,
+          };
+          result = await sendRequest.call(this, options, i) as any;
+          break;
+        }
+
+        case 'getContractCode':
+        case 'getCode': {
+          const codeId = this.getNodeParameter('codeId', i) as string;
+          const options: any = {
+            ...baseOptions,
+            method: 'GET',
+            url: `${credentials.baseUrl}/compute/v1beta1/code/${codeId}`,
+          };
+          result = await sendRequest.call(this, options, i) as any;
+          break;
+        }
+
+        case 'getContractInfo':
+        case 'getContract': {
+          const contractAddress = this.getNodeParameter('contractAddress', i) as string;
+          const options: any = {
+            ...baseOptions,
+            method: 'GET',
+            url: `${credentials.baseUrl}/compute/v1beta1/info/${contractAddress}`,
+          };
+          result = await sendRequest.call(this, options, i) as any;
+          break;
+        }
+
+        case 'getContractsByCode': {
+          const codeId = this.getNodeParameter('codeId', i) as string;
+          const getContractsByCode = async (paginationKey = ''): Promise<any> => {
+            const options: any = {
+              ...baseOptions,
+              method: 'GET',
+              url: `${credentials.baseUrl}/compute/v1beta1/contracts/${codeId}${paginationKey ? `?pagination.key=${encodeURIComponent(paginationKey)}` : ''}`,
+            };
+            return sendRequest.call(this, options, i);
+          };
+
+          if (this.getNodeParameter('returnAll', i, false) as boolean) {
+            returnData.push(...await returnAllPages.call(this, i, 'contract_infos', ({ nextKey }) => getContractsByCode(nextKey)));
+            continue;
+          }
+          result = await getContractsByCode();
+          break;
+        }
+
+        case 'listCodes': {
+          const paginationLimit = this.getNodeParameter('paginationLimit', i) as number;
+          const listCodes = async (paginationKey: string): Promise<any> => {
+            const queryParams = new URLSearchParams();
+            if (paginationKey) queryParams.append('pagination.key', paginationKey);
+            if (paginationLimit) queryParams.append('pagination.limit', paginationLimit.toString());
+            const options: any = {
+              ...baseOptions,
+              method: 'GET',
+              url: `${credentials.baseUrl}/compute/v1beta1/codes?${queryParams.toString()}`,
+            };
+            return sendRequest.call(this, options, i);
+          };
+
+          if (this.getNodeParameter('returnAll', i, false) as boolean) {
+            returnData.push(...await returnAllPages.call(this, i, 'code_infos', ({ nextKey }) => listCodes(nextKey)));
+            continue;
+          }
+          result = await listCodes(this.getNodeParameter('paginationKey', i) as string);
+          break;
+        }
+
+        case 'queryContract': {
+          const contractAddress = this.getNodeParameter('contractAddress', i) as string;
+          const query = parseJsonParameter.call(this, this.getNodeParameter('query', i), 'query');
+          const viewingKey = this.getNodeParameter('viewingKey', i, '') as string;
+
+          // Permissioned queries take the viewing key inside the query variant,
+          // e.g. { "balance": { "address": "...", "key": "..." } }
+          const [variant] = Object.keys(query ?? {});
+          if (viewingKey && variant && typeof query[variant] === 'object' && query[variant].key === undefined) {
+            query[variant] = { ...query[variant], key: viewingKey };
+          }
+
+          result = await queryContract.call(this, credentials, contractAddress, query, i);
+          break;
+        }
+
+        case 'executeContract': {
+          const contractAddress = this.getNodeParameter('contractAddress', i) as string;
+          const msg = parseJsonParameter.call(this, this.getNodeParameter('msg', i), 'msg');
+          const sender = this.getNodeParameter('sender', i, '') as string;
+          const funds = parseJsonParameter.call(this, this.getNodeParameter('funds', i, '[]'), 'funds');
+          const wallet = getSigningWallet.call(this, credentials, i);
+          assertSignerAddress.call(this, wallet, sender, i);
+
+          if (batcher) {
+            batcher.add(wallet, i, await buildExecuteContractMessage.call(
+              this, credentials, wallet, contractAddress, msg, funds, i,
+            ));
+            continue;
+          }
+          result = await executeContract.call(
+            this, credentials, wallet, contractAddress, msg, funds, getTxOptions.call(this, i),
+          );
+          break;
+        }
+
+        case 'instantiateContract': {
+          const codeId = this.getNodeParameter('codeId', i) as string;
+          const initMsg = parseJsonParameter.call(this, this.getNodeParameter('initMsg', i), 'initMsg');
+          const label = this.getNodeParameter('label', i) as string;
+          const funds = parseJsonParameter.call(this, this.getNodeParameter('funds', i, '[]'), 'funds');
+          const wallet = getSigningWallet.call(this, credentials, i);
+
+          const codeHash = await getCodeHashByCodeId.call(this, credentials, codeId, i);
+          const { ciphertext } = await encryptForContract.call(this, credentials, wallet, codeHash, initMsg, i);
+          const message = encodeMsgInstantiateContract({
+            sender: wallet.address,
+            codeId,
+            label,
+            initMsg: ciphertext,
+            initFunds: funds,
+          });
+          result = await signAndBroadcast.call(
+            this, credentials, wallet, [message], getTxOptions.call(this, i),
+          );
+          break;
+        }
+
+        case 'storeCode': {
+          const wasmByteCode = this.getNodeParameter('wasmByteCode', i) as string;
+          const sender = this.getNodeParameter('sender', i, '') as string;
+          const wallet = getSigningWallet.call(this, credentials, i);
+          assertSignerAddress.call(this, wallet, sender, i);
+
+          const message = encodeMsgStoreCode({
+            sender: wallet.address,
+            wasmByteCode: Buffer.from(wasmByteCode, 'base64'),
+          });
+          result = await signAndBroadcast.call(
+            this, credentials, wallet, [message], getTxOptions.call(this, i),
+          );
+          break;
+        }
+
+        default:
+          throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`);
+      }
+
+      returnData.push({ json: result, pairedItem: { item: i } });
+
+    } catch (error: any) {
+      if (this.continueOnFail()) {
+        returnData.push({ json: { error: error.message }, pairedItem: { item: i } });
+      } else {
+        throw error;
+      }
+    }
+  }
+
+  if (batcher) {
+    returnData.push(...await batcher.flush(this, credentials, getTxOptions.call(this, 0)));
+  }
+
+  return returnData;
+}
+
+export async function executeGovernanceOperations(
+  this: IExecuteFunctions,
+  items: INodeExecutionData[],
+): Promise<INodeExecutionData[]> {
+  const returnData: INodeExecutionData[] = [];
+  const operation = this.getNodeParameter('operation', 0) as string;
+  const credentials = await this.getCredentials('secretNetworkApi') as any;
+  // Write operations can pack the messages of all items into shared transactions
+  const batcher = getTransactionBatcher.call(this, operation, ['vote', 'voteWeighted', 'deposit']);
+
+  for (let i = 0; i < items.length; i++) {
+    try {
+      let result: any;
+
+      const baseOptions: any = {
+        headers: { 'Accept': 'application/json' },
+        json: true,
+      };
+
+      if (credentials.username && credentials.password) {
+        baseOptions.auth = {
+          username: credentials.username,
+          password: credentials.password,
+        };
+      }
+
+      switch (operation) {
+        case 'getProposals': {
+          const proposalStatus = this.getNodeParameter('proposalStatus', i, 'PROPOSAL_STATUS_UNSPECIFIED') as string;
+          const voter = this.getNodeParameter('voter', i, '') as string;
+          const depositor = this.getNodeParameter('depositor', i, '') as string;
+
+          const queryParams = new URLSearchParams();
+          if (proposalStatus && proposalStatus !== 'PROPOSAL_STATUS_UNSPECIFIED') {
+            queryParams.append('proposal_status', proposalStatus);
+          }
+          if (voter) queryParams.append('voter', voter);
+          if (depositor) queryParams.append('depositor', depositor);
+          const getProposals = async (paginationKey = ''): Promise<any> => {
+            const pageParams = new URLSearchParams(queryParams);
+            if (paginationKey) pageParams.append('pagination.key', paginationKey);
+            const query = pageParams.toString();
+            return sendRequest.call(this, {
+              method: 'GET',
+              url: `${credentials.baseUrl}/cosmos/gov/v1beta1/proposals${query ? `?${query}` : ''}`,
+              ...baseOptions,
+            }, i);
+          };
+
+          if (this.getNodeParameter('returnAll', i, false) as boolean) {
+            returnData.push(...await returnAllPages.call(this, i, 'proposals', ({ nextKey }) => getProposals(nextKey)));
+            continue;
+          }
+          result = await getProposals();
+          break;
+        }
+
+        case 'getProposal': {
+          const proposalId = this.getNodeParameter('proposalId', i) as string;
+          result = await sendRequest.call(this, {
+            method: 'GET',
+            url: `${credentials.baseUrl}/cosmos/gov/v1beta1/proposals/${proposalId}`,
+            ...baseOptions,
+          }, i) as any;
+          break;
+        }
+
+        case 'getProposalVotes': {
+          const proposalId = this.getNodeParameter('proposalId', i) as string;
+          const getVotes = async (paginationKey = ''): Promise<any> =>
+            sendRequest.call(this, {
+              method: 'GET',
+              url: `${credentials.baseUrl}/cosmos/gov/v1beta1/proposals/${proposalId}/votes${paginationKey ? `?pagination.key=${encodeURIComponent(paginationKey)}` : ''}`,
+              ...baseOptions,
+            }, i);
+
+          if (this.getNodeParameter('returnAll', i, false) as boolean) {
+            returnData.push(...await returnAllPages.call(this, i, 'votes', ({ nextKey }) => getVotes(nextKey)));
+            continue;
+          }
+          result = await getVotes();
+          break;
+        }
+
+        case 'getVote': {
+          const proposalId = this.getNodeParameter('proposalId', i) as string;
+          const voterAddress = this.getNodeParameter('voterAddress', i) as string;
+          result = await sendRequest.call(this, {
+            method: 'GET',
+            url: `${credentials.baseUrl}/cosmos/gov/v1beta1/proposals/${proposalId}/votes/${voterAddress}`,
+            ...baseOptions,
+          }, i) as any;
+          break;
+        }
+
+        case 'getProposalDeposits': {
+          const proposalId = this.getNodeParameter('proposalId', i) as string;
+          const getDeposits = async (paginationKey = ''): Promise<any> =>
+            sendRequest.call(this, {
+              method: 'GET',
+              url: `${credentials.baseUrl}/cosmos/gov/v1beta1/proposals/${proposalId}/deposits${paginationKey ? `?pagination.key=${encodeURIComponent(paginationKey)}` : ''}`,
+              ...baseOptions,
+            }, i);
+
+          if (this.getNodeParameter('returnAll', i, false) as boolean) {
+            returnData.push(...await returnAllPages.call(this, i, 'deposits', ({ nextKey }) => getDeposits(nextKey)));
+            continue;
+          }
+          result = await getDeposits();
+          break;
+        }
+
+        case 'getTallyProjection': {
+          const proposalId = this.getNodeParameter('proposalId', i) as string;
+          const get = async (path: string): Promise<any> =>
+            sendRequest.call(this, { method: 'GET', url: `${credentials.baseUrl}${path}`, ...baseOptions }, i);
+
+          // gov v1 serves every proposal, v1beta1 only those with legacy content
+          const { proposal } = await get(`/cosmos/gov/v1/proposals/${proposalId}`)
+            .catch((error) => {
+              if (!isNotFoundError(error) && !isNotImplementedError(error)) throw error;
+              return get(`/cosmos/gov/v1beta1/proposals/${proposalId}`);
+            });
+          const [{ tally }, { tally_params }, { pool }] = await Promise.all([
+            get(`/cosmos/gov/v1beta1/proposals/${proposalId}/tally`),
+            get('/cosmos/gov/v1beta1/params/tallying'),
+            get('/cosmos/staking/v1beta1/pool'),
+          ]);
+
+          result = {
+            proposal_id: proposalId,
+            title: proposal.title ?? proposal.content?.title ?? '',
+            status: proposal.status,
+            ...projectTally({
+              tally,
+              tallyParams: tally_params,
+              bondedTokens: Number(pool.bonded_tokens),
+              votingEndTime: proposal.voting_end_time,
+            }),
+          };
+          break;
+        }
+
+        case 'voteReminder': {
+          const proposalId = this.getNodeParameter('proposalId', i) as string;
+          const voterSource = this.getNodeParameter('voterSource', i, 'addresses') as string;
+          const get = async (path: string): Promise<any> =>
+            sendRequest.call(this, { method: 'GET', url: `${credentials.baseUrl}${path}`, ...baseOptions }, i);
+
+          const voters: Array<{ address: string; validator?: IDataObject }> = [];
+          if (voterSource === 'bondedValidators') {
+            let nextKey = '';
+            do {
+              const query = new URLSearchParams({ status: 'BOND_STATUS_BONDED', 'pagination.limit': '200' });
+              if (nextKey) query.append('pagination.key', nextKey);
+              const page = await get(`/cosmos/staking/v1beta1/validators?${query.toString()}`);
+              for (const validator of page.validators ?? []) {
+                voters.push({ address: validator.operator_address, validator });
+              }
+              nextKey = page.pagination?.next_key ?? '';
+            } while (nextKey);
+          } else {
+            const addresses = (this.getNodeParameter('voterAddresses', i) as string)
+              .split(/[\s,]+/)
+              .filter(Boolean);
+            for (const address of addresses) {
+              voters.push({
+                address,
+                validator: address.startsWith(SECRET_VALOPER_PREFIX)
+                  ? (await get(`/cosmos/staking/v1beta1/validators/${address}`)).validator
+                  : undefined,
+              });
+            }
+          }
+
+          for (const { address, validator } of voters) {
+            const voter = validator ? convertAddressPrefix(address, SECRET_BECH32_PREFIX) : address;
+
+            let votingPower: number;
+            if (validator) {
+              votingPower = Number(validator.tokens);
+            } else {
+              const delegations = await fetchAllPages(
+                ({ nextKey }) => get(`/cosmos/staking/v1beta1/delegations/${voter}${nextKey ? `?pagination.key=${encodeURIComponent(nextKey)}` : ''}`),
+                'delegation_responses',
+                Infinity,
+              );
+              votingPower = delegations
+                .reduce((sum: number, delegation: any) => sum + Number(delegation.balance.amount), 0);
+            }
+
+            // A missing vote is an expected answer here, not a failure of the item
+            const vote = await get(`/cosmos/gov/v1/proposals/${proposalId}/votes/${voter}`)
+              .catch((error) => {
+                if (!isNotImplementedError(error)) throw error;
+                return get(`/cosmos/gov/v1beta1/proposals/${proposalId}/votes/${voter}`);
+              })
+              .then((response) => response.vote)
+              .catch((error) => {
+                if (isNotFoundError(error)) return undefined;
+                throw error;
+              });
+            const options = vote?.options ?? (vote ? [{ option: vote.option, weight: '1.000000000000000000' }] : []);
+
+            returnData.push({
+              json: {
+                proposal_id: proposalId,
+                address,
+                voter,
+                ...(validator ? { moniker: (validator.description as IDataObject)?.moniker ?? '' } : {}),
+                voted: Boolean(vote),
+                option: options.length === 1 ? options[0].option : options.length ? 'WEIGHTED' : null,
+                options,
+                voting_power: votingPower,
+              },
+              pairedItem: { item: i },
+            });
+          }
+          continue;
+        }
+
+        case 'vote':
+        case 'voteWeighted':
+        case 'deposit':
+        case 'submitProposal': {
+          const govVersion = this.getNodeParameter('govVersion', i, 'v1') as GovVersion;
+          const metadata = govVersion === 'v1' ? this.getNodeParameter('metadata', i, '') as string : undefined;
+          const wallet = getSigningWallet.call(this, credentials, i);
+
+          const message = buildGovernanceMessage.call(this, operation, i, wallet.address, govVersion, metadata);
+
+          if (batcher) {
+            batcher.add(wallet, i, message);
+            continue;
+          }
+          result = await signAndBroadcast.call(
+            this, credentials, wallet, [message], getTxOptions.call(this, i),
+          );
+          break;
+        }
+
+        default:
+          throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`);
+      }
+
+      returnData.push({ json: result, pairedItem: { item: i } });
+
+    } catch (error: any) {
+      if (this.continueOnFail()) {
+        returnData.push({ json: { error: error.message }, pairedItem: { item: i } });
+      } else {
+        throw error;
+      }
+    }
+  }
+
+  if (batcher) {
+    returnData.push(...await batcher.flush(this, credentials, getTxOptions.call(this, 0)));
+  }
+
+  return returnData;
+}
+
+function buildGovernanceMessage(
+  this: IExecuteFunctions,
+  operation: string,
+  i: number,
+  signer: string,
+  govVersion: GovVersion,
+  metadata: string | undefined,
+): EncodedMessage {
+  const coins = (): Coin[] => {
+    const amount = this.getNodeParameter('amount', i, '') as string;
+    const denom = this.getNodeParameter('denom', i, 'uscrt') as string;
+    return amount ? [{ denom, amount: String(amount) }] : [];
+  };
+
+  switch (operation) {
+    case 'vote': {
+      const proposalId = this.getNodeParameter('proposalId', i) as string;
+      const option = parseVoteOption(this.getNodeParameter('voteOption', i) as string);
+      return encodeMsgVote({ proposalId, voter: signer, option, metadata }, govVersion);
+    }
+
+    case 'voteWeighted': {
+      const proposalId = this.getNodeParameter('proposalId', i) as string;
+      const weighted = parseJsonParameter.call(this, this.getNodeParameter('weightedOptions', i), 'weightedOptions');
+      if (!Array.isArray(weighted) || !weighted.length) {
+        throw new NodeOperationError(this.getNode(), 'Weighted options must be a non-empty array', { itemIndex: i });
+      }
+      const options = weighted.map(({ option, weight }: any) => ({
+        option: parseVoteOption(option),
+        weight: String(weight),
+      }));
+      const total = options.reduce((sum, { weight }) => sum + parseFloat(weight), 0);
+      if (Math.abs(total - 1) > 1e-9) {
+        throw new NodeOperationError(this.getNode(), `Weights of the options must add up to 1, got ${total}`, { itemIndex: i });
+      }
+      return encodeMsgVoteWeighted({ proposalId, voter: signer, options, metadata }, govVersion);
+    }
+
+    case 'deposit': {
+      const proposalId = this.getNodeParameter('proposalId', i) as string;
+      const amount = coins();
+      if (!amount.length) {
+        throw new NodeOperationError(this.getNode(), 'A deposit amount is required', { itemIndex: i });
+      }
+      return encodeMsgDeposit({ proposalId, depositor: signer, amount }, govVersion);
+    }
+
+    default: {
+      const title = this.getNodeParameter('title', i) as string;
+      const description = this.getNodeParameter('description', i) as string;
+
+      if (govVersion === 'v1') {
+        const messages = parseJsonParameter.call(this, this.getNodeParameter('proposalMessages', i, '[]') || '[]', 'proposalMessages');
+        if (!Array.isArray(messages)) {
+          throw new NodeOperationError(this.getNode(), 'Proposal messages must be a JSON array', { itemIndex: i });
+        }
+        return encodeMsgSubmitProposal({
+          messages: messages.map(encodeJsonMessage),
+          initialDeposit: coins(),
+          proposer: signer,
+          metadata,
+          title,
+          summary: description,
+        });
+      }
+
+      const content = parseJsonParameter.call(this, this.getNodeParameter('proposalContent', i, '') || '{}', 'proposalContent');
+      return encodeMsgSubmitProposalV1beta1({
+        content: content['@type'] || content.typeUrl
+          ? encodeJsonMessage({ title, description, ...content })
+          : encodeTextProposal({ title, description }),
+        initialDeposit: coins(),
+        proposer: signer,
+      });
+    }
+  }
+}
+
+export async function executeIBCOperations(
+  this: IExecuteFunctions,
+  items: INodeExecutionData[],
+): Promise<INodeExecutionData[]> {
+  const returnData: INodeExecutionData[] = [];
+  const operation = this.getNodeParameter('operation', 0) as string;
+  const credentials = await this.getCredentials('secretNetworkApi') as any;
+  // Path and result field of the list operations
+  const lists: Record<string, [string, string]> = {
+    getClientStates: ['/ibc/core/client/v1/client_states', 'client_states'],
+    getConnections: ['/ibc/core/connection/v1/connections', 'connections'],
+    getChannels: ['/ibc/core/channel/v1/channels', 'channels'],
+  };
+
+  for (let i = 0; i < items.length; i++) {
+    try {
+      let result: any;
+
+      const headers: IDataObject = { 'Content-Type': 'application/json' };
+      if (credentials.username && credentials.password) {
+        headers.Authorization = `Basic ${Buffer.from(`${credentials.username}:${credentials.password}`).toString('base64')}`;
+      }
+
+      const get = async (path: string): Promise<any> =>
+        sendRequest.call(this, {
+          method: 'GET',
+          url: `${credentials.baseUrl}${path}`,
+          headers,
+          json: true,
+        }, i);
+
+      switch (operation) {
+        case 'getClientStates':
+        case 'getConnections':
+        case 'getChannels': {
+          const [path, field] = lists[operation];
+          const pagination = this.getNodeParameter('pagination', i, {}) as IDataObject;
+          // Only the pagination fields that were added are sent
+          const list = async (paginationKey = ''): Promise<any> => {
+            const queryParams = new URLSearchParams();
+            if (pagination.limit) queryParams.append('pagination.limit', String(pagination.limit));
+            if (pagination.offset) queryParams.append('pagination.offset', String(pagination.offset));
+            if (pagination.countTotal) queryParams.append('pagination.count_total', 'true');
+            if (paginationKey) queryParams.append('pagination.key', paginationKey);
+            const query = queryParams.toString();
+            return get(`${path}${query ? `?${query}` : ''}`);
+          };
+
+          if (this.getNodeParameter('returnAll', i, false) as boolean) {
+            returnData.push(...await returnAllPages.call(this, i, field, ({ nextKey }) => list(nextKey)));
+            continue;
+          }
+          result = await list();
+          break;
+        }
+
+        case 'getClientState': {
+          const clientId = this.getNodeParameter('clientId', i) as string;
+          result = await get(`/ibc/core/client/v1/client_states/${clientId}`);
+          break;
+        }
+
+        case 'getConnection': {
+          const connectionId = this.getNodeParameter('connectionId', i) as string;
+          result = await get(`/ibc/core/connection/v1/connections/${connectionId}`);
+          break;
+        }
+
+        default:
+          throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`);
+      }
+
+      returnData.push({ json: result, pairedItem: { item: i } });
+
+    } catch (error: any) {
+      if (this.continueOnFail()) {
+        returnData.push({ json: { error: error.message }, pairedItem: { item: i } });
+      } else {
+        throw error;
+      }
+    }
+  }
+
+  return returnData;
+}
+
+export async function executeSnip20TokensOperations(
+  this: IExecuteFunctions,
+  items: INodeExecutionData[],
+): Promise<INodeExecutionData[]> {
+  const returnData: INodeExecutionData[] = [];
+  const operation = this.getNodeParameter('operation', 0) as string;
+  const credentials = await this.getCredentials('secretNetworkApi') as any;
+  // Write operations can pack the messages of all items into shared transactions
+  const batcher = getTransactionBatcher.call(this, operation, ['transfer', 'increaseAllowance', 'decreaseAllowance']);
+
+  for (let i = 0; i < items.length; i++) {
+    try {
+      let result: any;
+      const contractAddress = this.getNodeParameter('contractAddress', i) as string;
+      let msg: any;
+
+      switch (operation) {
+        case 'getBalance': {
+          const address = this.getNodeParameter('address', i) as string;
+          const key = this.getNodeParameter('viewingKey', i) as string;
+          result = await queryContract.call(this, credentials, contractAddress, { balance: { address, key } }, i);
+          break;
+        }
+
+        case 'getAllowance': {
+          const owner = this.getNodeParameter('owner', i) as string;
+          const spender = this.getNodeParameter('spender', i) as string;
+          const key = this.getNodeParameter('viewingKey', i) as string;
+          result = await queryContract.call(this, credentials, contractAddress, { allowance: { owner, spender, key } }, i);
+          break;
+        }
+
+        case 'getTokenInfo': {
+          result = await queryContract.call(this, credentials, contractAddress, { token_info: {} }, i);
+          break;
+        }
+
+        case 'transfer': {
+          const recipient = this.getNodeParameter('recipient', i) as string;
+          const amount = this.getNodeParameter('amount', i) as string;
+          const memo = this.getNodeParameter('memo', i, '') as string;
+          msg = { transfer: { recipient, amount, ...(memo ? { memo } : {}) } };
+          break;
+        }
+
+        case 'increaseAllowance': {
+          const spender = this.getNodeParameter('spender', i) as string;
+          const amount = this.getNodeParameter('amount', i) as string;
+          msg = { increase_allowance: { spender, amount } };
+          break;
+        }
+
+        case 'decreaseAllowance': {
+          const spender = this.getNodeParameter('spender', i) as string;
+          const amount = this.getNodeParameter('amount', i) as string;
+          msg = { decrease_allowance: { spender, amount } };
+          break;
+        }
+
+        case 'createViewingKey': {
+          const entropy = this.getNodeParameter('entropy', i, '') as string;
+          msg = { create_viewing_key: { entropy: entropy || randomBytes(32).toString('base64') } };
+          break;
+        }
+
+        case 'setViewingKey': {
+          const key = this.getNodeParameter('key', i) as string;
+          msg = { set_viewing_key: { key } };
+          break;
+        }
+
+        default:
+          throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`);
+      }
+
+      if (msg) {
+        const wallet = getSigningWallet.call(this, credentials, i);
+        if (batcher) {
+          batcher.add(wallet, i, await buildExecuteContractMessage.call(
+            this, credentials, wallet, contractAddress, msg, [], i,
+          ));
+          continue;
+        }
+        result = await executeContract.call(
+          this, credentials, wallet, contractAddress, msg, [], getTxOptions.call(this, i),
+        );
+      }
+
+      returnData.push({ json: result, pairedItem: { item: i } });
+
+    } catch (error: any) {
+      if (this.continueOnFail()) {
+        returnData.push({ json: { error: error.message }, pairedItem: { item: i } });
+      } else {
+        throw error;
+      }
+    }
+  }
+
+  if (batcher) {
+    returnData.push(...await batcher.flush(this, credentials, getTxOptions.call(this, 0)));
+  }
+
+  return returnData;
+}
+
+export async function executeSnip721TokensOperations(
+  this: IExecuteFunctions,
+  items: INodeExecutionData[],
+): Promise<INodeExecutionData[]> {
+  const returnData: INodeExecutionData[] = [];
+  const operation = this.getNodeParameter('operation', 0) as string;
+  const credentials = await this.getCredentials('secretNetworkApi') as any;
+  // Write operations can pack the messages of all items into shared transactions
+  const batcher = getTransactionBatcher.call(this, operation, ['transferNft', 'mintNft', 'approve', 'approveAll']);
+
+  for (let i = 0; i < items.length; i++) {
+    try {
+      let result: any;
+      const contractAddress = this.getNodeParameter('contractAddress', i) as string;
+      let msg: any;
+
+      switch (operation) {
+        case 'getOwnerOf': {
+          const tokenId = this.getNodeParameter('tokenId', i) as string;
+          const viewingKey = this.getNodeParameter('viewingKey', i) as string;
+          // The viewer is the account the viewing key was created for
+          const wallet = getCredentialsWallet(credentials);
+          const viewer = wallet ? { viewer: { address: wallet.address, viewing_key: viewingKey } } : {};
+          result = await queryContract.call(this, credentials, contractAddress, {
+            owner_of: { token_id: tokenId, ...viewer },
+          }, i);
+          break;
+        }
+
+        case 'getNftInfo': {
+          const tokenId = this.getNodeParameter('tokenId', i) as string;
+          result = await queryContract.call(this, credentials, contractAddress, { nft_info: { token_id: tokenId } }, i);
+          break;
+        }
+
+        case 'getApprovals': {
+          const tokenId = this.getNodeParameter('tokenId', i) as string;
+          const viewingKey = this.getNodeParameter('viewingKey', i) as string;
+          result = await queryContract.call(this, credentials, contractAddress, {
+            token_approvals: { token_id: tokenId, viewing_key: viewingKey },
+          }, i);
+          break;
+        }
+
+        case 'getTokens': {
+          const owner = this.getNodeParameter('owner', i) as string;
+          const viewingKey = this.getNodeParameter('viewingKey', i) as string;
+          result = await queryContract.call(this, credentials, contractAddress, {
+            tokens: { owner, viewing_key: viewingKey },
+          }, i);
+          break;
+        }
+
+        case 'transferNft': {
+          const recipient = this.getNodeParameter('recipient', i) as string;
+          const tokenId = this.getNodeParameter('tokenId', i) as string;
+          msg = { transfer_nft: { recipient, token_id: tokenId } };
+          break;
+        }
+
+        case 'mintNft': {
+          const tokenId = this.getNodeParameter('tokenId', i) as string;
+          const owner = this.getNodeParameter('owner', i) as string;
+          const metadata = parseJsonParameter.call(this, this.getNodeParameter('metadata', i, '{}'), 'metadata');
+          msg = {
+            mint_nft: {
+              token_id: tokenId,
+              owner,
+              ...(metadata && Object.keys(metadata).length ? { public_metadata: metadata } : {}),
+            },
+          };
+          break;
+        }
+
+        case 'approve': {
+          const spender = this.getNodeParameter('spender', i) as string;
+          const tokenId = this.getNodeParameter('tokenId', i) as string;
+          msg = { approve: { spender, token_id: tokenId } };
+          break;
+        }
+
+        case 'approveAll': {
+          const operator = this.getNodeParameter('operator', i) as string;
+          const approved = this.getNodeParameter('approved', i) as boolean;
+          msg = approved ? { approve_all: { operator } } : { revoke_all: { operator } };
+          break;
+        }
+
+        default:
+          throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`);
+      }
+
+      if (msg) {
+        const wallet = getSigningWallet.call(this, credentials, i);
+        if (batcher) {
+          batcher.add(wallet, i, await buildExecuteContractMessage.call(
+            this, credentials, wallet, contractAddress, msg, [], i,
+          ));
+          continue;
+        }
+        result = await executeContract.call(
+          this, credentials, wallet, contractAddress, msg, [], getTxOptions.call(this, i),
+        );
+      }
+
+      returnData.push({ json: result, pairedItem: { item: i } });
+
+    } catch (error: any) {
+      if (this.continueOnFail()) {
+        returnData.push({ json: { error: error.message }, pairedItem: { item: i } });
+      } else {
+        throw error;
+      }
+    }
+  }
+
+  if (batcher) {
+    returnData.push(...await batcher.flush(this, credentials, getTxOptions.call(this, 0)));
+  }
+
+  return returnData;
+}
+
+export async function executeIbcOperationsOperations(
+  this: IExecuteFunctions,
+  items: INodeExecutionData[],
+): Promise<INodeExecutionData[]> {
+  const returnData: INodeExecutionData[] = [];
+  const operation = this.getNodeParameter('operation', 0) as string;
+  const credentials = await this.getCredentials('secretNetworkApi') as any;
+  // Write operations can pack the messages of all items into shared transactions
+  const batcher = getTransactionBatcher.call(this, operation, ['ibcTransfer']);
+
+  for (let i = 0; i < items.length; i++) {
+    try {
+      let result: any;
+
+      const baseOptions: any = {
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        json: true,
+      };
+
+      if (credentials.username && credentials.password) {
+        baseOptions.auth = {
+          username: credentials.username,
+          password: credentials.password,
+        };
+      }
+
+      const paginationQuery = (): string => {
+        const offset = this.getNodeParameter('paginationOffset', i, 0) as number;
+        const limit = this.getNodeParameter('paginationLimit', i, 100) as number;
+        return `pagination.offset=${offset}&pagination.limit=${limit}`;
+      };
+
+      // Return All follows the next_key of the list instead of the offset
+      const lists: Record<string, { path: string; field: string }> = {
+        getChannels: { path: '/ibc/core/channel/v1/channels', field: 'channels' },
+        getConnections: { path: '/ibc/core/connection/v1/connections', field: 'connections' },
+        getClientStates: { path: '/ibc/core/client/v1/client_states', field: 'client_states' },
+        getDenomTraces: { path: '/ibc/apps/transfer/v1/denom_traces', field: 'denom_traces' },
+      };
+      if (lists[operation] && (this.getNodeParameter('returnAll', i, false) as boolean)) {
+        const { path, field } = lists[operation];
+        const limit = this.getNodeParameter('paginationLimit', i, 100) as number;
+        returnData.push(...await returnAllPages.call(this, i, field, ({ nextKey }) => {
+          const queryParams = new URLSearchParams({ 'pagination.limit': limit.toString() });
+          if (nextKey) queryParams.append('pagination.key', nextKey);
+          return sendRequest.call(this, {
+            ...baseOptions,
+            method: 'GET',
+            url: `${credentials.baseUrl}${path}?${queryParams.toString()}`,
+          }, i);
+        }));
+        continue;
+      }
+
+      switch (operation) {
+        case 'ibcTransfer': {
+          const sourcePort = this.getNodeParameter('sourcePort', i) as string;
+          const sourceChannel = this.getNodeParameter('sourceChannel', i) as string;
+          const token = parseJsonParameter.call(this, this.getNodeParameter('token', i), 'token');
+          const sender = this.getNodeParameter('sender', i, '') as string;
+          const receiver = this.getNodeParameter('receiver', i) as string;
+          const timeoutHeight = this.getNodeParameter('timeoutHeight', i, 0) as number;
+          const wallet = getSigningWallet.call(this, credentials, i);
+          assertSignerAddress.call(this, wallet, sender, i);
+
+          // A timeout height is relative to the counterparty chain, whose revision
+          // number is taken from the channel's client state. Without one, the
+          // packet times out ten minutes from now.
+          let revisionHeight: { revisionNumber: string; revisionHeight: number } | undefined;
+          let timeoutTimestamp: string | undefined;
+          if (timeoutHeight) {
+            const clientState = await sendRequest.call(this, {
+              ...baseOptions,
+              method: 'GET',
+              url: `${credentials.baseUrl}/ibc/core/channel/v1/channels/${sourceChannel}/ports/${sourcePort}/client_state`,
+            }, i) as any;
+            const latestHeight = clientState.identified_client_state?.client_state?.latest_height ?? {};
+            revisionHeight = {
+              revisionNumber: latestHeight.revision_number ?? '0',
+              revisionHeight: timeoutHeight,
+            };
+          } else {
+            timeoutTimestamp = `${Date.now() + 10 * 60 * 1000}000000`;
+          }
+
+          const message = encodeMsgTransfer({
+            sourcePort,
+            sourceChannel,
+            token,
+            sender: wallet.address,
+            receiver,
+            timeoutHeight: revisionHeight,
+            timeoutTimestamp,
+          });
+          if (batcher) {
+            batcher.add(wallet, i, message);
+            continue;
+          }
+          result = await signAndBroadcast.call(
+            this, credentials, wallet, [message], getTxOptions.call(this, i),
+          );
+          break;
+        }
+
+        case 'updateClient': {
+          const clientId = this.getNodeParameter('clientId', i) as string;
+          const header = parseJsonParameter.call(this, this.getNodeParameter('header', i), 'header');
+          if (!header?.typeUrl || !header?.value) {
+            throw new NodeOperationError(this.getNode(), 'Header must contain "typeUrl" and a base64 encoded "value"', { itemIndex: i });
+          }
+          const wallet = getSigningWallet.call(this, credentials, i);
+
+          const message = encodeMsgUpdateClient({
+            clientId,
+            clientMessage: { typeUrl: header.typeUrl, value: Buffer.from(header.value, 'base64') },
+            signer: wallet.address,
+          });
+          result = await signAndBroadcast.call(
+            this, credentials, wallet, [message], getTxOptions.call(this, i),
+          );
+          break;
+        }
+
+        case 'getChannels': {
+          const options: any = {
+            ...baseOptions,
+            method: 'GET',
+            url: `${credentials.baseUrl}/ibc/core/channel/v1/channels?${paginationQuery()}`,
+          };
+          result = await sendRequest.call(this, options, i) as any;
+          break;
+        }
+
+        case 'getChannel': {
+          const channelId = this.getNodeParameter('channelId', i) as string;
+          const portId = this.getNodeParameter('portId', i) as string;
+          const options: any = {
+            ...baseOptions,
+            method: 'GET',
+            url: `${credentials.baseUrl}/ibc/core/channel/v1/channels/${channelId}/ports/${portId}`,
+          };
+          result = await sendRequest.call(this, options, i) as any;
+          break;
+        }
+
+        case 'getConnections': {
+          const options: any = {
+            ...baseOptions,
+            method: 'GET',
+            url: `${credentials.baseUrl}/ibc/core/connection/v1/connections?${paginationQuery()}`,
+          };
+          result = await sendRequest.call(this, options, i) as any;
+          break;
+        }
+
+        case 'getConnection': {
+          const connectionId = this.getNodeParameter('connectionId', i) as string;
+          const options: any = {
+            ...baseOptions,
+            method: 'GET',
+            url: `${credentials.baseUrl}/ibc/core/connection/v1/connections/${connectionId}`,
+          };
+          result = await sendRequest.call(this, options, i) as any;
+          break;
+        }
+
+        case 'getClientStates': {
+          const options: any = {
+            ...baseOptions,
+            method: 'GET',
+            url: `${credentials.baseUrl}/ibc/core/client/v1/client_states?${paginationQuery()}`,
+          };
+          result = await sendRequest.call(this, options, i) as any;
+          break;
+        }
+
+        case 'getDenomTraces': {
+          const options: any = {
+            ...baseOptions,
+            method: 'GET',
+            url: `${credentials.baseUrl}/ibc/apps/transfer/v1/denom_traces?${paginationQuery()}`,
+          };
+          result = await sendRequest.call(this, options, i) as any;
+          break;
+        }
+
+        default:
+          throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`);
+      }
+
+      returnData.push({ json: result, pairedItem: { item: i } });
+
+    } catch (error: any) {
+      if (this.continueOnFail()) {
+        returnData.push({ json: { error: error.message }, pairedItem: { item: i } });
+      } else {
+        throw error;
+      }
+    }
+  }
+
+  if (batcher) {
+    returnData.push(...await batcher.flush(this, credentials, getTxOptions.call(this, 0)));
+  }
+
+  return returnData;
+}
+
+export async function executeDistributionOperations(
+  this: IExecuteFunctions,
+  items: INodeExecutionData[],
+): Promise<INodeExecutionData[]> {
+  const returnData: INodeExecutionData[] = [];
+  const operation = this.getNodeParameter('operation', 0) as string;
+  const credentials = await this.getCredentials('secretNetworkApi') as any;
+
+  for (let i = 0; i < items.length; i++) {
+    try {
+      let result: any;
+
+      const baseOptions: any = {
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        json: true,
+      };
+
+      if (credentials.username && credentials.password) {
+        baseOptions.auth = {
+          username: credentials.username,
+          password: credentials.password,
+        };
+      }
+
+      const get = async (path: string): Promise<any> =>
+        sendRequest.call(this, { ...baseOptions, method: 'GET', url: `${credentials.baseUrl}${path}` }, i);
+
+      switch (operation) {
+        case 'getCommunityPool': {
+          result = await get('/cosmos/distribution/v1beta1/community_pool');
+          break;
+        }
+
+        case 'getValidatorOutstandingRewards': {
+          const validatorAddr = this.getNodeParameter('validatorAddr', i) as string;
+          result = await get(`/cosmos/distribution/v1beta1/validators/${validatorAddr}/outstanding_rewards`);
+          break;
+        }
+
+        case 'getValidatorCommission': {
+          const validatorAddr = this.getNodeParameter('validatorAddr', i) as string;
+          result = await get(`/cosmos/distribution/v1beta1/validators/${validatorAddr}/commission`);
+          break;
+        }
+
+        case 'getParams': {
+          result = await get('/cosmos/distribution/v1beta1/params');
+          break;
+        }
+
+        default:
+          throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`);
+      }
+
+      returnData.push({ json: result, pairedItem: { item: i } });
+
+    } catch (error: any) {
+      if (this.continueOnFail()) {
+        returnData.push({ json: { error: error.message }, pairedItem: { item: i } });
+      } else {
+        throw error;
+      }
     }
   }
-}
 
-// ============================================================
-// Resource Handler Functions
-// ============================================================
+  return returnData;
+}
 
-async function executeBlocksOperations(
+export async function executeMintOperations(
   this: IExecuteFunctions,
   items: INodeExecutionData[],
 ): Promise<INodeExecutionData[]> {
   const returnData: INodeExecutionData[] = [];
   const operation = this.getNodeParameter('operation', 0) as string;
-  const credentials = await this.getCredentials('secretnetworkApi') as any;
+  const credentials = await this.getCredentials('secretNetworkApi') as any;
 
   for (let i = 0; i < items.length; i++) {
     try {
@@ -1734,61 +5506,27 @@ async function executeBlocksOperations(
 
       if (credentials.username && credentials.password) {
         baseOptions.auth = {
-          user: credentials.username,
-          pass: credentials.password,
+          username: credentials.username,
+          password: credentials.password,
         };
       }
 
-      switch (operation) {
-        case 'getLatestBlock': {
-          const options: any = {
-            ...baseOptions,
-            method: 'GET',
-            url: `${credentials.baseUrl || 'https://lcd.secret.express'}/cosmos/base/tendermint/v1beta1/blocks/latest`,
-          };
-          result = await this.helpers.httpRequest(options) as any;
-          break;
-        }
-
-        case 'getBlock': {
-          const height = this.getNodeParameter('height', i) as number;
-          const options: any = {
-            ...baseOptions,
-            method: 'GET',
-            url: `${credentials.baseUrl || 'https://lcd.secret.express'}/cosmos/base/tendermint/v1beta1/blocks/${height}`,
-          };
-          result = await this.helpers.httpRequest(options) as any;
-          break;
-        }
+      const get = async (path: string): Promise<any> =>
+        sendRequest.call(this, { ...baseOptions, method: 'GET', url: `${credentials.baseUrl}${path}` }, i);
 
-        case 'getNodeInfo': {
-          const options: any = {
-            ...baseOptions,
-            method: 'GET',
-            url: `${credentials.baseUrl || 'https://lcd.secret.express'}/cosmos/base/tendermint/v1beta1/node_info`,
-          };
-          result = await this.helpers.httpRequest(options) as any;
+      switch (operation) {
+        case 'getInflation': {
+          result = await get('/cosmos/mint/v1beta1/inflation');
           break;
         }
 
-        case 'getLatestValidatorSet': {
-          const options: any = {
-            ...baseOptions,
-            method: 'GET',
-            url: `${credentials.baseUrl || 'https://lcd.secret.express'}/cosmos/base/tendermint/v1beta1/validatorsets/latest`,
-          };
-          result = await this.helpers.httpRequest(options) as any;
+        case 'getAnnualProvisions': {
+          result = await get('/cosmos/mint/v1beta1/annual_provisions');
           break;
         }
 
-        case 'getValidatorSet': {
-          const height = this.getNodeParameter('height', i) as number;
-          const options: any = {
-            ...baseOptions,
-            method: 'GET',
-            url: `${credentials.baseUrl || 'https://lcd.secret.express'}/cosmos/base/tendermint/v1beta1/validatorsets/${height}`,
-          };
-          result = await this.helpers.httpRequest(options) as any;
+        case 'getParams': {
+          result = await get('/cosmos/mint/v1beta1/params');
           break;
         }
 
@@ -1810,176 +5548,217 @@ async function executeBlocksOperations(
   return returnData;
 }
 
-async function executeTransactionsOperations(
-	this: IExecuteFunctions,
-	items: INodeExecutionData[],
+export async function executeSlashingOperations(
+  this: IExecuteFunctions,
+  items: INodeExecutionData[],
 ): Promise<INodeExecutionData[]> {
-	const returnData: INodeExecutionData[] = [];
-	const operation = this.getNodeParameter('operation', 0) as string;
-	const credentials = await this.getCredentials('secretnetworkApi') as any;
-
-	for (let i = 0; i < items.length; i++) {
-		try {
-			let result: any;
-
-			switch (operation) {
-				case 'getTransaction': {
-					const hash = this.getNodeParameter('hash', i) as string;
-					const options: any = {
-						method: 'GET',
-						url: `${credentials.baseUrl}/cosmos/tx/v1beta1/txs/${hash}`,
-						headers: {
-							'Authorization': `Basic ${Buffer.from(`${credentials.username}:${credentials.password}`).toString('base64')}`,
-							'Content-Type': 'application/json'
-						},
-						json: true
-					};
-					result = await this.helpers.httpRequest(options) as any;
-					break;
-				}
+  const returnData: INodeExecutionData[] = [];
+  const operation = this.getNodeParameter('operation', 0) as string;
+  const credentials = await this.getCredentials('secretNetworkApi') as any;
 
-				case 'getTransactions': {
-					const events = this.getNodeParameter('events', i) as string;
-					const pageKey = this.getNodeParameter('pageKey', i) as string;
-					const limit = this.getNodeParameter('limit', i) as number;
+  for (let i = 0; i < items.length; i++) {
+    try {
+      let result: any;
 
-					let queryParams = new URLSearchParams();
-					if (events) queryParams.append('events', events);
-					if (pageKey) queryParams.append('pagination.key', pageKey);
-					if (limit) queryParams.append('pagination.limit', limit.toString());
+      const baseOptions: any = {
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        json: true,
+      };
 
-					const options: any = {
-						method: 'GET',
-						url: `${credentials.baseUrl}/cosmos/tx/v1beta1/txs?${queryParams.toString()}`,
-						headers: {
-							'Authorization': `Basic ${Buffer.from(`${credentials.username}:${credentials.password}`).toString('base64')}`,
-							'Content-Type': 'application/json'
-						},
-						json: true
-					};
-					result = await this.helpers.httpRequest(options) as any;
-					break;
-				}
+      if (credentials.username && credentials.password) {
+        baseOptions.auth = {
+          username: credentials.username,
+          password: credentials.password,
+        };
+      }
 
-				case 'broadcastTransaction': {
-					const txBytes = this.getNodeParameter('txBytes', i) as string;
-					const mode = this.getNodeParameter('mode', i) as string;
+      const get = async (path: string): Promise<any> =>
+        sendRequest.call(this, { ...baseOptions, method: 'GET', url: `${credentials.baseUrl}${path}` }, i);
 
-					const body = {
-						tx_bytes: txBytes,
-						mode: mode
-					};
+      // Signing infos are keyed by consensus address, which is derived from the consensus pubkey
+      const getValidatorWithConsensusAddress = async (validatorAddr: string) => {
+        const { validator } = await get(`/cosmos/staking/v1beta1/validators/${validatorAddr}`);
+        return { validator, consensusAddress: consensusPubkeyToAddress(validator.consensus_pubkey) };
+      };
 
-					const options: any = {
-						method: 'POST',
-						url: `${credentials.baseUrl}/cosmos/tx/v1beta1/txs`,
-						headers: {
-							'Authorization': `Basic ${Buffer.from(`${credentials.username}:${credentials.password}`).toString('base64')}`,
-							'Content-Type': 'application/json'
-						},
-						body: body,
-						json: true
-					};
-					result = await this.helpers.httpRequest(options) as any;
-					break;
-				}
+      switch (operation) {
+        case 'getSigningInfos': {
+          const paginationLimit = this.getNodeParameter('paginationLimit', i, 100) as number;
+          const getSigningInfos = async (paginationKey: string): Promise<any> => {
+            const queryParams = new URLSearchParams();
+            if (paginationLimit) queryParams.append('pagination.limit', paginationLimit.toString());
+            if (paginationKey) queryParams.append('pagination.key', paginationKey);
+            return get(`/cosmos/slashing/v1beta1/signing_infos?${queryParams.toString()}`);
+          };
 
-				case 'simulateTransaction': {
-					const txBytes = this.getNodeParameter('txBytes', i) as string;
+          if (this.getNodeParameter('returnAll', i, false) as boolean) {
+            returnData.push(...await returnAllPages.call(this, i, 'info', ({ nextKey }) => getSigningInfos(nextKey)));
+            continue;
+          }
+          result = await getSigningInfos(this.getNodeParameter('paginationKey', i, '') as string);
+          break;
+        }
 
-					const body = {
-						tx_bytes: txBytes
-					};
+        case 'getSigningInfo': {
+          let address = this.getNodeParameter('validatorAddr', i) as string;
+          if (address.startsWith(SECRET_VALOPER_PREFIX)) {
+            address = (await getValidatorWithConsensusAddress(address)).consensusAddress;
+          }
+          result = await get(`/cosmos/slashing/v1beta1/signing_infos/${address}`);
+          break;
+        }
 
-					const options: any = {
-						method: 'POST',
-						url: `${credentials.baseUrl}/cosmos/tx/v1beta1/simulate`,
-						headers: {
-							'Authorization': `Basic ${Buffer.from(`${credentials.username}:${credentials.password}`).toString('base64')}`,
-							'Content-Type': 'application/json'
-						},
-						body: body,
-						json: true
-					};
-					result = await this.helpers.httpRequest(options) as any;
-					break;
-				}
+        case 'getParams': {
+          result = await get('/cosmos/slashing/v1beta1/params');
+          break;
+        }
 
-				case 'getTransactionsByHeight': {
-					const height = this.getNodeParameter('height', i) as number;
+        case 'getValidatorHealth': {
+          const validatorAddr = this.getNodeParameter('validatorAddr', i) as string;
+          const warningRatio = this.getNodeParameter('missedBlocksWarningRatio', i, 0.05) as number;
 
-					const options: any = {
-						method: 'GET',
-						url: `${credentials.baseUrl}/cosmos/tx/v1beta1/txs/block/${height}`,
-						headers: {
-							'Authorization': `Basic ${Buffer.from(`${credentials.username}:${credentials.password}`).toString('base64')}`,
-							'Content-Type': 'application/json'
-						},
-						json: true
-					};
-					result = await this.helpers.httpRequest(options) as any;
-					break;
-				}
+          const { validator, consensusAddress } = await getValidatorWithConsensusAddress(validatorAddr);
+          const [{ val_signing_info }, { params }] = await Promise.all([
+            get(`/cosmos/slashing/v1beta1/signing_infos/${consensusAddress}`),
+            get('/cosmos/slashing/v1beta1/params'),
+          ]);
+          result = assessValidatorHealth(validator, val_signing_info, params, consensusAddress, warningRatio);
+          break;
+        }
 
-				default:
-					throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`);
-			}
+        default:
+          throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`);
+      }
 
-			returnData.push({ 
-				json: result, 
-				pairedItem: { item: i } 
-			});
+      returnData.push({ json: result, pairedItem: { item: i } });
 
-		} catch (error: any) {
-			if (this.continueOnFail()) {
-				returnData.push({
-					json: { error: error.message },
-					pairedItem: { item: i }
-				});
-			} else {
-				throw error;
-			}
-		}
-	}
+    } catch (error: any) {
+      if (this.continueOnFail()) {
+        returnData.push({ json: { error: error.message }, pairedItem: { item: i } });
+      } else {
+        throw error;
+      }
+    }
+  }
 
-	return returnData;
+  return returnData;
 }
 
-async function executeAccountsOperations(
+export async function executeRpcOperations(
   this: IExecuteFunctions,
   items: INodeExecutionData[],
 ): Promise<INodeExecutionData[]> {
   const returnData: INodeExecutionData[] = [];
   const operation = this.getNodeParameter('operation', 0) as string;
-  const credentials = await this.getCredentials('secretnetworkApi') as any;
+  const credentials = await this.getCredentials('secretNetworkApi') as any;
 
   for (let i = 0; i < items.length; i++) {
     try {
       let result: any;
 
       switch (operation) {
-        case 'getAccount': {
-          const address = this.getNodeParameter('address', i) as string;
-          const options: any = {
-            method: 'GET',
-            url: `${credentials.baseUrl}/cosmos/auth/v1beta1/accounts/${address}`,
-            headers: {
-              'Content-Type': 'application/json',
-              'Authorization': `Basic ${Buffer.from(`${credentials.username}:${credentials.password}`).toString('base64')}`,
-            },
-            json: true,
+        case 'getStatus': {
+          result = await rpcRequest.call(this, credentials, 'status', {}, i);
+          break;
+        }
+
+        case 'getBlockResults': {
+          const height = this.getNodeParameter('height', i, 0) as number;
+          result = await rpcRequest.call(this, credentials, 'block_results', { height: height || undefined }, i);
+          // Block level events (reward distribution, IBC timeouts, ...) never appear in tx logs;
+          // CometBFT 0.37 reports them per begin/end block, 0.38 as finalize block events
+          const stages: Record<string, string> = {
+            begin_block_events: 'begin_block',
+            end_block_events: 'end_block',
+            finalize_block_events: 'finalize_block',
           };
-          result = await this.helpers.httpRequest(options) as any;
+          result.events = Object.entries(stages).flatMap(([field, stage]) =>
+            parseTxEvents(result[field]).map((event) => ({ stage, ...event })),
+          );
           break;
         }
 
-        case 'getBalances': {
-          const address = this.getNodeParameter('address', i) as string;
-          const denom = this.getNodeParameter('denom', i) as string;
-          let url = `${credentials.baseUrl}/cosmos/bank/v1beta1/balances/${address}`;
-          
-          if (denom) {
-            url += `?pagination.limit=1000&denom=${denom}`;
+        case 'txSearch': {
+          const query = (this.getNodeParameter('rpcQuery', i) as string).trim();
+          const orderBy = this.getNodeParameter('orderBy', i, 'desc') as string;
+          const perPage = this.getNodeParameter('perPage', i, 30) as number;
+          // String arguments of the URI interface are JSON encoded
+          const txSearch = async (page: number): Promise<any> =>
+            rpcRequest.call(this, credentials, 'tx_search', {
+              query: JSON.stringify(query),
+              order_by: JSON.stringify(orderBy),
+              page,
+              per_page: perPage,
+            }, i);
+
+          if (this.getNodeParameter('returnAll', i, false) as boolean) {
+            returnData.push(...await returnAllPages.call(this, i, 'txs', ({ page }) => txSearch(page)));
+            continue;
+          }
+          result = await txSearch(this.getNodeParameter('page', i, 1) as number);
+          break;
+        }
+
+        case 'abciQuery': {
+          const path = (this.getNodeParameter('abciPath', i) as string).trim();
+          const data = (this.getNodeParameter('abciData', i, '') as string).trim().replace(/^0x/i, '');
+          const height = this.getNodeParameter('height', i, 0) as number;
+          const prove = this.getNodeParameter('prove', i, false) as boolean;
+
+          if (data && !/^([0-9a-fA-F]{2})*$/.test(data)) {
+            throw new NodeOperationError(this.getNode(), 'Data must be hex encoded', { itemIndex: i });
+          }
+          const { response } = await rpcRequest.call(this, credentials, 'abci_query', {
+            path: JSON.stringify(path),
+            data: data ? `0x${data}` : undefined,
+            height: height || undefined,
+            prove: prove || undefined,
+          }, i);
+          if (response.code) {
+            throw new NodeOperationError(
+              this.getNode(),
+              `ABCI query failed with code ${response.code}: ${response.log}`,
+              { itemIndex: i },
+            );
           }
+          result = response;
+          break;
+        }
+
+        case 'getUnconfirmedTxs': {
+          const limit = this.getNodeParameter('limit', i, 30) as number;
+          result = await rpcRequest.call(this, credentials, 'unconfirmed_txs', { limit }, i);
+          // Mempool txs come as raw bytes; Decode Transaction turns them into JSON
+          result.tx_hashes = (result.txs ?? []).map((tx: string) => computeTxHash(Buffer.from(tx, 'base64')));
+          break;
+        }
+
+        case 'getNetInfo': {
+          result = await rpcRequest.call(this, credentials, 'net_info', {}, i);
+          break;
+        }
+
+        case 'getConsensusState': {
+          result = await rpcRequest.call(this, credentials, 'consensus_state', {}, i);
+          break;
+        }
+
+        default:
+          throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`);
+      }
+
+      returnData.push({ json: result, pairedItem: { item: i } });
+
+    } catch (error: any) {
+      if (this.continueOnFail()) {
+        returnData.push({ json: { error: error.message }, pairedItem: { item: i } });
+      } else {
+        throw error;
+      }
+    }
+  }
 
-          const options
\ No newline at end of file
+  return returnData;
+}
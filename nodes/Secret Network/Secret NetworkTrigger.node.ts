@@ -0,0 +1,432 @@
+/**
+ * Copyright (c) 2026 Velocity BPA
+ *
+ * Licensed under the Business Source License 1.1 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://github.com/VelocityBPA/n8n-nodes-secretnetwork/blob/main/LICENSE
+ *
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  IDataObject,
+  INodeExecutionData,
+  INodeType,
+  INodeTypeDescription,
+  IPollFunctions,
+  NodeConnectionType,
+} from 'n8n-workflow';
+
+import {
+  decryptGetTxResponse,
+  extractContractEvents,
+  extractTransfers,
+  formatBlock,
+  getCredentialsWallet,
+  lcdRequest,
+} from './GenericFunctions';
+
+// Txs requested per page of a search
+const TXS_PER_PAGE = 50;
+// Pages searched per query and poll; older activity of a bigger burst is skipped
+const MAX_PAGES_PER_POLL = 10;
+// Enough to hold the txs of one poll of both address activity queries
+const MAX_SEEN_TX_HASHES = 2 * MAX_PAGES_PER_POLL * TXS_PER_PAGE;
+
+export class SecretNetworkTrigger implements INodeType {
+  description: INodeTypeDescription = {
+    displayName: 'Secret Network Trigger',
+    name: 'secretNetworkTrigger',
+    icon: 'file:secretnetwork.svg',
+    group: ['trigger'],
+    version: 1,
+    subtitle: '={{$parameter["event"]}}',
+    description: 'Starts the workflow on new Secret Network blocks, account activity or contract events',
+    defaults: {
+      name: 'Secret Network Trigger',
+    },
+    polling: true,
+    inputs: [],
+    outputs: [NodeConnectionType.Main],
+    credentials: [
+      {
+        name: 'secretNetworkApi',
+        required: true,
+      },
+    ],
+    properties: [
+      {
+        displayName: 'Event',
+        name: 'event',
+        type: 'options',
+        noDataExpression: true,
+        options: [
+          {
+            name: 'New Block',
+            value: 'newBlock',
+            description: 'Emit one item per new block',
+          },
+          {
+            name: 'Address Activity',
+            value: 'addressActivity',
+            description: 'Emit one item per token transfer to or from an address',
+          },
+          {
+            name: 'Contract Event',
+            value: 'contractEvent',
+            description: 'Emit one item per wasm event of a contract',
+          },
+        ],
+        default: 'newBlock',
+      },
+      {
+        displayName: 'Address',
+        name: 'address',
+        type: 'string',
+        required: true,
+        displayOptions: {
+          show: {
+            event: ['addressActivity'],
+          },
+        },
+        default: '',
+        placeholder: 'secret1...',
+        description: 'The account to watch',
+      },
+      {
+        displayName: 'Direction',
+        name: 'direction',
+        type: 'options',
+        options: [
+          { name: 'Incoming and Outgoing', value: 'both' },
+          { name: 'Incoming', value: 'incoming' },
+          { name: 'Outgoing', value: 'outgoing' },
+        ],
+        displayOptions: {
+          show: {
+            event: ['addressActivity'],
+          },
+        },
+        default: 'both',
+        description: 'Which transfers of the address to emit',
+      },
+      {
+        displayName: 'Contract Address',
+        name: 'contractAddress',
+        type: 'string',
+        required: true,
+        displayOptions: {
+          show: {
+            event: ['contractEvent'],
+          },
+        },
+        default: '',
+        placeholder: 'secret1...',
+        description: 'The contract whose events to watch',
+      },
+      {
+        displayName: 'Attribute Filters',
+        name: 'attributeFilters',
+        type: 'fixedCollection',
+        typeOptions: { multipleValues: true },
+        placeholder: 'Add Filter',
+        displayOptions: {
+          show: {
+            event: ['contractEvent'],
+          },
+        },
+        default: {},
+        description:
+          'Only emit events having all of these attributes, e.g. action = transfer. Matched after decryption, so attributes of txs signed with the credentials key can be used too.',
+        options: [
+          {
+            displayName: 'Filter',
+            name: 'filter',
+            values: [
+              {
+                displayName: 'Key',
+                name: 'key',
+                type: 'string',
+                default: '',
+              },
+              {
+                displayName: 'Value',
+                name: 'value',
+                type: 'string',
+                default: '',
+              },
+            ],
+          },
+        ],
+      },
+      {
+        displayName: 'Include Transactions',
+        name: 'includeTransactions',
+        type: 'boolean',
+        displayOptions: {
+          show: {
+            event: ['newBlock'],
+          },
+        },
+        default: false,
+        description: 'Whether to add the decoded transactions of each block to its item',
+      },
+      {
+        displayName: 'Max Blocks per Poll',
+        name: 'maxBlocksPerPoll',
+        type: 'number',
+        typeOptions: { minValue: 1 },
+        displayOptions: {
+          show: {
+            event: ['newBlock'],
+          },
+        },
+        default: 20,
+        description:
+          'Maximum number of blocks processed in one poll. After downtime the trigger catches up over several polls instead of fetching every missed block at once.',
+      },
+    ],
+  };
+
+  async poll(this: IPollFunctions): Promise<INodeExecutionData[][] | null> {
+    const event = this.getNodeParameter('event', 'newBlock') as string;
+    const credentials = await this.getCredentials('secretNetworkApi');
+    const staticData = this.getWorkflowStaticData('node');
+
+    let items: INodeExecutionData[];
+    if (event === 'addressActivity') {
+      items = await pollAddressActivity.call(this, credentials, staticData);
+    } else if (event === 'contractEvent') {
+      items = await pollContractEvents.call(this, credentials, staticData);
+    } else {
+      items = await pollNewBlocks.call(this, credentials, staticData);
+    }
+    return items.length ? [items] : null;
+  }
+}
+
+async function pollNewBlocks(
+  this: IPollFunctions,
+  credentials: IDataObject,
+  staticData: IDataObject,
+): Promise<INodeExecutionData[]> {
+  const includeTransactions = this.getNodeParameter('includeTransactions', false) as boolean;
+  const maxBlocksPerPoll = this.getNodeParameter('maxBlocksPerPoll', 20) as number;
+
+  const latest = await lcdRequest.call(
+    this,
+    credentials,
+    'GET',
+    '/cosmos/base/tendermint/v1beta1/blocks/latest',
+  );
+  const latestHeight = Number(latest.block.header.height);
+
+  // Manual executions show the latest block without moving the cursor
+  if (this.getMode() === 'manual') {
+    return [{ json: formatBlock(latest, includeTransactions) }];
+  }
+
+  const lastHeight = staticData.lastHeight as number | undefined;
+  if (lastHeight === undefined) {
+    // Start at the current height rather than replaying the whole chain
+    staticData.lastHeight = latestHeight;
+    return [];
+  }
+
+  const toHeight = Math.min(latestHeight, lastHeight + maxBlocksPerPoll);
+  const items: INodeExecutionData[] = [];
+  for (let height = lastHeight + 1; height <= toHeight; height++) {
+    const block =
+      height === latestHeight
+        ? latest
+        : await lcdRequest.call(
+            this,
+            credentials,
+            'GET',
+            `/cosmos/base/tendermint/v1beta1/blocks/${height}`,
+          );
+    items.push({ json: formatBlock(block, includeTransactions) });
+  }
+
+  // Only advance once every block of this poll has been fetched, so a failed
+  // request is retried by the next poll instead of skipping blocks
+  staticData.lastHeight = Math.max(toHeight, lastHeight);
+  return items;
+}
+
+/**
+ * Searches the latest txs sending to (`transfer.recipient`) or signed by
+ * (`message.sender`) the address and emits the transfers of those not seen
+ * before. The first poll only records the current txs.
+ */
+async function pollAddressActivity(
+  this: IPollFunctions,
+  credentials: IDataObject,
+  staticData: IDataObject,
+): Promise<INodeExecutionData[]> {
+  const address = (this.getNodeParameter('address') as string).trim();
+  const direction = this.getNodeParameter('direction', 'both') as string;
+
+  const queries: string[] = [];
+  if (direction !== 'outgoing') queries.push(`transfer.recipient='${address}'`);
+  if (direction !== 'incoming') queries.push(`message.sender='${address}'`);
+
+  const scope = `address:${address}`;
+  const seen = this.getMode() === 'manual' ? undefined : getSeenTxHashes(staticData, scope);
+  const txs = new Map<string, TxSearchResult>();
+  for (const query of queries) {
+    for (const tx of await searchTxs.call(this, credentials, query, seen)) {
+      txs.set(tx.txResponse.txhash as string, tx);
+    }
+  }
+
+  const toItems = (results: TxSearchResult[]) =>
+    results
+      .map(({ txResponse }) => txResponse)
+      .sort((a, b) => Number(a.height) - Number(b.height))
+      .flatMap((txResponse) => extractTransfers(txResponse, address))
+      .filter((transfer) => direction === 'both' || transfer.direction === direction)
+      .map((transfer) => ({ json: transfer }));
+
+  if (this.getMode() === 'manual') {
+    return toItems([...txs.values()]);
+  }
+  const newTxs = takeUnseenTxs(staticData, scope, [...txs.values()]);
+  return newTxs ? toItems(newTxs) : [];
+}
+
+/**
+ * Searches the latest txs executing the contract (`wasm.contract_address`)
+ * and emits the matching wasm events of those not seen before. Txs signed
+ * with the credentials key are decrypted first; of other txs only the
+ * plaintext attributes can be read.
+ */
+async function pollContractEvents(
+  this: IPollFunctions,
+  credentials: IDataObject,
+  staticData: IDataObject,
+): Promise<INodeExecutionData[]> {
+  const contractAddress = (this.getNodeParameter('contractAddress') as string).trim();
+  const { filter = [] } = this.getNodeParameter('attributeFilters', {}) as {
+    filter?: Array<{ key: string; value: string }>;
+  };
+  const filters: Record<string, string> = {};
+  for (const { key, value } of filter) {
+    if (key) filters[key] = value;
+  }
+
+  const scope = `contract:${contractAddress}`;
+  const manual = this.getMode() === 'manual';
+  const query = `wasm.contract_address='${contractAddress}'`;
+  const txs = await searchTxs.call(
+    this,
+    credentials,
+    query,
+    manual ? undefined : getSeenTxHashes(staticData, scope),
+  );
+  const newTxs = manual ? txs : takeUnseenTxs(staticData, scope, txs);
+  if (!newTxs) return [];
+
+  const wallet = getCredentialsWallet(credentials);
+  const items: INodeExecutionData[] = [];
+  for (const { tx, txResponse } of newTxs.sort(
+    (a, b) => Number(a.txResponse.height) - Number(b.txResponse.height),
+  )) {
+    let decrypted = txResponse;
+    const messages = ((tx?.body as IDataObject | undefined)?.messages ?? []) as IDataObject[];
+    // Only the sender's key can decrypt, skip the enclave key lookup for other txs
+    if (wallet && messages.some((message) => message.sender === wallet.address)) {
+      const response = await decryptGetTxResponse.call(this, credentials, {
+        tx,
+        tx_response: txResponse,
+      });
+      decrypted = response.tx_response as IDataObject;
+    }
+    for (const contractEvent of extractContractEvents(decrypted, contractAddress, filters)) {
+      items.push({ json: contractEvent });
+    }
+  }
+  return items;
+}
+
+interface TxSearchResult {
+  tx?: IDataObject;
+  txResponse: IDataObject;
+}
+
+/**
+ * Returns the latest txs matching an `events` query, newest first. With the
+ * hashes seen by earlier polls, pages further back until one of them shows
+ * up so that a burst of txs between two polls isn't cut off; without, only
+ * the first page is returned.
+ */
+async function searchTxs(
+  this: IPollFunctions,
+  credentials: IDataObject,
+  query: string,
+  seen?: string[],
+): Promise<TxSearchResult[]> {
+  const results: TxSearchResult[] = [];
+  for (let page = 1; page <= MAX_PAGES_PER_POLL; page++) {
+    const params = new URLSearchParams({
+      events: query,
+      order_by: 'ORDER_BY_DESC',
+      page: String(page),
+      limit: String(TXS_PER_PAGE),
+    });
+    const response = await lcdRequest.call(
+      this,
+      credentials,
+      'GET',
+      `/cosmos/tx/v1beta1/txs?${params.toString()}`,
+    );
+    const txs = (response.txs ?? []) as IDataObject[];
+    const txResponses = (response.tx_responses ?? []) as IDataObject[];
+    results.push(...txResponses.map((txResponse, index) => ({ tx: txs[index], txResponse })));
+
+    const total = Number(response.total ?? 0);
+    if (
+      !seen ||
+      txResponses.length < TXS_PER_PAGE ||
+      (total && page * TXS_PER_PAGE >= total) ||
+      txResponses.some(({ txhash }) => seen.includes(txhash as string))
+    ) {
+      return results;
+    }
+  }
+  this.logger.warn(
+    `Secret Network trigger found more than ${results.length} new txs for ${query} since the last poll, older ones are skipped`,
+  );
+  return results;
+}
+
+/**
+ * Returns the tx hashes recorded by earlier polls of the scope, or undefined
+ * when the scope hasn't been polled yet.
+ */
+function getSeenTxHashes(staticData: IDataObject, scope: string): string[] | undefined {
+  return staticData.seenTxScope === scope ? (staticData.seenTxHashes as string[]) : undefined;
+}
+
+/**
+ * Records the hashes of the given txs and returns those not seen by earlier
+ * polls of the same scope, or undefined on the first poll so that enabling
+ * the trigger doesn't replay the existing history.
+ */
+function takeUnseenTxs(
+  staticData: IDataObject,
+  scope: string,
+  txs: TxSearchResult[],
+): TxSearchResult[] | undefined {
+  const seen = getSeenTxHashes(staticData, scope);
+  const newTxs = txs.filter(({ txResponse }) => !seen?.includes(txResponse.txhash as string));
+  staticData.seenTxScope = scope;
+  staticData.seenTxHashes = [
+    ...(seen ?? []),
+    ...newTxs.map(({ txResponse }) => txResponse.txhash as string),
+  ].slice(-MAX_SEEN_TX_HASHES);
+  return seen ? newTxs : undefined;
+}
@@ -0,0 +1,353 @@
+/**
+ * Copyright (c) 2026 Velocity BPA
+ *
+ * Licensed under the Business Source License 1.1 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://github.com/VelocityBPA/n8n-nodes-secretnetwork/blob/main/LICENSE
+ *
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  IDataObject,
+  INodeType,
+  INodeTypeDescription,
+  ITriggerFunctions,
+  ITriggerResponse,
+  NodeConnectionType,
+} from 'n8n-workflow';
+import { Buffer } from 'buffer';
+
+import { formatBlock, getRpcUrl, parseTxEvents, rpcRequest } from './GenericFunctions';
+import { computeTxHash } from './Transaction';
+import { decodeTxRaw } from './TxDecoder';
+import { WebSocketConnection, connectWebSocket } from './WebSocket';
+
+// CometBFT pings subscribers about every 27 seconds
+const IDLE_TIMEOUT = 60000;
+const TX_SEARCH_PAGE_SIZE = 100;
+// Only txs of the last searched height can be found twice
+const MAX_SEEN_TX_HASHES = 1000;
+
+export class SecretNetworkWebSocketTrigger implements INodeType {
+  description: INodeTypeDescription = {
+    displayName: 'Secret Network WebSocket Trigger',
+    name: 'secretNetworkWebSocketTrigger',
+    icon: 'file:secretnetwork.svg',
+    group: ['trigger'],
+    version: 1,
+    subtitle: '={{$parameter["event"]}}',
+    description: 'Starts the workflow in real time on events of a CometBFT RPC websocket subscription',
+    defaults: {
+      name: 'Secret Network WebSocket Trigger',
+    },
+    inputs: [],
+    outputs: [NodeConnectionType.Main],
+    credentials: [
+      {
+        name: 'secretNetworkApi',
+        required: true,
+      },
+    ],
+    properties: [
+      {
+        displayName: 'Event',
+        name: 'event',
+        type: 'options',
+        noDataExpression: true,
+        options: [
+          {
+            name: 'New Block',
+            value: 'newBlock',
+            description: "Subscribe to tm.event='NewBlock' and emit one item per block",
+          },
+          {
+            name: 'Transaction',
+            value: 'tx',
+            description: "Subscribe to tm.event='Tx' and emit one item per matching transaction",
+          },
+        ],
+        default: 'newBlock',
+      },
+      {
+        displayName: 'Query',
+        name: 'query',
+        type: 'string',
+        displayOptions: {
+          show: {
+            event: ['tx'],
+          },
+        },
+        default: '',
+        placeholder: "wasm.contract_address='secret1...'",
+        description:
+          "Conditions added to tm.event='Tx' with AND, in CometBFT query syntax. Leave empty for every transaction.",
+      },
+      {
+        displayName: 'Include Transactions',
+        name: 'includeTransactions',
+        type: 'boolean',
+        displayOptions: {
+          show: {
+            event: ['newBlock'],
+          },
+        },
+        default: false,
+        description: 'Whether to add the decoded transactions of each block to its item',
+      },
+      {
+        displayName: 'Max Reconnect Delay (Seconds)',
+        name: 'maxReconnectDelay',
+        type: 'number',
+        typeOptions: { minValue: 1 },
+        default: 60,
+        description:
+          'Upper bound of the exponential backoff between reconnect attempts after the connection drops',
+      },
+    ],
+  };
+
+  async trigger(this: ITriggerFunctions): Promise<ITriggerResponse> {
+    const credentials = await this.getCredentials('secretNetworkApi');
+    const event = this.getNodeParameter('event', 'newBlock') as SubscriptionOptions['event'];
+    const subscription = new CometBftSubscription(this, credentials, {
+      event,
+      query: event === 'tx' ? ((this.getNodeParameter('query', '') as string) ?? '').trim() : '',
+      includeTransactions:
+        event === 'newBlock' && (this.getNodeParameter('includeTransactions', false) as boolean),
+      maxReconnectDelay: this.getNodeParameter('maxReconnectDelay', 60) as number,
+    });
+
+    const closeFunction = async () => subscription.stop();
+    if (this.getMode() === 'manual') {
+      // The test run ends with the first emitted event
+      return { closeFunction, manualTriggerFunction: async () => subscription.connect() };
+    }
+    await subscription.connect();
+    return { closeFunction };
+  }
+}
+
+interface SubscriptionOptions {
+  event: 'newBlock' | 'tx';
+  query: string;
+  includeTransactions: boolean;
+  maxReconnectDelay: number;
+}
+
+/**
+ * A CometBFT `subscribe` over the RPC websocket that reconnects with
+ * jittered exponential backoff. After a reconnect, the blocks or txs of the
+ * heights missed while disconnected are fetched over HTTP and emitted
+ * before the live events received in the meantime.
+ */
+class CometBftSubscription {
+  private connection?: WebSocketConnection;
+  private reconnectTimer?: NodeJS.Timeout;
+  private reconnectAttempts = 0;
+  private stopped = false;
+  // Last emitted block, or for txs the height from which a backfill searches
+  private lastHeight?: number;
+  private seenTxHashes: string[] = [];
+
+  constructor(
+    private readonly context: ITriggerFunctions,
+    private readonly credentials: IDataObject,
+    private readonly options: SubscriptionOptions,
+  ) {}
+
+  private get query(): string {
+    if (this.options.event === 'newBlock') return "tm.event='NewBlock'";
+    return ["tm.event='Tx'", this.options.query].filter(Boolean).join(' AND ');
+  }
+
+  async connect(): Promise<void> {
+    const headers: Record<string, string> = {};
+    if (this.credentials.username && this.credentials.password) {
+      const auth = `${this.credentials.username}:${this.credentials.password}`;
+      headers.Authorization = `Basic ${Buffer.from(auth).toString('base64')}`;
+    }
+    const connection = await connectWebSocket(
+      `${getRpcUrl(this.credentials).replace(/^http/, 'ws')}/websocket`,
+      { headers, idleTimeout: IDLE_TIMEOUT },
+    );
+
+    // Live events wait until the gap since the previous connection is filled
+    const pending: IDataObject[] = [];
+    let live = false;
+    const subscribed = new Promise<void>((resolve, reject) => {
+      connection.once('close', (error?: Error) =>
+        reject(error ?? new Error('WebSocket connection closed before subscribing')),
+      );
+      connection.on('message', (text: string) => {
+        let message: any;
+        try {
+          message = JSON.parse(text);
+        } catch (error) {
+          return;
+        }
+        if (message.error) {
+          // Also sent when the node cancels a subscription that falls behind
+          const reason = message.error.data || message.error.message;
+          const error = new Error(`Subscription to ${this.query} failed: ${reason}`);
+          reject(error);
+          connection.terminate(error);
+          return;
+        }
+        const data = message.result?.data;
+        if (!data) {
+          resolve();
+        } else if (live) {
+          this.handleEvent(data);
+        } else {
+          pending.push(data);
+        }
+      });
+    });
+
+    try {
+      connection.send(
+        JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'subscribe', params: { query: this.query } }),
+      );
+      await subscribed;
+      // Events newer than the reported height are delivered by the subscription
+      const status = await rpcRequest.call(this.context, this.credentials, 'status');
+      const latestHeight = Number(status.sync_info.latest_block_height);
+      if (this.lastHeight !== undefined) {
+        await this.backfill(latestHeight);
+      }
+      this.lastHeight = Math.max(this.lastHeight ?? 0, latestHeight);
+    } catch (error) {
+      connection.terminate();
+      throw error;
+    }
+
+    live = true;
+    for (const data of pending) this.handleEvent(data);
+
+    if (!connection.isOpen) {
+      throw new Error('WebSocket connection closed while catching up');
+    }
+    this.connection = connection;
+    this.reconnectAttempts = 0;
+    connection.on('close', (error?: Error) => this.handleClose(connection, error));
+    if (this.stopped) connection.close();
+  }
+
+  stop(): void {
+    this.stopped = true;
+    clearTimeout(this.reconnectTimer);
+    this.connection?.close();
+  }
+
+  private handleClose(connection: WebSocketConnection, error?: Error): void {
+    if (this.stopped || connection !== this.connection) return;
+    this.connection = undefined;
+    this.context.logger.warn(
+      `Secret Network websocket disconnected${error ? `: ${error.message}` : ''}, reconnecting`,
+    );
+    this.scheduleReconnect();
+  }
+
+  private scheduleReconnect(): void {
+    const backoff = Math.min(this.options.maxReconnectDelay * 1000, 1000 * 2 ** this.reconnectAttempts);
+    this.reconnectAttempts++;
+    this.reconnectTimer = setTimeout(async () => {
+      try {
+        await this.connect();
+      } catch (error: any) {
+        if (this.stopped) return;
+        this.context.logger.warn(`Secret Network websocket reconnect failed: ${error.message}`);
+        this.scheduleReconnect();
+      }
+    }, backoff * (0.5 + Math.random() / 2));
+  }
+
+  /**
+   * Emits what happened between `lastHeight` and `latestHeight`: every
+   * block, or the txs found by `tx_search` for the subscription query.
+   */
+  private async backfill(latestHeight: number): Promise<void> {
+    const fromHeight = this.lastHeight as number;
+
+    if (this.options.event === 'newBlock') {
+      for (let height = fromHeight + 1; height <= latestHeight; height++) {
+        const block = await rpcRequest.call(this.context, this.credentials, 'block', { height });
+        this.emitBlock(block);
+      }
+      return;
+    }
+
+    // The last height is searched again as the connection may have dropped
+    // while its txs were being delivered; repeated txs are skipped
+    const query = `${this.query} AND tx.height>=${fromHeight} AND tx.height<=${latestHeight}`;
+    for (let page = 1; ; page++) {
+      const result = await rpcRequest.call(this.context, this.credentials, 'tx_search', {
+        query: JSON.stringify(query),
+        order_by: JSON.stringify('asc'),
+        page,
+        per_page: TX_SEARCH_PAGE_SIZE,
+      });
+      const txs = (result.txs ?? []) as IDataObject[];
+      for (const tx of txs) {
+        this.emitTx({ ...tx, result: tx.tx_result });
+      }
+      if (!txs.length || page * TX_SEARCH_PAGE_SIZE >= Number(result.total_count)) break;
+    }
+  }
+
+  private handleEvent(data: IDataObject): void {
+    const value = (data.value ?? {}) as IDataObject;
+    if (this.options.event === 'newBlock') {
+      this.emitBlock(value);
+    } else if (value.TxResult) {
+      this.emitTx(value.TxResult as IDataObject);
+    }
+  }
+
+  private emitBlock(response: IDataObject): void {
+    const item = formatBlock(response, this.options.includeTransactions);
+    if (this.lastHeight !== undefined && (item.height as number) <= this.lastHeight) return;
+    this.lastHeight = item.height as number;
+    this.context.emit([[{ json: item }]]);
+  }
+
+  private emitTx(txResult: IDataObject): void {
+    const item = formatTxResult(txResult);
+    if (this.seenTxHashes.includes(item.txhash as string)) return;
+    this.seenTxHashes = [...this.seenTxHashes, item.txhash as string].slice(-MAX_SEEN_TX_HASHES);
+    this.lastHeight = Math.max(this.lastHeight ?? 0, item.height as number);
+    this.context.emit([[{ json: item }]]);
+  }
+}
+
+/**
+ * Flattens a CometBFT `TxResult`, as found in `Tx` events and `tx_search`
+ * results, into a workflow item.
+ */
+function formatTxResult(txResult: IDataObject): IDataObject {
+  const bytes = Buffer.from(txResult.tx as string, 'base64');
+  const result = (txResult.result ?? {}) as IDataObject;
+  let tx: IDataObject;
+  try {
+    tx = decodeTxRaw(bytes);
+  } catch (error: any) {
+    tx = { error: `Could not decode transaction: ${error.message}` };
+  }
+
+  return {
+    txhash: computeTxHash(bytes),
+    height: Number(txResult.height),
+    index: txResult.index ?? 0,
+    code: result.code ?? 0,
+    codespace: result.codespace,
+    log: result.log,
+    gas_wanted: result.gas_wanted,
+    gas_used: result.gas_used,
+    events: parseTxEvents(result.events),
+    tx,
+  };
+}
@@ -0,0 +1,593 @@
+/**
+ * Copyright (c) 2026 Velocity BPA
+ *
+ * Licensed under the Business Source License 1.1 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://github.com/VelocityBPA/n8n-nodes-secretnetwork/blob/main/LICENSE
+ *
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { createHash } from 'crypto';
+import { gzipSync } from 'zlib';
+import { Buffer } from 'buffer';
+
+import { ProtobufReader, ProtobufWriter } from './Protobuf';
+import { SecretWallet, addressToBytes, moduleAddress, signDirect } from './Wallet';
+
+export interface Coin {
+  denom: string;
+  amount: string;
+}
+
+/** A message packed as a protobuf `Any`. */
+export interface EncodedMessage {
+  typeUrl: string;
+  value: Buffer;
+}
+
+export interface TxFee {
+  amount: Coin[];
+  gasLimit: number;
+}
+
+export interface UnsignedTx {
+  messages: EncodedMessage[];
+  memo?: string;
+  fee: TxFee;
+  chainId: string;
+  accountNumber: number | string;
+  sequence: number | string;
+}
+
+export interface SignedTx {
+  txBytes: Buffer;
+  txHash: string;
+}
+
+export const SIGN_MODE_DIRECT = 1;
+
+export const MSG_TYPE_URLS = {
+  send: '/cosmos.bank.v1beta1.MsgSend',
+  multiSend: '/cosmos.bank.v1beta1.MsgMultiSend',
+  delegate: '/cosmos.staking.v1beta1.MsgDelegate',
+  undelegate: '/cosmos.staking.v1beta1.MsgUndelegate',
+  beginRedelegate: '/cosmos.staking.v1beta1.MsgBeginRedelegate',
+  cancelUnbondingDelegation: '/cosmos.staking.v1beta1.MsgCancelUnbondingDelegation',
+  createValidator: '/cosmos.staking.v1beta1.MsgCreateValidator',
+  editValidator: '/cosmos.staking.v1beta1.MsgEditValidator',
+  withdrawDelegatorReward: '/cosmos.distribution.v1beta1.MsgWithdrawDelegatorReward',
+  withdrawValidatorCommission: '/cosmos.distribution.v1beta1.MsgWithdrawValidatorCommission',
+  setWithdrawAddress: '/cosmos.distribution.v1beta1.MsgSetWithdrawAddress',
+  fundCommunityPool: '/cosmos.distribution.v1beta1.MsgFundCommunityPool',
+  communityPoolSpend: '/cosmos.distribution.v1beta1.MsgCommunityPoolSpend',
+  communityPoolSpendProposal: '/cosmos.distribution.v1beta1.CommunityPoolSpendProposal',
+  parameterChangeProposal: '/cosmos.params.v1beta1.ParameterChangeProposal',
+  submitProposalV1beta1: '/cosmos.gov.v1beta1.MsgSubmitProposal',
+  voteV1beta1: '/cosmos.gov.v1beta1.MsgVote',
+  voteWeightedV1beta1: '/cosmos.gov.v1beta1.MsgVoteWeighted',
+  depositV1beta1: '/cosmos.gov.v1beta1.MsgDeposit',
+  submitProposal: '/cosmos.gov.v1.MsgSubmitProposal',
+  vote: '/cosmos.gov.v1.MsgVote',
+  voteWeighted: '/cosmos.gov.v1.MsgVoteWeighted',
+  deposit: '/cosmos.gov.v1.MsgDeposit',
+  execLegacyContent: '/cosmos.gov.v1.MsgExecLegacyContent',
+  textProposal: '/cosmos.gov.v1beta1.TextProposal',
+  executeContract: '/secret.compute.v1beta1.MsgExecuteContract',
+  instantiateContract: '/secret.compute.v1beta1.MsgInstantiateContract',
+  storeCode: '/secret.compute.v1beta1.MsgStoreCode',
+  migrateContract: '/secret.compute.v1beta1.MsgMigrateContract',
+  updateAdmin: '/secret.compute.v1beta1.MsgUpdateAdmin',
+  clearAdmin: '/secret.compute.v1beta1.MsgClearAdmin',
+  ibcTransfer: '/ibc.applications.transfer.v1.MsgTransfer',
+  updateClient: '/ibc.core.client.v1.MsgUpdateClient',
+};
+
+/** Governance vote options, indexed by their protobuf enum value. */
+export const VOTE_OPTIONS = [
+  'VOTE_OPTION_UNSPECIFIED',
+  'VOTE_OPTION_YES',
+  'VOTE_OPTION_ABSTAIN',
+  'VOTE_OPTION_NO',
+  'VOTE_OPTION_NO_WITH_VETO',
+];
+
+const SECP256K1_PUBKEY_TYPE_URL = '/cosmos.crypto.secp256k1.PubKey';
+
+// ============================================================
+// Message encoders
+// ============================================================
+
+export function encodeCoin(coin: Coin): Buffer {
+  return new ProtobufWriter().string(1, coin.denom).string(2, String(coin.amount)).finish();
+}
+
+export function encodeAny(message: EncodedMessage): Buffer {
+  return new ProtobufWriter().string(1, message.typeUrl).bytes(2, message.value).finish();
+}
+
+export function encodeMsgSend(params: {
+  fromAddress: string;
+  toAddress: string;
+  amount: Coin[];
+}): EncodedMessage {
+  const writer = new ProtobufWriter().string(1, params.fromAddress).string(2, params.toAddress);
+  for (const coin of params.amount) writer.message(3, encodeCoin(coin));
+  return { typeUrl: MSG_TYPE_URLS.send, value: writer.finish() };
+}
+
+export function encodeMsgDelegate(params: {
+  delegatorAddress: string;
+  validatorAddress: string;
+  amount: Coin;
+}): EncodedMessage {
+  const value = new ProtobufWriter()
+    .string(1, params.delegatorAddress)
+    .string(2, params.validatorAddress)
+    .message(3, encodeCoin(params.amount))
+    .finish();
+  return { typeUrl: MSG_TYPE_URLS.delegate, value };
+}
+
+export function encodeMsgUndelegate(params: {
+  delegatorAddress: string;
+  validatorAddress: string;
+  amount: Coin;
+}): EncodedMessage {
+  return { ...encodeMsgDelegate(params), typeUrl: MSG_TYPE_URLS.undelegate };
+}
+
+export function encodeMsgBeginRedelegate(params: {
+  delegatorAddress: string;
+  validatorSrcAddress: string;
+  validatorDstAddress: string;
+  amount: Coin;
+}): EncodedMessage {
+  const value = new ProtobufWriter()
+    .string(1, params.delegatorAddress)
+    .string(2, params.validatorSrcAddress)
+    .string(3, params.validatorDstAddress)
+    .message(4, encodeCoin(params.amount))
+    .finish();
+  return { typeUrl: MSG_TYPE_URLS.beginRedelegate, value };
+}
+
+export function encodeMsgWithdrawDelegatorReward(params: {
+  delegatorAddress: string;
+  validatorAddress: string;
+}): EncodedMessage {
+  const value = new ProtobufWriter()
+    .string(1, params.delegatorAddress)
+    .string(2, params.validatorAddress)
+    .finish();
+  return { typeUrl: MSG_TYPE_URLS.withdrawDelegatorReward, value };
+}
+
+export function encodeMsgWithdrawValidatorCommission(params: {
+  validatorAddress: string;
+}): EncodedMessage {
+  const value = new ProtobufWriter().string(1, params.validatorAddress).finish();
+  return { typeUrl: MSG_TYPE_URLS.withdrawValidatorCommission, value };
+}
+
+export function encodeMsgSetWithdrawAddress(params: {
+  delegatorAddress: string;
+  withdrawAddress: string;
+}): EncodedMessage {
+  const value = new ProtobufWriter()
+    .string(1, params.delegatorAddress)
+    .string(2, params.withdrawAddress)
+    .finish();
+  return { typeUrl: MSG_TYPE_URLS.setWithdrawAddress, value };
+}
+
+/**
+ * Accepts an option as its enum name (`VOTE_OPTION_YES`), its short name
+ * (`yes`, `no_with_veto`) or its number.
+ */
+export function parseVoteOption(option: string | number): number {
+  const name = String(option).trim().toUpperCase().replace(/^VOTE_OPTION_/, '');
+  const index = /^\d+$/.test(name) ? Number(name) : VOTE_OPTIONS.indexOf(`VOTE_OPTION_${name}`);
+  if (index < 1 || index >= VOTE_OPTIONS.length) {
+    throw new Error(`Unknown vote option "${option}", expected yes, abstain, no or no_with_veto`);
+  }
+  return index;
+}
+
+/**
+ * Encodes a decimal such as "0.7" the way gov v1beta1 expects `cosmos.Dec`
+ * fields: as the integer scaled by 10^18.
+ */
+export function encodeLegacyDec(value: string): string {
+  const match = /^(\d*)(?:\.(\d{0,18}))?$/.exec(value.trim());
+  if (!match || (!match[1] && !match[2])) {
+    throw new Error(`"${value}" is not a decimal with at most 18 decimal places`);
+  }
+  return `${match[1]}${(match[2] ?? '').padEnd(18, '0')}`.replace(/^0+(?=\d)/, '');
+}
+
+export type GovVersion = 'v1' | 'v1beta1';
+
+export function encodeMsgVote(
+  params: { proposalId: number | string; voter: string; option: number; metadata?: string },
+  version: GovVersion,
+): EncodedMessage {
+  const writer = new ProtobufWriter()
+    .uint64(1, params.proposalId)
+    .string(2, params.voter)
+    .uint64(3, params.option);
+  if (version === 'v1') writer.string(4, params.metadata);
+  return {
+    typeUrl: version === 'v1' ? MSG_TYPE_URLS.vote : MSG_TYPE_URLS.voteV1beta1,
+    value: writer.finish(),
+  };
+}
+
+export function encodeMsgVoteWeighted(
+  params: {
+    proposalId: number | string;
+    voter: string;
+    options: Array<{ option: number; weight: string }>;
+    metadata?: string;
+  },
+  version: GovVersion,
+): EncodedMessage {
+  const writer = new ProtobufWriter().uint64(1, params.proposalId).string(2, params.voter);
+  for (const { option, weight } of params.options) {
+    writer.message(
+      3,
+      new ProtobufWriter()
+        .uint64(1, option)
+        .string(2, version === 'v1' ? weight : encodeLegacyDec(weight))
+        .finish(),
+    );
+  }
+  if (version === 'v1') writer.string(4, params.metadata);
+  return {
+    typeUrl: version === 'v1' ? MSG_TYPE_URLS.voteWeighted : MSG_TYPE_URLS.voteWeightedV1beta1,
+    value: writer.finish(),
+  };
+}
+
+export function encodeMsgDeposit(
+  params: { proposalId: number | string; depositor: string; amount: Coin[] },
+  version: GovVersion,
+): EncodedMessage {
+  const writer = new ProtobufWriter().uint64(1, params.proposalId).string(2, params.depositor);
+  for (const coin of params.amount) writer.message(3, encodeCoin(coin));
+  return {
+    typeUrl: version === 'v1' ? MSG_TYPE_URLS.deposit : MSG_TYPE_URLS.depositV1beta1,
+    value: writer.finish(),
+  };
+}
+
+/**
+ * gov v1beta1 proposal, carrying a single legacy content such as a
+ * TextProposal.
+ */
+export function encodeMsgSubmitProposalV1beta1(params: {
+  content: EncodedMessage;
+  initialDeposit: Coin[];
+  proposer: string;
+}): EncodedMessage {
+  const writer = new ProtobufWriter().message(1, encodeAny(params.content));
+  for (const coin of params.initialDeposit) writer.message(2, encodeCoin(coin));
+  writer.string(3, params.proposer);
+  return { typeUrl: MSG_TYPE_URLS.submitProposalV1beta1, value: writer.finish() };
+}
+
+/**
+ * gov v1 proposal, executing `messages` with the gov module as authority
+ * when it passes. A proposal without messages is a text proposal.
+ */
+export function encodeMsgSubmitProposal(params: {
+  messages: EncodedMessage[];
+  initialDeposit: Coin[];
+  proposer: string;
+  metadata?: string;
+  title: string;
+  summary: string;
+}): EncodedMessage {
+  const writer = new ProtobufWriter();
+  for (const message of params.messages) writer.message(1, encodeAny(message));
+  for (const coin of params.initialDeposit) writer.message(2, encodeCoin(coin));
+  writer
+    .string(3, params.proposer)
+    .string(4, params.metadata)
+    .string(5, params.title)
+    .string(6, params.summary);
+  return { typeUrl: MSG_TYPE_URLS.submitProposal, value: writer.finish() };
+}
+
+export function encodeTextProposal(params: { title: string; description: string }): EncodedMessage {
+  const value = new ProtobufWriter().string(1, params.title).string(2, params.description).finish();
+  return { typeUrl: MSG_TYPE_URLS.textProposal, value };
+}
+
+type JsonEncoder = (json: { [key: string]: any }) => Buffer;
+
+const encodeJsonCoins = (writer: ProtobufWriter, field: number, coins: Coin[] = []) => {
+  for (const coin of coins) writer.message(field, encodeCoin(coin));
+  return writer;
+};
+
+// Proposal payloads, in the snake_case JSON produced by the LCD and Decode Transaction
+const JSON_ENCODERS: Record<string, JsonEncoder> = {
+  [MSG_TYPE_URLS.send]: (json) =>
+    encodeJsonCoins(new ProtobufWriter().string(1, json.from_address).string(2, json.to_address), 3, json.amount).finish(),
+  [MSG_TYPE_URLS.communityPoolSpend]: (json) =>
+    encodeJsonCoins(
+      new ProtobufWriter().string(1, json.authority ?? moduleAddress('gov')).string(2, json.recipient),
+      3,
+      json.amount,
+    ).finish(),
+  [MSG_TYPE_URLS.execLegacyContent]: (json) =>
+    new ProtobufWriter()
+      .message(1, encodeAny(encodeJsonMessage(json.content ?? {})))
+      .string(2, json.authority ?? moduleAddress('gov'))
+      .finish(),
+  [MSG_TYPE_URLS.textProposal]: (json) =>
+    new ProtobufWriter().string(1, json.title).string(2, json.description).finish(),
+  [MSG_TYPE_URLS.communityPoolSpendProposal]: (json) =>
+    encodeJsonCoins(
+      new ProtobufWriter().string(1, json.title).string(2, json.description).string(3, json.recipient),
+      4,
+      json.amount,
+    ).finish(),
+  [MSG_TYPE_URLS.parameterChangeProposal]: (json) => {
+    const writer = new ProtobufWriter().string(1, json.title).string(2, json.description);
+    for (const change of json.changes ?? []) {
+      writer.message(
+        3,
+        new ProtobufWriter()
+          .string(1, change.subspace)
+          .string(2, change.key)
+          // Param values are JSON, e.g. "\"100\"" for a string param
+          .string(3, typeof change.value === 'string' ? change.value : JSON.stringify(change.value))
+          .finish(),
+      );
+    }
+    return writer.finish();
+  },
+};
+
+/**
+ * Encodes a message given as JSON with an `@type`, e.g. a proposal message.
+ * Types without a JSON encoder must be passed pre-encoded as
+ * `{ "typeUrl": "...", "value": "<base64 protobuf>" }`. The `authority` of
+ * messages executed by governance defaults to the gov module account.
+ */
+export function encodeJsonMessage(json: { [key: string]: any }): EncodedMessage {
+  if (json.typeUrl && typeof json.value === 'string') {
+    return { typeUrl: json.typeUrl, value: Buffer.from(json.value, 'base64') };
+  }
+  const typeUrl = json['@type'];
+  const encoder = JSON_ENCODERS[typeUrl];
+  if (!encoder) {
+    throw new Error(
+      `Cannot encode "${typeUrl ?? 'a message without @type'}" from JSON, pass it as {"typeUrl": "...", "value": "<base64>"} instead`,
+    );
+  }
+  return { typeUrl, value: encoder(json) };
+}
+
+/**
+ * `msg` must already be encrypted for the enclave (see Encryption.ts).
+ */
+export function encodeMsgExecuteContract(params: {
+  sender: string;
+  contract: string;
+  msg: Uint8Array;
+  sentFunds?: Coin[];
+}): EncodedMessage {
+  const writer = new ProtobufWriter()
+    .bytes(1, addressToBytes(params.sender))
+    .bytes(2, addressToBytes(params.contract))
+    .bytes(3, params.msg);
+  for (const coin of params.sentFunds ?? []) writer.message(5, encodeCoin(coin));
+  return { typeUrl: MSG_TYPE_URLS.executeContract, value: writer.finish() };
+}
+
+/**
+ * `initMsg` must already be encrypted for the enclave (see Encryption.ts).
+ */
+export function encodeMsgInstantiateContract(params: {
+  sender: string;
+  codeId: number | string;
+  label: string;
+  initMsg: Uint8Array;
+  initFunds?: Coin[];
+  admin?: string;
+}): EncodedMessage {
+  const writer = new ProtobufWriter()
+    .bytes(1, addressToBytes(params.sender))
+    .uint64(3, params.codeId)
+    .string(4, params.label)
+    .bytes(5, params.initMsg);
+  for (const coin of params.initFunds ?? []) writer.message(6, encodeCoin(coin));
+  writer.string(8, params.admin);
+  return { typeUrl: MSG_TYPE_URLS.instantiateContract, value: writer.finish() };
+}
+
+export function encodeMsgStoreCode(params: {
+  sender: string;
+  wasmByteCode: Uint8Array;
+  source?: string;
+  builder?: string;
+}): EncodedMessage {
+  // The chain accepts gzipped byte code, which keeps the tx well below block size limits
+  const isGzipped = params.wasmByteCode[0] === 0x1f && params.wasmByteCode[1] === 0x8b;
+  const wasm = isGzipped ? params.wasmByteCode : gzipSync(params.wasmByteCode, { level: 9 });
+  const value = new ProtobufWriter()
+    .bytes(1, addressToBytes(params.sender))
+    .bytes(2, wasm)
+    .string(3, params.source)
+    .string(4, params.builder)
+    .finish();
+  return { typeUrl: MSG_TYPE_URLS.storeCode, value };
+}
+
+export function encodeMsgTransfer(params: {
+  sourcePort: string;
+  sourceChannel: string;
+  token: Coin;
+  sender: string;
+  receiver: string;
+  timeoutHeight?: { revisionNumber: number | string; revisionHeight: number | string };
+  timeoutTimestamp?: number | string;
+  memo?: string;
+}): EncodedMessage {
+  const writer = new ProtobufWriter()
+    .string(1, params.sourcePort)
+    .string(2, params.sourceChannel)
+    .message(3, encodeCoin(params.token))
+    .string(4, params.sender)
+    .string(5, params.receiver);
+  if (params.timeoutHeight) {
+    writer.message(
+      6,
+      new ProtobufWriter()
+        .uint64(1, params.timeoutHeight.revisionNumber)
+        .uint64(2, params.timeoutHeight.revisionHeight)
+        .finish(),
+    );
+  }
+  writer.uint64(7, params.timeoutTimestamp).string(8, params.memo);
+  return { typeUrl: MSG_TYPE_URLS.ibcTransfer, value: writer.finish() };
+}
+
+export function encodeMsgUpdateClient(params: {
+  clientId: string;
+  clientMessage: EncodedMessage;
+  signer: string;
+}): EncodedMessage {
+  const value = new ProtobufWriter()
+    .string(1, params.clientId)
+    .message(2, encodeAny(params.clientMessage))
+    .string(3, params.signer)
+    .finish();
+  return { typeUrl: MSG_TYPE_URLS.updateClient, value };
+}
+
+/**
+ * Returns the nonce an encrypted compute message was sealed with, which is
+ * needed again to decrypt the contract's response.
+ */
+export function getContractMsgNonce(message: EncodedMessage): Buffer | undefined {
+  let field: number;
+  if (message.typeUrl === MSG_TYPE_URLS.executeContract) field = 3;
+  else if (message.typeUrl === MSG_TYPE_URLS.instantiateContract) field = 5;
+  else return undefined;
+  const encrypted = new ProtobufReader(message.value).bytes(field);
+  return encrypted && encrypted.length >= 64 ? encrypted.subarray(0, 32) : undefined;
+}
+
+// ============================================================
+// Transaction assembly and signing
+// ============================================================
+
+export function encodeTxBody(messages: EncodedMessage[], memo?: string): Buffer {
+  const writer = new ProtobufWriter();
+  for (const message of messages) writer.message(1, encodeAny(message));
+  return writer.string(2, memo).finish();
+}
+
+export function encodeAuthInfo(publicKey: Uint8Array, sequence: number | string, fee: TxFee): Buffer {
+  const pubKeyAny = encodeAny({
+    typeUrl: SECP256K1_PUBKEY_TYPE_URL,
+    value: new ProtobufWriter().bytes(1, publicKey).finish(),
+  });
+  const modeInfo = new ProtobufWriter()
+    .message(1, new ProtobufWriter().uint64(1, SIGN_MODE_DIRECT).finish())
+    .finish();
+  const signerInfo = new ProtobufWriter()
+    .message(1, pubKeyAny)
+    .message(2, modeInfo)
+    .uint64(3, sequence)
+    .finish();
+
+  const feeWriter = new ProtobufWriter();
+  for (const coin of fee.amount) feeWriter.message(1, encodeCoin(coin));
+  feeWriter.uint64(2, fee.gasLimit);
+
+  return new ProtobufWriter().message(1, signerInfo).message(2, feeWriter.finish()).finish();
+}
+
+export function encodeSignDoc(
+  bodyBytes: Uint8Array,
+  authInfoBytes: Uint8Array,
+  chainId: string,
+  accountNumber: number | string,
+): Buffer {
+  return new ProtobufWriter()
+    .bytes(1, bodyBytes)
+    .bytes(2, authInfoBytes)
+    .string(3, chainId)
+    .uint64(4, accountNumber)
+    .finish();
+}
+
+export function encodeTxRaw(
+  bodyBytes: Uint8Array,
+  authInfoBytes: Uint8Array,
+  signatures: Uint8Array[],
+): Buffer {
+  const writer = new ProtobufWriter().bytes(1, bodyBytes).bytes(2, authInfoBytes);
+  for (const signature of signatures) writer.message(3, signature);
+  return writer.finish();
+}
+
+/**
+ * Builds TxBody and AuthInfo for a single signer, signs them with
+ * SIGN_MODE_DIRECT and returns the TxRaw bytes ready for broadcasting.
+ */
+export function signTransaction(wallet: SecretWallet, tx: UnsignedTx): SignedTx {
+  const bodyBytes = encodeTxBody(tx.messages, tx.memo);
+  const authInfoBytes = encodeAuthInfo(wallet.publicKey, tx.sequence, tx.fee);
+  const signDoc = encodeSignDoc(bodyBytes, authInfoBytes, tx.chainId, tx.accountNumber);
+  const signature = signDirect(wallet, signDoc);
+  const txBytes = encodeTxRaw(bodyBytes, authInfoBytes, [signature]);
+  return { txBytes, txHash: computeTxHash(txBytes) };
+}
+
+/**
+ * Builds an unsigned TxRaw for `/cosmos/tx/v1beta1/simulate`. Signatures
+ * are not verified when simulating, but the signer info and an (empty)
+ * signature entry must be present for the ante handler to charge for them.
+ */
+export function encodeSimulationTx(
+  publicKey: Uint8Array,
+  messages: EncodedMessage[],
+  sequence: number | string,
+  memo?: string,
+): Buffer {
+  const bodyBytes = encodeTxBody(messages, memo);
+  const authInfoBytes = encodeAuthInfo(publicKey, sequence, { amount: [], gasLimit: 0 });
+  return encodeTxRaw(bodyBytes, authInfoBytes, [Buffer.alloc(0)]);
+}
+
+export function computeTxHash(txBytes: Uint8Array): string {
+  return createHash('sha256').update(txBytes).digest('hex').toUpperCase();
+}
+
+/**
+ * Splits a gas price such as "0.25uscrt" into its amount and denom.
+ */
+export function parseGasPrice(gasPrice: string): { amount: number; denom: string } {
+  const match = /^\s*(\d+(?:\.\d+)?)\s*([a-zA-Z][a-zA-Z0-9/:._-]*)\s*$/.exec(gasPrice);
+  if (!match) {
+    throw new Error(`Invalid gas price "${gasPrice}", expected a value such as 0.25uscrt`);
+  }
+  return { amount: parseFloat(match[1]), denom: match[2] };
+}
+
+/**
+ * Derives the fee for a gas limit from a gas price such as "0.25uscrt".
+ */
+export function calculateFee(gasLimit: number, gasPrice: string): TxFee {
+  const { amount, denom } = parseGasPrice(gasPrice);
+  return { amount: [{ denom, amount: Math.ceil(gasLimit * amount).toString() }], gasLimit };
+}
@@ -0,0 +1,390 @@
+/**
+ * Copyright (c) 2026 Velocity BPA
+ *
+ * Licensed under the Business Source License 1.1 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://github.com/VelocityBPA/n8n-nodes-secretnetwork/blob/main/LICENSE
+ *
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { createHash } from 'crypto';
+import { Buffer } from 'buffer';
+
+import { ProtobufReader } from './Protobuf';
+import { MSG_TYPE_URLS, VOTE_OPTIONS, computeTxHash } from './Transaction';
+import { bytesToAddress, publicKeyToAddress } from './Wallet';
+
+/** JSON shaped like the LCD's representation of a tx (snake_case, uint64 as strings). */
+export type DecodedObject = { [key: string]: any };
+
+type MessageDecoder = (reader: ProtobufReader) => DecodedObject;
+
+const EMPTY = new ProtobufReader(Buffer.alloc(0));
+
+const SECP256K1_PUBKEY_TYPE_URL = '/cosmos.crypto.secp256k1.PubKey';
+
+// ============================================================
+// Message decoders
+// ============================================================
+
+function decodeCoin(reader: ProtobufReader): DecodedObject {
+  return { denom: reader.string(1), amount: reader.string(2) };
+}
+
+function decodeCoins(reader: ProtobufReader, field: number): DecodedObject[] {
+  return reader.repeatedMessages(field).map(decodeCoin);
+}
+
+function decodeAddressBytes(bytes: Buffer | undefined): string {
+  return bytes && bytes.length ? bytesToAddress(bytes) : '';
+}
+
+/**
+ * Compute messages are encrypted for the enclave, so only their envelope
+ * (nonce and the sender's encryption public key) can be shown.
+ */
+function decodeEncryptedMsg(bytes: Buffer | undefined): DecodedObject {
+  const msg = bytes ?? Buffer.alloc(0);
+  if (msg.length < 64) {
+    return { encrypted: false, value: msg.toString('base64') };
+  }
+  return {
+    encrypted: true,
+    nonce: msg.subarray(0, 32).toString('base64'),
+    encryption_pubkey: msg.subarray(32, 64).toString('base64'),
+    ciphertext: msg.subarray(64).toString('base64'),
+  };
+}
+
+/**
+ * `cosmos.Dec` fields with a gogoproto customtype are sent as the integer
+ * scaled by 10^18, e.g. "100000000000000000" for 0.1.
+ */
+function decodeLegacyDec(value: string): string {
+  if (!/^\d+$/.test(value)) return value;
+  const digits = value.padStart(19, '0');
+  return `${digits.slice(0, -18)}.${digits.slice(-18)}`;
+}
+
+function decodeVoteOption(value: string): string {
+  return VOTE_OPTIONS[Number(value)] ?? value;
+}
+
+function decodeDescription(reader: ProtobufReader | undefined): DecodedObject {
+  return {
+    moniker: reader?.string(1) ?? '',
+    identity: reader?.string(2) ?? '',
+    website: reader?.string(3) ?? '',
+    security_contact: reader?.string(4) ?? '',
+    details: reader?.string(5) ?? '',
+  };
+}
+
+function decodePublicKey(reader: ProtobufReader | undefined): DecodedObject | null {
+  if (!reader) return null;
+  return {
+    '@type': reader.string(1),
+    key: (reader.message(2)?.bytes(1) ?? Buffer.alloc(0)).toString('base64'),
+  };
+}
+
+const decodeDelegation: MessageDecoder = (r) => ({
+  delegator_address: r.string(1),
+  validator_address: r.string(2),
+  amount: decodeCoin(r.message(3) ?? EMPTY),
+});
+
+const decodeDeposit: MessageDecoder = (r) => ({
+  proposal_id: r.uint64(1),
+  depositor: r.string(2),
+  amount: decodeCoins(r, 3),
+});
+
+const MESSAGE_DECODERS: Record<string, MessageDecoder> = {
+  // Bank
+  [MSG_TYPE_URLS.send]: (r) => ({
+    from_address: r.string(1),
+    to_address: r.string(2),
+    amount: decodeCoins(r, 3),
+  }),
+  [MSG_TYPE_URLS.multiSend]: (r) => ({
+    inputs: r.repeatedMessages(1).map((io) => ({ address: io.string(1), coins: decodeCoins(io, 2) })),
+    outputs: r.repeatedMessages(2).map((io) => ({ address: io.string(1), coins: decodeCoins(io, 2) })),
+  }),
+
+  // Staking
+  [MSG_TYPE_URLS.delegate]: decodeDelegation,
+  [MSG_TYPE_URLS.undelegate]: decodeDelegation,
+  [MSG_TYPE_URLS.beginRedelegate]: (r) => ({
+    delegator_address: r.string(1),
+    validator_src_address: r.string(2),
+    validator_dst_address: r.string(3),
+    amount: decodeCoin(r.message(4) ?? EMPTY),
+  }),
+  [MSG_TYPE_URLS.cancelUnbondingDelegation]: (r) => ({
+    ...decodeDelegation(r),
+    creation_height: r.uint64(4),
+  }),
+  [MSG_TYPE_URLS.createValidator]: (r) => {
+    const commission = r.message(2);
+    return {
+      description: decodeDescription(r.message(1)),
+      commission: {
+        rate: decodeLegacyDec(commission?.string(1) ?? ''),
+        max_rate: decodeLegacyDec(commission?.string(2) ?? ''),
+        max_change_rate: decodeLegacyDec(commission?.string(3) ?? ''),
+      },
+      min_self_delegation: r.string(3),
+      delegator_address: r.string(4),
+      validator_address: r.string(5),
+      pubkey: decodePublicKey(r.message(6)),
+      value: decodeCoin(r.message(7) ?? EMPTY),
+    };
+  },
+  [MSG_TYPE_URLS.editValidator]: (r) => ({
+    description: decodeDescription(r.message(1)),
+    validator_address: r.string(2),
+    commission_rate: r.has(3) ? decodeLegacyDec(r.string(3)) : null,
+    min_self_delegation: r.has(4) ? r.string(4) : null,
+  }),
+
+  // Distribution
+  [MSG_TYPE_URLS.withdrawDelegatorReward]: (r) => ({
+    delegator_address: r.string(1),
+    validator_address: r.string(2),
+  }),
+  [MSG_TYPE_URLS.withdrawValidatorCommission]: (r) => ({
+    validator_address: r.string(1),
+  }),
+  [MSG_TYPE_URLS.setWithdrawAddress]: (r) => ({
+    delegator_address: r.string(1),
+    withdraw_address: r.string(2),
+  }),
+  [MSG_TYPE_URLS.fundCommunityPool]: (r) => ({
+    amount: decodeCoins(r, 1),
+    depositor: r.string(2),
+  }),
+  [MSG_TYPE_URLS.communityPoolSpend]: (r) => ({
+    authority: r.string(1),
+    recipient: r.string(2),
+    amount: decodeCoins(r, 3),
+  }),
+  [MSG_TYPE_URLS.communityPoolSpendProposal]: (r) => ({
+    title: r.string(1),
+    description: r.string(2),
+    recipient: r.string(3),
+    amount: decodeCoins(r, 4),
+  }),
+  [MSG_TYPE_URLS.parameterChangeProposal]: (r) => ({
+    title: r.string(1),
+    description: r.string(2),
+    changes: r.repeatedMessages(3).map((change) => ({
+      subspace: change.string(1),
+      key: change.string(2),
+      value: change.string(3),
+    })),
+  }),
+
+  // Governance
+  [MSG_TYPE_URLS.textProposal]: (r) => ({
+    title: r.string(1),
+    description: r.string(2),
+  }),
+  [MSG_TYPE_URLS.submitProposalV1beta1]: (r) => ({
+    content: decodeMessage(r.message(1) ?? EMPTY),
+    initial_deposit: decodeCoins(r, 2),
+    proposer: r.string(3),
+  }),
+  [MSG_TYPE_URLS.voteV1beta1]: (r) => ({
+    proposal_id: r.uint64(1),
+    voter: r.string(2),
+    option: decodeVoteOption(r.uint64(3)),
+  }),
+  [MSG_TYPE_URLS.voteWeightedV1beta1]: (r) => ({
+    proposal_id: r.uint64(1),
+    voter: r.string(2),
+    options: r.repeatedMessages(3).map((option) => ({
+      option: decodeVoteOption(option.uint64(1)),
+      weight: decodeLegacyDec(option.string(2)),
+    })),
+  }),
+  [MSG_TYPE_URLS.depositV1beta1]: decodeDeposit,
+  [MSG_TYPE_URLS.submitProposal]: (r) => ({
+    messages: r.repeatedMessages(1).map(decodeMessage),
+    initial_deposit: decodeCoins(r, 2),
+    proposer: r.string(3),
+    metadata: r.string(4),
+    title: r.string(5),
+    summary: r.string(6),
+    expedited: r.bool(7),
+  }),
+  [MSG_TYPE_URLS.vote]: (r) => ({
+    proposal_id: r.uint64(1),
+    voter: r.string(2),
+    option: decodeVoteOption(r.uint64(3)),
+    metadata: r.string(4),
+  }),
+  [MSG_TYPE_URLS.voteWeighted]: (r) => ({
+    proposal_id: r.uint64(1),
+    voter: r.string(2),
+    // gov v1 weights are plain decimal strings
+    options: r.repeatedMessages(3).map((option) => ({
+      option: decodeVoteOption(option.uint64(1)),
+      weight: option.string(2),
+    })),
+    metadata: r.string(4),
+  }),
+  [MSG_TYPE_URLS.deposit]: decodeDeposit,
+  [MSG_TYPE_URLS.execLegacyContent]: (r) => ({
+    content: decodeMessage(r.message(1) ?? EMPTY),
+    authority: r.string(2),
+  }),
+
+  // Secret compute
+  [MSG_TYPE_URLS.executeContract]: (r) => ({
+    sender: decodeAddressBytes(r.bytes(1)),
+    contract: decodeAddressBytes(r.bytes(2)),
+    msg: decodeEncryptedMsg(r.bytes(3)),
+    callback_code_hash: r.string(4),
+    sent_funds: decodeCoins(r, 5),
+  }),
+  [MSG_TYPE_URLS.instantiateContract]: (r) => ({
+    sender: decodeAddressBytes(r.bytes(1)),
+    callback_code_hash: r.string(2),
+    code_id: r.uint64(3),
+    label: r.string(4),
+    init_msg: decodeEncryptedMsg(r.bytes(5)),
+    init_funds: decodeCoins(r, 6),
+    admin: r.string(8),
+  }),
+  [MSG_TYPE_URLS.storeCode]: (r) => {
+    const wasm = r.bytes(2) ?? Buffer.alloc(0);
+    return {
+      sender: decodeAddressBytes(r.bytes(1)),
+      // The byte code itself is too large to be useful in a workflow item
+      wasm_byte_code: {
+        size: wasm.length,
+        sha256: createHash('sha256').update(wasm).digest('hex'),
+      },
+      source: r.string(3),
+      builder: r.string(4),
+    };
+  },
+  [MSG_TYPE_URLS.migrateContract]: (r) => ({
+    sender: r.string(1),
+    contract: r.string(2),
+    code_id: r.uint64(3),
+    msg: decodeEncryptedMsg(r.bytes(4)),
+  }),
+  [MSG_TYPE_URLS.updateAdmin]: (r) => ({
+    sender: r.string(1),
+    new_admin: r.string(2),
+    contract: r.string(3),
+  }),
+  [MSG_TYPE_URLS.clearAdmin]: (r) => ({
+    sender: r.string(1),
+    contract: r.string(3),
+  }),
+
+  // IBC
+  [MSG_TYPE_URLS.ibcTransfer]: (r) => {
+    const timeoutHeight = r.message(6);
+    return {
+      source_port: r.string(1),
+      source_channel: r.string(2),
+      token: decodeCoin(r.message(3) ?? EMPTY),
+      sender: r.string(4),
+      receiver: r.string(5),
+      timeout_height: {
+        revision_number: timeoutHeight?.uint64(1) ?? '0',
+        revision_height: timeoutHeight?.uint64(2) ?? '0',
+      },
+      timeout_timestamp: r.uint64(7),
+      memo: r.string(8),
+    };
+  },
+  [MSG_TYPE_URLS.updateClient]: (r) => ({
+    client_id: r.string(1),
+    client_message: decodeAnyRaw(r.message(2)),
+    signer: r.string(3),
+  }),
+};
+
+function decodeAnyRaw(reader: ProtobufReader | undefined): DecodedObject {
+  return {
+    '@type': reader?.string(1) ?? '',
+    value: (reader?.bytes(2) ?? Buffer.alloc(0)).toString('base64'),
+  };
+}
+
+/**
+ * Decodes a protobuf `Any` holding a tx message. Types without a decoder
+ * are returned with their raw base64 value.
+ */
+export function decodeMessage(reader: ProtobufReader): DecodedObject {
+  const typeUrl = reader.string(1);
+  const decoder = MESSAGE_DECODERS[typeUrl];
+  if (!decoder) {
+    return decodeAnyRaw(reader);
+  }
+  return { '@type': typeUrl, ...decoder(new ProtobufReader(reader.bytes(2) ?? Buffer.alloc(0))) };
+}
+
+// ============================================================
+// Transaction decoding
+// ============================================================
+
+export function decodeTxBody(bytes: Uint8Array): DecodedObject {
+  const reader = new ProtobufReader(bytes);
+  return {
+    messages: reader.repeatedMessages(1).map(decodeMessage),
+    memo: reader.string(2),
+    timeout_height: reader.uint64(3),
+  };
+}
+
+export function decodeAuthInfo(bytes: Uint8Array): DecodedObject {
+  const reader = new ProtobufReader(bytes);
+  const fee = reader.message(2);
+  return {
+    signer_infos: reader.repeatedMessages(1).map((signerInfo) => {
+      const single = signerInfo.message(2)?.message(1);
+      return {
+        public_key: decodePublicKey(signerInfo.message(1)),
+        mode_info: { single: { mode: single?.uint64(1) ?? '0' } },
+        sequence: signerInfo.uint64(3),
+      };
+    }),
+    fee: {
+      amount: fee ? decodeCoins(fee, 1) : [],
+      gas_limit: fee?.uint64(2) ?? '0',
+      payer: fee?.string(3) ?? '',
+      granter: fee?.string(4) ?? '',
+    },
+  };
+}
+
+/**
+ * Decodes TxRaw bytes into their body, auth info and signatures, along
+ * with the hash the chain will index the tx under and the addresses of the
+ * signers, recovered from their secp256k1 public keys.
+ */
+export function decodeTxRaw(txBytes: Uint8Array): DecodedObject {
+  const reader = new ProtobufReader(txBytes);
+  const authInfo = decodeAuthInfo(reader.bytes(2) ?? Buffer.alloc(0));
+  return {
+    txhash: computeTxHash(txBytes),
+    body: decodeTxBody(reader.bytes(1) ?? Buffer.alloc(0)),
+    auth_info: authInfo,
+    signatures: reader.repeatedBytes(3).map((signature) => signature.toString('base64')),
+    signers: authInfo.signer_infos.map((signerInfo: DecodedObject) =>
+      signerInfo.public_key?.['@type'] === SECP256K1_PUBKEY_TYPE_URL
+        ? publicKeyToAddress(Buffer.from(signerInfo.public_key.key, 'base64'))
+        : null,
+    ),
+  };
+}
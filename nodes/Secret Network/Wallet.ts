@@ -0,0 +1,190 @@
+/**
+ * Copyright (c) 2026 Velocity BPA
+ *
+ * Licensed under the Business Source License 1.1 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://github.com/VelocityBPA/n8n-nodes-secretnetwork/blob/main/LICENSE
+ *
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { createHash, createHmac } from 'crypto';
+import { bech32 } from 'bech32';
+import * as bip39 from 'bip39';
+import * as secp256k1 from 'secp256k1';
+import { Buffer } from 'buffer';
+
+export const SECRET_BECH32_PREFIX = 'secret';
+export const SECRET_VALOPER_PREFIX = 'secretvaloper';
+export const SECRET_VALCONS_PREFIX = 'secretvalcons';
+
+// Secret Network's registered SLIP-44 coin type is 529
+export const DEFAULT_DERIVATION_PATH = "m/44'/529'/0'/0/0";
+
+const HARDENED_OFFSET = 0x80000000;
+
+export interface SecretWallet {
+  privateKey: Buffer;
+  publicKey: Buffer;
+  address: string;
+}
+
+/**
+ * Builds a signing wallet from a hex encoded secp256k1 private key
+ * (with or without a 0x prefix).
+ */
+export function walletFromPrivateKey(privateKey: string): SecretWallet {
+  const hex = privateKey.trim().replace(/^0x/i, '');
+  const key = Buffer.from(hex, 'hex');
+  if (!/^[0-9a-fA-F]{64}$/.test(hex) || !secp256k1.privateKeyVerify(key)) {
+    throw new Error('Private key must be a valid 32-byte hex encoded secp256k1 key');
+  }
+  return walletFromKeyBytes(key);
+}
+
+export interface MnemonicOptions {
+  passphrase?: string;
+  derivationPath?: string;
+  accountIndex?: number;
+}
+
+/**
+ * Builds a signing wallet from a BIP-39 mnemonic, as exported by Keplr or
+ * `secretcli keys export`. The account index is added to the last (address
+ * index) segment of the derivation path.
+ */
+export function walletFromMnemonic(mnemonic: string, options: MnemonicOptions = {}): SecretWallet {
+  const words = mnemonic.trim().split(/\s+/).join(' ');
+  if (!bip39.validateMnemonic(words)) {
+    throw new Error('Mnemonic is not a valid BIP-39 phrase');
+  }
+  const seed = bip39.mnemonicToSeedSync(words, options.passphrase ?? '');
+  const path = applyAccountIndex(options.derivationPath || DEFAULT_DERIVATION_PATH, options.accountIndex ?? 0);
+  return walletFromKeyBytes(derivePrivateKey(seed, path));
+}
+
+/**
+ * BIP-32 private key derivation along a path such as m/44'/529'/0'/0/0.
+ */
+export function derivePrivateKey(seed: Uint8Array, path: string): Buffer {
+  const segments = parseDerivationPath(path);
+  let node = createHmac('sha512', 'Bitcoin seed').update(seed).digest();
+  let key = node.subarray(0, 32);
+  let chainCode = node.subarray(32);
+
+  for (const index of segments) {
+    const data = Buffer.alloc(37);
+    if (index >= HARDENED_OFFSET) {
+      key.copy(data, 1);
+    } else {
+      Buffer.from(secp256k1.publicKeyCreate(key, true)).copy(data);
+    }
+    data.writeUInt32BE(index, 33);
+
+    node = createHmac('sha512', chainCode).update(data).digest();
+    // privateKeyTweakAdd throws when IL >= n or the child key is zero (invalid per BIP-32)
+    key = Buffer.from(secp256k1.privateKeyTweakAdd(Buffer.from(key), node.subarray(0, 32)));
+    chainCode = node.subarray(32);
+  }
+
+  return Buffer.from(key);
+}
+
+export function applyAccountIndex(path: string, accountIndex: number): string {
+  if (!accountIndex) return path;
+  const segments = path.split('/');
+  const last = segments.pop() as string;
+  const hardened = last.endsWith("'");
+  segments.push(`${parseInt(last, 10) + accountIndex}${hardened ? "'" : ''}`);
+  return segments.join('/');
+}
+
+function parseDerivationPath(path: string): number[] {
+  if (!/^m(\/\d+'?)*$/.test(path.trim())) {
+    throw new Error(`Invalid derivation path "${path}", expected e.g. ${DEFAULT_DERIVATION_PATH}`);
+  }
+  return path
+    .trim()
+    .split('/')
+    .slice(1)
+    .map((segment) => {
+      const index = parseInt(segment, 10);
+      if (index >= HARDENED_OFFSET) {
+        throw new Error(`Derivation path index ${index} is out of range`);
+      }
+      return segment.endsWith("'") ? index + HARDENED_OFFSET : index;
+    });
+}
+
+function walletFromKeyBytes(key: Buffer): SecretWallet {
+  const publicKey = Buffer.from(secp256k1.publicKeyCreate(key, true));
+  return {
+    privateKey: key,
+    publicKey,
+    address: publicKeyToAddress(publicKey),
+  };
+}
+
+export function publicKeyToAddress(publicKey: Uint8Array, prefix = SECRET_BECH32_PREFIX): string {
+  const sha = createHash('sha256').update(publicKey).digest();
+  const hash = createHash('ripemd160').update(sha).digest();
+  return bytesToAddress(hash, prefix);
+}
+
+export function bytesToAddress(bytes: Uint8Array, prefix = SECRET_BECH32_PREFIX): string {
+  return bech32.encode(prefix, bech32.toWords(bytes));
+}
+
+/**
+ * Re-encodes an address with another bech32 prefix, e.g. an account
+ * address as the operator address of its validator.
+ */
+export function convertAddressPrefix(address: string, prefix: string): string {
+  return bytesToAddress(addressToBytes(address), prefix);
+}
+
+/**
+ * Derives the consensus address of a validator from the consensus pubkey
+ * returned by the staking module, as used by the slashing module.
+ */
+export function consensusPubkeyToAddress(
+  pubkey: { '@type'?: string; key: string },
+  prefix = SECRET_VALCONS_PREFIX,
+): string {
+  const key = Buffer.from(pubkey.key, 'base64');
+  if (pubkey['@type'] === '/cosmos.crypto.secp256k1.PubKey') {
+    return publicKeyToAddress(key, prefix);
+  }
+  // ed25519 (the CometBFT default) addresses are the truncated SHA-256 of the key
+  return bytesToAddress(createHash('sha256').update(key).digest().subarray(0, 20), prefix);
+}
+
+/**
+ * Address of a module account such as `gov`, the authority of messages
+ * executed by passed proposals.
+ */
+export function moduleAddress(name: string, prefix = SECRET_BECH32_PREFIX): string {
+  return bytesToAddress(createHash('sha256').update(name).digest().subarray(0, 20), prefix);
+}
+
+/**
+ * Decodes a bech32 address to its canonical bytes, as expected by the
+ * `sender`/`contract` fields of Secret compute messages.
+ */
+export function addressToBytes(address: string): Buffer {
+  const { words } = bech32.decode(address);
+  return Buffer.from(bech32.fromWords(words));
+}
+
+/**
+ * Produces a 64-byte compact (r || s) signature over the SHA-256 of the
+ * given sign bytes, as required by SIGN_MODE_DIRECT.
+ */
+export function signDirect(wallet: SecretWallet, signBytes: Uint8Array): Buffer {
+  const digest = createHash('sha256').update(signBytes).digest();
+  const { signature } = secp256k1.ecdsaSign(digest, wallet.privateKey);
+  return Buffer.from(signature);
+}
@@ -0,0 +1,245 @@
+/**
+ * Copyright (c) 2026 Velocity BPA
+ *
+ * Licensed under the Business Source License 1.1 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://github.com/VelocityBPA/n8n-nodes-secretnetwork/blob/main/LICENSE
+ *
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { EventEmitter } from 'events';
+import * as http from 'http';
+import * as https from 'https';
+import { Socket } from 'net';
+import { Buffer } from 'buffer';
+
+// Appended to the client key to compute Sec-WebSocket-Accept (RFC 6455 §1.3)
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_TEXT = 0x1;
+const OPCODE_BINARY = 0x2;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+export interface WebSocketOptions {
+  headers?: Record<string, string>;
+  /** Milliseconds to wait for the upgrade response. */
+  handshakeTimeout?: number;
+  /**
+   * Milliseconds without any frame (including pings) after which the
+   * connection is considered dead and closed.
+   */
+  idleTimeout?: number;
+}
+
+/**
+ * Opens a WebSocket (`ws://` or `wss://`) connection. Only what a JSON-RPC
+ * subscription needs is supported: text messages, fragmentation, pings and
+ * the closing handshake, without extensions or subprotocols.
+ */
+export function connectWebSocket(url: string, options: WebSocketOptions = {}): Promise<WebSocketConnection> {
+  const target = new URL(url);
+  const secure = target.protocol === 'wss:' || target.protocol === 'https:';
+  const key = randomBytes(16).toString('base64');
+
+  return new Promise((resolve, reject) => {
+    const request = (secure ? https : http).request({
+      hostname: target.hostname,
+      port: target.port || (secure ? 443 : 80),
+      path: `${target.pathname}${target.search}`,
+      headers: {
+        ...options.headers,
+        Connection: 'Upgrade',
+        Upgrade: 'websocket',
+        'Sec-WebSocket-Key': key,
+        'Sec-WebSocket-Version': '13',
+      },
+    });
+    const timer = setTimeout(
+      () => request.destroy(new Error(`WebSocket handshake with ${target.host} timed out`)),
+      options.handshakeTimeout ?? 10000,
+    );
+
+    request.once('upgrade', (response, socket: Socket, head: Buffer) => {
+      clearTimeout(timer);
+      const accept = createHash('sha1').update(`${key}${HANDSHAKE_GUID}`).digest('base64');
+      if (response.headers['sec-websocket-accept'] !== accept) {
+        socket.destroy();
+        reject(new Error('Invalid WebSocket handshake response'));
+        return;
+      }
+      resolve(new WebSocketConnection(socket, head, options.idleTimeout));
+    });
+    request.once('response', (response) => {
+      clearTimeout(timer);
+      response.resume();
+      reject(new Error(`WebSocket handshake failed with HTTP ${response.statusCode}`));
+    });
+    request.once('error', (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    request.end();
+  });
+}
+
+/**
+ * An open client connection. Emits `message` with the text of each
+ * complete message and `close` once, with an error when the connection was
+ * not closed cleanly.
+ */
+export class WebSocketConnection extends EventEmitter {
+  private buffer: Buffer = Buffer.alloc(0);
+  private fragments: Buffer[] = [];
+  private closing = false;
+  private closed = false;
+
+  constructor(private readonly socket: Socket, head: Buffer, idleTimeout?: number) {
+    super();
+    socket.setNoDelay(true);
+    socket.on('data', (chunk: Buffer) => this.receive(chunk));
+    socket.on('error', (error) => this.finish(error));
+    socket.on('close', () =>
+      this.finish(this.closing ? undefined : new Error('WebSocket connection closed unexpectedly')),
+    );
+    if (idleTimeout) {
+      socket.setTimeout(idleTimeout, () =>
+        this.terminate(new Error(`WebSocket connection idle for ${idleTimeout / 1000} seconds`)),
+      );
+    }
+    if (head.length) this.receive(head);
+  }
+
+  get isOpen(): boolean {
+    return !this.closing && !this.closed;
+  }
+
+  send(text: string): void {
+    if (!this.isOpen) throw new Error('WebSocket connection is not open');
+    this.writeFrame(OPCODE_TEXT, Buffer.from(text, 'utf8'));
+  }
+
+  /**
+   * Starts the closing handshake. The socket is dropped if the server
+   * doesn't complete it within a second.
+   */
+  close(code = 1000): void {
+    if (!this.isOpen) return;
+    this.closing = true;
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code, 0);
+    this.writeFrame(OPCODE_CLOSE, payload);
+    this.socket.end();
+    setTimeout(() => this.socket.destroy(), 1000).unref();
+  }
+
+  /**
+   * Drops the connection without a closing handshake.
+   */
+  terminate(error?: Error): void {
+    this.socket.destroy();
+    this.finish(error);
+  }
+
+  private receive(chunk: Buffer): void {
+    this.buffer = this.buffer.length ? Buffer.concat([this.buffer, chunk]) : chunk;
+
+    while (this.buffer.length >= 2) {
+      const buffer = this.buffer;
+      let length = buffer[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (buffer.length < 4) return;
+        length = buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (buffer.length < 10) return;
+        length = buffer.readUInt32BE(2) * 2 ** 32 + buffer.readUInt32BE(6);
+        offset = 10;
+      }
+      const masked = (buffer[1] & 0x80) !== 0;
+      const payloadOffset = offset + (masked ? 4 : 0);
+      if (buffer.length < payloadOffset + length) return;
+
+      let payload: Buffer = buffer.subarray(payloadOffset, payloadOffset + length);
+      if (masked) {
+        // Servers must not mask frames, but unmasking costs nothing
+        payload = maskPayload(payload, buffer.subarray(offset, offset + 4));
+      }
+      this.buffer = buffer.subarray(payloadOffset + length);
+      this.handleFrame((buffer[0] & 0x80) !== 0, buffer[0] & 0x0f, payload);
+    }
+  }
+
+  private handleFrame(fin: boolean, opcode: number, payload: Buffer): void {
+    switch (opcode) {
+      case OPCODE_CONTINUATION:
+      case OPCODE_TEXT:
+      case OPCODE_BINARY:
+        this.fragments.push(payload);
+        if (fin) {
+          const message = Buffer.concat(this.fragments).toString('utf8');
+          this.fragments = [];
+          this.emit('message', message);
+        }
+        break;
+      case OPCODE_CLOSE:
+        if (!this.closing) {
+          // Echo the close frame to complete the handshake
+          this.closing = true;
+          this.writeFrame(OPCODE_CLOSE, payload.subarray(0, 2));
+          this.socket.end();
+        }
+        break;
+      case OPCODE_PING:
+        if (this.isOpen) this.writeFrame(OPCODE_PONG, payload);
+        break;
+      case OPCODE_PONG:
+        break;
+      default:
+        this.terminate(new Error(`Unsupported WebSocket opcode ${opcode}`));
+    }
+  }
+
+  private writeFrame(opcode: number, payload: Buffer): void {
+    let header: Buffer;
+    if (payload.length < 126) {
+      header = Buffer.from([0x80 | opcode, 0x80 | payload.length]);
+    } else if (payload.length < 0x10000) {
+      header = Buffer.alloc(4);
+      header[0] = 0x80 | opcode;
+      header[1] = 0x80 | 126;
+      header.writeUInt16BE(payload.length, 2);
+    } else {
+      header = Buffer.alloc(10);
+      header[0] = 0x80 | opcode;
+      header[1] = 0x80 | 127;
+      header.writeUInt32BE(Math.floor(payload.length / 2 ** 32), 2);
+      header.writeUInt32BE(payload.length >>> 0, 6);
+    }
+    // Client frames are always masked (RFC 6455 §5.3)
+    const mask = randomBytes(4);
+    this.socket.write(Buffer.concat([header, mask, maskPayload(payload, mask)]));
+  }
+
+  private finish(error?: Error): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.emit('close', error);
+  }
+}
+
+function maskPayload(payload: Buffer, mask: Buffer): Buffer {
+  const result = Buffer.alloc(payload.length);
+  for (let i = 0; i < payload.length; i++) {
+    result[i] = payload[i] ^ mask[i % 4];
+  }
+  return result;
+}
@@ -0,0 +1,150 @@
+/**
+ * Copyright (c) 2026 Velocity BPA
+ * Licensed under the Business Source License 1.1
+ */
+
+import {
+  aesSivDecrypt,
+  aesSivEncrypt,
+  computeTxEncryptionKey,
+  decryptContractResult,
+  decryptTxResponse,
+  encryptContractMsg,
+  encryptionKeyPairFromSeed,
+  encryptionKeyPairFromSigningKey,
+  extractNonces,
+} from '../nodes/Secret Network/Encryption';
+import { ProtobufWriter } from '../nodes/Secret Network/Protobuf';
+
+describe('AES-SIV', () => {
+  it('should match the RFC 5297 deterministic test vector', () => {
+    const key = Buffer.from(
+      'fffefdfcfbfaf9f8f7f6f5f4f3f2f1f0f0f1f2f3f4f5f6f7f8f9fafbfcfdfeff',
+      'hex',
+    );
+    const ad = Buffer.from('101112131415161718191a1b1c1d1e1f2021222324252627', 'hex');
+    const plaintext = Buffer.from('112233445566778899aabbccddee', 'hex');
+
+    expect(aesSivEncrypt(key, plaintext, [ad]).toString('hex')).toBe(
+      '85632d07c6e8f37f950acd320a2ecc9340c02b9690c4dc04daef7f6afe5c',
+    );
+  });
+
+  it('should decrypt and authenticate the ciphertext', () => {
+    const key = Buffer.alloc(32, 5);
+    const sealed = aesSivEncrypt(key, Buffer.from('hello enclave'), [Buffer.alloc(0)]);
+
+    expect(aesSivDecrypt(key, sealed, [Buffer.alloc(0)]).toString()).toBe('hello enclave');
+    sealed[sealed.length - 1] ^= 1;
+    expect(() => aesSivDecrypt(key, sealed, [Buffer.alloc(0)])).toThrow('authentication failed');
+  });
+});
+
+describe('Contract message encryption', () => {
+  const enclave = encryptionKeyPairFromSeed(Buffer.alloc(32, 7));
+
+  it('should derive a deterministic key pair from the signing key', () => {
+    const first = encryptionKeyPairFromSigningKey(Buffer.alloc(32, 1));
+    const second = encryptionKeyPairFromSigningKey(Buffer.alloc(32, 1));
+    expect(first.publicKey).toHaveLength(32);
+    expect(first.publicKey.equals(second.publicKey)).toBe(true);
+  });
+
+  it('should agree on the tx encryption key with the enclave', () => {
+    const user = encryptionKeyPairFromSeed(Buffer.alloc(32, 3));
+    const nonce = Buffer.alloc(32, 9);
+    expect(
+      computeTxEncryptionKey(user, enclave.publicKey, nonce).equals(
+        computeTxEncryptionKey(enclave, user.publicKey, nonce),
+      ),
+    ).toBe(true);
+  });
+
+  it('should prefix the ciphertext with nonce and public key', () => {
+    const user = encryptionKeyPairFromSeed(Buffer.alloc(32, 3));
+    const nonce = Buffer.alloc(32, 9);
+    const codeHash = 'ab'.repeat(32);
+    const encrypted = encryptContractMsg(user, enclave.publicKey, codeHash, { a: 1 }, nonce);
+
+    expect(encrypted.subarray(0, 32).equals(nonce)).toBe(true);
+    expect(encrypted.subarray(32, 64).equals(user.publicKey)).toBe(true);
+    // SIV tag (16 bytes) followed by the ciphertext of code hash + JSON
+    expect(encrypted.length - 64).toBe(16 + codeHash.length + '{"a":1}'.length);
+  });
+
+  it('should let the enclave decrypt the message it received', () => {
+    const user = encryptionKeyPairFromSeed(Buffer.alloc(32, 3));
+    const encrypted = encryptContractMsg(user, enclave.publicKey, 'ab'.repeat(32), { a: 1 });
+    const nonce = encrypted.subarray(0, 32);
+    const senderPubKey = encrypted.subarray(32, 64);
+
+    const plaintext = decryptContractResult(enclave, senderPubKey, nonce, encrypted.subarray(64));
+    expect(plaintext.toString()).toBe('ab'.repeat(32) + '{"a":1}');
+  });
+});
+
+describe('Transaction result decryption', () => {
+  const enclave = encryptionKeyPairFromSeed(Buffer.alloc(32, 7));
+  const user = encryptionKeyPairFromSeed(Buffer.alloc(32, 3));
+  const encryptedMsg = encryptContractMsg(user, enclave.publicKey, 'ab'.repeat(32), { swap: {} });
+  const nonce = encryptedMsg.subarray(0, 32);
+  const enclaveKey = computeTxEncryptionKey(enclave, user.publicKey, nonce);
+  const seal = (plaintext: string) => aesSivEncrypt(enclaveKey, Buffer.from(plaintext), [Buffer.alloc(0)]);
+
+  const messages = [
+    { '@type': '/cosmos.bank.v1beta1.MsgSend' },
+    { '@type': '/secret.compute.v1beta1.MsgExecuteContract', msg: encryptedMsg.toString('base64') },
+  ];
+
+  it('should extract nonces from compute messages only', () => {
+    const nonces = extractNonces(messages);
+    expect(nonces[0]).toBeUndefined();
+    expect(nonces[1]!.equals(nonce)).toBe(true);
+  });
+
+  it('should decrypt data, wasm attributes and errors', () => {
+    const responseData = seal(Buffer.from('{"return_amount":"1234"}').toString('base64'));
+    const executeResponse = new ProtobufWriter().bytes(1, responseData).finish();
+    const anyOf = (typeUrl: string, value: Buffer) =>
+      new ProtobufWriter().string(1, typeUrl).bytes(2, value).finish();
+    const txMsgData = new ProtobufWriter()
+      .message(2, anyOf('/cosmos.bank.v1beta1.MsgSendResponse', Buffer.alloc(0)))
+      .message(2, anyOf('/secret.compute.v1beta1.MsgExecuteContractResponse', executeResponse))
+      .finish();
+
+    const wasmEvent = {
+      type: 'wasm',
+      attributes: [
+        { key: 'contract_address', value: 'secret1contract' },
+        { key: seal('action').toString('base64'), value: seal('swap').toString('base64') },
+      ],
+    };
+
+    const result = decryptTxResponse(
+      {
+        data: txMsgData.toString('hex').toUpperCase(),
+        logs: [{ msg_index: 1, events: [wasmEvent] }],
+        events: [{ type: 'transfer', attributes: [] }, wasmEvent],
+        raw_log: `message index: 1: encrypted: ${seal('{"generic_err":{"msg":"slippage"}}').toString('base64')}: execute contract failed`,
+      },
+      extractNonces(messages),
+      user,
+      enclave.publicKey,
+    );
+
+    expect(result.decrypted_data).toEqual([null, { return_amount: '1234' }]);
+    expect(result.logs[0].events[0].attributes).toEqual([
+      { key: 'contract_address', value: 'secret1contract' },
+      { key: 'action', value: 'swap' },
+    ]);
+    expect(result.events[1].attributes[1]).toEqual({ key: 'action', value: 'swap' });
+    expect(result.raw_log).toBe(
+      'message index: 1: {"generic_err":{"msg":"slippage"}}: execute contract failed',
+    );
+  });
+
+  it('should leave responses untouched when there are no compute messages', () => {
+    const txResponse = { raw_log: 'out of gas' };
+    expect(decryptTxResponse(txResponse, [undefined], user, enclave.publicKey)).toBe(txResponse);
+  });
+});
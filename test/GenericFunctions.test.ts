@@ -0,0 +1,1083 @@
+/**
+ * Copyright (c) 2026 Velocity BPA
+ * Licensed under the Business Source License 1.1
+ */
+
+import { createHash } from 'crypto';
+
+import {
+  aesSivEncrypt,
+  computeTxEncryptionKey,
+  encryptionKeyPairFromSeed,
+} from '../nodes/Secret Network/Encryption';
+import {
+  assessValidatorHealth,
+  calculateStakingApr,
+  createRequestContext,
+  extractContractEvents,
+  extractTransfers,
+  fetchAllPages,
+  getLcdEndpoints,
+  getRetryDelay,
+  isFailoverError,
+  isNotFoundError,
+  isNotImplementedError,
+  parseExpectedSequence,
+  parseGovDec,
+  parseRetryAfter,
+  parseTxEvents,
+  planRewardCompounding,
+  projectTally,
+  queryContract,
+  rankLcdEndpoints,
+  requestWithRetry,
+  returnAllPages,
+  rpcRequest,
+  sendRequest,
+  signAndBroadcast,
+  signAndBroadcastInChunks,
+  TransactionBatcher,
+  waitForTransaction,
+} from '../nodes/Secret Network/GenericFunctions';
+import { encodeMsgSend } from '../nodes/Secret Network/Transaction';
+import { decodeTxRaw } from '../nodes/Secret Network/TxDecoder';
+import { walletFromPrivateKey } from '../nodes/Secret Network/Wallet';
+
+// Mock n8n-workflow
+jest.mock('n8n-workflow', () => ({
+  ...jest.requireActual('n8n-workflow'),
+  NodeOperationError: class NodeOperationError extends Error {
+    constructor(node: any, message: string) { super(message); }
+  },
+}));
+
+const CODE_HASH = 'cd'.repeat(32);
+const enclave = encryptionKeyPairFromSeed(Buffer.alloc(32, 7));
+
+/**
+ * Plays the enclave by answering with `answer` encrypted for the nonce and
+ * public key found in the query.
+ */
+function enclaveReply(url: string, answer: Buffer): Buffer {
+  const query = Buffer.from(decodeURIComponent(url.split('query=')[1]), 'base64');
+  const key = computeTxEncryptionKey(enclave, query.subarray(32, 64), query.subarray(0, 32));
+  return aesSivEncrypt(key, answer, [Buffer.alloc(0)]);
+}
+
+describe('queryContract', () => {
+  let mockExecuteFunctions: any;
+  const credentials = { baseUrl: 'https://lcd.secret.express' };
+
+  beforeEach(() => {
+    mockExecuteFunctions = {
+      getNode: jest.fn().mockReturnValue({ name: 'Test Node' }),
+      helpers: { httpRequest: jest.fn() },
+    };
+  });
+
+  const routeRequests = (queryHandler: (url: string) => any) => {
+    mockExecuteFunctions.helpers.httpRequest.mockImplementation(async ({ url }: any) => {
+      if (url.includes('/code_hash/')) return { code_hash: CODE_HASH };
+      if (url.endsWith('/registration/v1beta1/tx-key')) return { key: enclave.publicKey.toString('base64') };
+      return queryHandler(url);
+    });
+  };
+
+  it('should encrypt the query and decrypt the response', async () => {
+    routeRequests((url) => {
+      expect(url).toContain('https://lcd.secret.express/compute/v1beta1/query/secret1contract?query=');
+      const answer = Buffer.from(Buffer.from('{"balance":{"amount":"42"}}').toString('base64'));
+      return { data: enclaveReply(url, answer).toString('base64') };
+    });
+
+    const result = await queryContract.call(mockExecuteFunctions, credentials, 'secret1contract', {
+      balance: { address: 'secret1owner', key: 'api_key_1' },
+    });
+
+    expect(result).toEqual({ balance: { amount: '42' } });
+  });
+
+  it('should decrypt encrypted contract errors', async () => {
+    routeRequests((url) => {
+      const cipher = enclaveReply(url, Buffer.from('{"generic_err":{"msg":"Wrong viewing key"}}'));
+      const error: any = new Error('Request failed with status code 500');
+      error.response = { data: { message: `encrypted: ${cipher.toString('base64')}: query contract failed` } };
+      throw error;
+    });
+
+    await expect(
+      queryContract.call(mockExecuteFunctions, credentials, 'secret1contract', { balance: {} }),
+    ).rejects.toThrow('Contract query failed: {"generic_err":{"msg":"Wrong viewing key"}}');
+  });
+});
+
+describe('signAndBroadcast', () => {
+  let mockExecuteFunctions: any;
+  const credentials = { baseUrl: 'https://lcd.secret.express' };
+  const wallet = walletFromPrivateKey('1'.repeat(64));
+  const message = encodeMsgSend({
+    fromAddress: wallet.address,
+    toAddress: wallet.address,
+    amount: [{ denom: 'uscrt', amount: '1000' }],
+  });
+
+  let minimumGasPrice: string;
+
+  beforeEach(() => {
+    minimumGasPrice = '';
+    mockExecuteFunctions = {
+      getNode: jest.fn().mockReturnValue({ name: 'Test Node' }),
+      helpers: {
+        httpRequest: jest.fn().mockImplementation(async ({ url, body }: any) => {
+          if (url.endsWith('/node_info')) return { default_node_info: { network: 'secret-4' } };
+          if (url.includes('/cosmos/auth/v1beta1/accounts/')) {
+            return { account: { account_number: '12', sequence: '3' } };
+          }
+          if (url.endsWith('/cosmos/base/node/v1beta1/config')) {
+            return { minimum_gas_price: minimumGasPrice };
+          }
+          if (url.endsWith('/cosmos/tx/v1beta1/simulate')) {
+            expect(body.tx_bytes).toEqual(expect.any(String));
+            return { gas_info: { gas_wanted: '0', gas_used: '61234' } };
+          }
+          throw new Error(`Unexpected request to ${url}`);
+        }),
+      },
+    };
+  });
+
+  it('should return the signed tx without broadcasting in sign only mode', async () => {
+    const result = await signAndBroadcast.call(mockExecuteFunctions, credentials, wallet, [message], {
+      gasLimit: 100000,
+      gasPrice: '0.25uscrt',
+      memo: 'payroll',
+      mode: 'signOnly',
+    });
+
+    expect(mockExecuteFunctions.helpers.httpRequest).not.toHaveBeenCalledWith(
+      expect.objectContaining({ url: 'https://lcd.secret.express/cosmos/tx/v1beta1/txs' }),
+    );
+    expect(result.txBytes).toEqual(expect.any(String));
+    expect(result.txhash).toMatch(/^[0-9A-F]{64}$/);
+    expect(result).toMatchObject({
+      signer: wallet.address,
+      chain_id: 'secret-4',
+      account_number: '12',
+      sequence: '3',
+      memo: 'payroll',
+      fee: { amount: [{ denom: 'uscrt', amount: '25000' }], gas_limit: '100000' },
+      messages: [
+        {
+          '@type': '/cosmos.bank.v1beta1.MsgSend',
+          from_address: wallet.address,
+          to_address: wallet.address,
+          amount: [{ denom: 'uscrt', amount: '1000' }],
+        },
+      ],
+    });
+  });
+
+  it('should derive the gas limit from a simulation in auto mode', async () => {
+    const result = await signAndBroadcast.call(mockExecuteFunctions, credentials, wallet, [message], {
+      gasLimit: 200000,
+      gasPrice: '0.25uscrt',
+      mode: 'signOnly',
+      autoGas: true,
+      gasAdjustment: 1.5,
+    });
+
+    // ceil(61234 × 1.5) = 91851, fee = ceil(91851 × 0.25)
+    expect(result.fee).toMatchObject({
+      gas_limit: '91851',
+      amount: [{ denom: 'uscrt', amount: '22963' }],
+    });
+  });
+
+  it('should raise the gas price to the node minimum gas price', async () => {
+    minimumGasPrice = '0.500000000000000000uscrt,0.1uatom';
+
+    const result = await signAndBroadcast.call(mockExecuteFunctions, credentials, wallet, [message], {
+      gasLimit: 100000,
+      gasPrice: '0.25uscrt',
+      mode: 'signOnly',
+    });
+
+    expect(result.fee).toMatchObject({ amount: [{ denom: 'uscrt', amount: '50000' }] });
+  });
+
+  it('should split message groups into transactions of at most the max messages', async () => {
+    const pair = [message, message];
+    const results = await signAndBroadcastInChunks.call(
+      mockExecuteFunctions,
+      credentials,
+      wallet,
+      [pair, pair, [message], pair],
+      4,
+      { gasLimit: 100000, gasPrice: '0.25uscrt', mode: 'signOnly' },
+    );
+
+    expect(results.map((result: any) => [result.messages.length, result.fee.gas_limit])).toEqual([
+      [4, '200000'],
+      [3, '200000'],
+    ]);
+    expect(results.map((result) => result.sequence)).toEqual(['3', '4']);
+  });
+});
+
+describe('waitForTransaction', () => {
+  let mockExecuteFunctions: any;
+  const credentials = { baseUrl: 'https://lcd.secret.express' };
+  const notFound = () => Object.assign(new Error('tx not found'), { httpCode: '404' });
+
+  beforeEach(() => {
+    mockExecuteFunctions = {
+      getNode: jest.fn().mockReturnValue({ name: 'Test Node' }),
+      helpers: { httpRequest: jest.fn() },
+    };
+  });
+
+  it('should poll until the tx is included in a block', async () => {
+    const included = { tx_response: { txhash: 'ABC', height: '100', code: 0 } };
+    mockExecuteFunctions.helpers.httpRequest
+      .mockRejectedValueOnce(notFound())
+      .mockRejectedValueOnce(notFound())
+      .mockResolvedValueOnce(included);
+
+    const result = await waitForTransaction.call(mockExecuteFunctions, credentials, 'ABC', 5, undefined, 1);
+
+    expect(result).toEqual(included);
+    expect(mockExecuteFunctions.helpers.httpRequest).toHaveBeenCalledTimes(3);
+    expect(mockExecuteFunctions.helpers.httpRequest).toHaveBeenCalledWith(
+      expect.objectContaining({ url: 'https://lcd.secret.express/cosmos/tx/v1beta1/txs/ABC' }),
+    );
+  });
+
+  it('should give up after the timeout', async () => {
+    mockExecuteFunctions.helpers.httpRequest.mockRejectedValue(notFound());
+
+    await expect(
+      waitForTransaction.call(mockExecuteFunctions, credentials, 'ABC', 0.05, undefined, 10),
+    ).rejects.toThrow('was not included in a block within 0.05 seconds');
+  });
+
+  it('should rethrow errors other than not found', async () => {
+    mockExecuteFunctions.helpers.httpRequest.mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+    await expect(
+      waitForTransaction.call(mockExecuteFunctions, credentials, 'ABC', 5, undefined, 1),
+    ).rejects.toThrow('ECONNREFUSED');
+  });
+});
+
+describe('extractTransfers', () => {
+  const attributes = (entries: Record<string, string>) =>
+    Object.entries(entries).map(([key, value]) => ({ key, value }));
+
+  it('should normalise message transfers and leave out the fee payment', () => {
+    const transfers = extractTransfers(
+      {
+        txhash: 'ABC',
+        height: '12',
+        timestamp: '2026-01-01T00:00:00Z',
+        logs: [],
+        tx: { body: { memo: 'invoice 42' } },
+        events: [
+          { type: 'transfer', attributes: attributes({ recipient: 'secret1fees', sender: 'secret1me', amount: '2500uscrt' }) },
+          {
+            type: 'transfer',
+            attributes: attributes({ recipient: 'secret1me', sender: 'secret1payer', amount: '5uscrt,7ibc/27394FB', msg_index: '0' }),
+          },
+          {
+            type: 'transfer',
+            attributes: attributes({ recipient: 'secret1shop', sender: 'secret1me', amount: '1uscrt', msg_index: '1' }),
+          },
+        ],
+      },
+      'secret1me',
+    );
+
+    expect(transfers).toEqual([
+      expect.objectContaining({ direction: 'incoming', counterparty: 'secret1payer', denom: 'uscrt', amount: '5', memo: 'invoice 42', height: 12 }),
+      expect.objectContaining({ direction: 'incoming', counterparty: 'secret1payer', denom: 'ibc/27394FB', amount: '7' }),
+      expect.objectContaining({ direction: 'outgoing', counterparty: 'secret1shop', denom: 'uscrt', amount: '1' }),
+    ]);
+  });
+
+  it('should split the merged transfer events of older SDK logs', () => {
+    const transfers = extractTransfers(
+      {
+        txhash: 'DEF',
+        height: '3',
+        logs: [
+          {
+            events: [
+              {
+                type: 'transfer',
+                attributes: [
+                  { key: 'recipient', value: 'secret1other' },
+                  { key: 'sender', value: 'secret1a' },
+                  { key: 'amount', value: '1uscrt' },
+                  { key: 'recipient', value: 'secret1me' },
+                  { key: 'sender', value: 'secret1b' },
+                  { key: 'amount', value: '9uscrt' },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+      'secret1me',
+    );
+
+    expect(transfers).toHaveLength(1);
+    expect(transfers[0]).toMatchObject({ direction: 'incoming', counterparty: 'secret1b', amount: '9' });
+  });
+});
+
+describe('extractContractEvents', () => {
+  it('should split merged wasm events per contract and apply attribute filters', () => {
+    const txResponse = {
+      txhash: 'ABC',
+      height: '8',
+      logs: [
+        {
+          events: [
+            {
+              type: 'wasm',
+              attributes: [
+                { key: 'contract_address', value: 'secret1token' },
+                { key: 'action', value: 'transfer' },
+                { key: 'contract_address', value: 'secret1other' },
+                { key: 'action', value: 'transfer' },
+                { key: 'contract_address', value: 'secret1token' },
+                { key: 'action', value: 'burn' },
+              ],
+            },
+          ],
+        },
+      ],
+    };
+
+    expect(extractContractEvents(txResponse, 'secret1token').map((event) => event.attributes)).toEqual([
+      { action: 'transfer' },
+      { action: 'burn' },
+    ]);
+    expect(extractContractEvents(txResponse, 'secret1token', { action: 'burn' })).toEqual([
+      { txhash: 'ABC', height: 8, timestamp: undefined, contract_address: 'secret1token', attributes: { action: 'burn' } },
+    ]);
+  });
+
+  it('should only read message events of newer SDKs', () => {
+    const events = extractContractEvents(
+      {
+        txhash: 'DEF',
+        height: '9',
+        logs: [],
+        events: [
+          { type: 'wasm', attributes: [{ key: 'contract_address', value: 'secret1token' }] },
+          {
+            type: 'wasm',
+            attributes: [
+              { key: 'contract_address', value: 'secret1token' },
+              { key: 'amount', value: '10' },
+              { key: 'msg_index', value: '0' },
+            ],
+          },
+        ],
+      },
+      'secret1token',
+    );
+
+    expect(events).toHaveLength(1);
+    expect(events[0].attributes).toEqual({ amount: '10', msg_index: '0' });
+  });
+});
+
+describe('rpcRequest', () => {
+  const context = (response: unknown) => ({
+    getNode: jest.fn().mockReturnValue({ name: 'Test Node' }),
+    helpers: { httpRequest: jest.fn().mockResolvedValue(response) },
+  });
+
+  it('should call the URI endpoint and unwrap the JSON-RPC result', async () => {
+    const mock = context({ jsonrpc: '2.0', id: -1, result: { total_count: '0', txs: [] } });
+
+    const result = await rpcRequest.call(mock as any, { rpcUrl: 'https://rpc.test/' }, 'tx_search', {
+      query: JSON.stringify("tm.event='Tx'"),
+      page: 2,
+      prove: undefined,
+    });
+
+    expect(result).toEqual({ total_count: '0', txs: [] });
+    expect(mock.helpers.httpRequest).toHaveBeenCalledWith(
+      expect.objectContaining({
+        method: 'GET',
+        url: 'https://rpc.test/tx_search?query=%22tm.event%3D%27Tx%27%22&page=2',
+      }),
+    );
+  });
+
+  it('should throw the JSON-RPC error', async () => {
+    const mock = context({ jsonrpc: '2.0', id: -1, error: { code: -32603, message: 'Internal error', data: 'height 5 is not available' } });
+
+    await expect(rpcRequest.call(mock as any, {}, 'block_results', { height: 5 })).rejects.toThrow(
+      'RPC block_results failed: height 5 is not available',
+    );
+    expect(mock.helpers.httpRequest.mock.calls[0][0].url).toBe('https://rpc.secret.express/block_results?height=5');
+  });
+});
+
+describe('LCD failover', () => {
+  const now = Date.parse('2026-01-01T00:01:00Z');
+  const probe = (url: string, overrides: Record<string, unknown> = {}) => ({
+    url,
+    healthy: true,
+    network: 'secret-4',
+    height: 1000,
+    blockTime: '2026-01-01T00:00:55Z',
+    syncing: false,
+    latency: 100,
+    ...overrides,
+  });
+
+  it('should list the base URL first and drop duplicates', () => {
+    expect(
+      getLcdEndpoints({ baseUrl: 'https://a.test/', additionalEndpoints: 'https://b.test,\n https://a.test  https://c.test/' }),
+    ).toEqual(['https://a.test', 'https://b.test', 'https://c.test']);
+  });
+
+  it('should skip lagging, syncing and foreign endpoints and order the rest by latency', () => {
+    const ranked = rankLcdEndpoints(
+      [
+        probe('https://slow.test', { latency: 400 }),
+        probe('https://syncing.test', { syncing: true }),
+        probe('https://stale.test', { blockTime: '2026-01-01T00:00:00Z' }),
+        probe('https://behind.test', { height: 980 }),
+        probe('https://testnet.test', { network: 'pulsar-3' }),
+        { url: 'https://down.test', healthy: false, reason: 'unreachable: ECONNREFUSED' },
+        probe('https://fast.test', { latency: 50 }),
+      ],
+      30,
+      now,
+    );
+
+    expect(ranked.map(({ url, healthy, reason }) => [url, healthy, reason])).toEqual([
+      ['https://fast.test', true, undefined],
+      ['https://slow.test', true, undefined],
+      ['https://syncing.test', false, 'catching up'],
+      ['https://stale.test', false, 'latest block is 60 seconds old'],
+      ['https://behind.test', false, '20 blocks behind'],
+      ['https://testnet.test', false, 'on network pulsar-3 instead of secret-4'],
+      ['https://down.test', false, 'unreachable: ECONNREFUSED'],
+    ]);
+  });
+
+  it('should only fail writes over when the endpoint was not reached', () => {
+    const serverError = { message: 'Request failed with status code 502', response: { status: 502 } };
+    expect(isFailoverError(serverError)).toBe(true);
+    expect(isFailoverError({ message: 'timeout of 30000ms exceeded', code: 'ECONNABORTED' })).toBe(true);
+    expect(isFailoverError({ message: 'Not Found', response: { status: 404 } })).toBe(false);
+    expect(isFailoverError(serverError, 'POST')).toBe(false);
+    expect(isFailoverError({ message: 'connect ECONNREFUSED', code: 'ECONNREFUSED' }, 'POST')).toBe(true);
+  });
+
+  it('should route LCD requests to the healthy endpoints and record which one served each item', async () => {
+    const latest = { block: { header: { height: '1000', time: new Date().toISOString() } } };
+    const httpRequest = jest.fn(async ({ url }: { url: string }) => {
+      const { origin, pathname } = new URL(url);
+      if (pathname.endsWith('/node_info')) return { default_node_info: { network: 'secret-4' } };
+      if (pathname.endsWith('/syncing')) return { syncing: origin === 'https://b.test' };
+      if (pathname.endsWith('/blocks/latest')) return latest;
+      if (origin === 'https://a.test') throw { message: 'Bad Gateway', response: { status: 502 } };
+      return { served: origin };
+    });
+    const context = {
+      getCredentials: jest.fn().mockResolvedValue({
+        baseUrl: 'https://a.test',
+        additionalEndpoints: 'https://b.test, https://c.test',
+        maxRetries: 0,
+      }),
+      logger: { warn: jest.fn() },
+      helpers: { httpRequest },
+    };
+
+    const { failover, servedBy } = await createRequestContext.call(context as any);
+    // Both probes answer instantly, so their latency order is arbitrary
+    expect([...failover!.endpoints].sort()).toEqual(['https://a.test', 'https://c.test']);
+
+    const response = await sendRequest.call(
+      context as any,
+      { method: 'GET', url: 'https://a.test/cosmos/bank/v1beta1/balances/x' },
+      1,
+    );
+
+    expect(response).toEqual({ served: 'https://c.test' });
+    expect([...servedBy]).toEqual([[1, 'https://c.test']]);
+    // The failing endpoint is tried last from now on
+    expect(failover!.endpoints).toEqual(['https://c.test', 'https://a.test']);
+
+    await sendRequest.call(context as any, { method: 'GET', url: 'https://c.test/cosmos/tx/v1beta1/txs/X' }, [2, 4]);
+    expect([...servedBy.keys()]).toEqual([1, 2, 4]);
+    await sendRequest.call(context as any, { method: 'GET', url: 'https://other.test/x' }, 0);
+    expect(httpRequest).toHaveBeenLastCalledWith({ method: 'GET', url: 'https://other.test/x' });
+    expect(servedBy.has(0)).toBe(false);
+  });
+
+  it('should not probe anything with a single endpoint', async () => {
+    const context = {
+      getCredentials: jest.fn().mockResolvedValue({ baseUrl: 'https://a.test' }),
+      helpers: { httpRequest: jest.fn() },
+    };
+
+    expect((await createRequestContext.call(context as any)).failover).toBeUndefined();
+    expect(context.helpers.httpRequest).not.toHaveBeenCalled();
+  });
+});
+
+describe('request retries', () => {
+  const rateLimited = (retryAfter?: string) => ({
+    message: 'Too Many Requests',
+    response: { status: 429, headers: retryAfter === undefined ? {} : { 'retry-after': retryAfter } },
+  });
+  const badGateway = { message: 'Bad Gateway', response: { status: 502 } };
+  const timeout = { message: 'timeout of 30000ms exceeded', code: 'ECONNABORTED' };
+
+  beforeEach(() => {
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should honour Retry-After and back off exponentially with jitter otherwise', () => {
+    expect(parseRetryAfter('3')).toBe(3000);
+    expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:10 GMT', Date.parse('2026-01-01T00:00:00Z'))).toBe(10000);
+    expect(parseRetryAfter('soon')).toBeUndefined();
+
+    expect(getRetryDelay(rateLimited('2'), 'POST')).toBe(2000);
+    expect(getRetryDelay(rateLimited('3600'))).toBeUndefined();
+    expect(getRetryDelay(badGateway, 'GET', 2, () => 1)).toBe(4000);
+    expect(getRetryDelay(badGateway, 'GET', 20, () => 1)).toBe(60000);
+    expect(getRetryDelay(badGateway, 'POST')).toBeUndefined();
+    expect(getRetryDelay({ message: 'Bad Request', response: { status: 400 } })).toBeUndefined();
+  });
+
+  it('should retry queries until they succeed or the retries are used up', async () => {
+    const send = jest.fn().mockRejectedValueOnce(badGateway).mockRejectedValueOnce(rateLimited('0')).mockResolvedValue({ ok: true });
+
+    expect(await requestWithRetry(send, { method: 'GET', url: 'https://lcd.test/x' }, { maxRetries: 2 })).toEqual({ ok: true });
+    expect(send).toHaveBeenCalledTimes(3);
+
+    const failing = jest.fn().mockRejectedValue(timeout);
+    await expect(requestWithRetry(failing, { method: 'GET', url: 'https://lcd.test/x' }, { maxRetries: 1 })).rejects.toBe(timeout);
+    expect(failing).toHaveBeenCalledTimes(2);
+  });
+
+  describe('broadcasts', () => {
+    const txBytes = Buffer.from('signed tx').toString('base64');
+    const txHash = createHash('sha256').update('signed tx').digest('hex').toUpperCase();
+    const broadcast = { method: 'POST' as const, url: 'https://lcd.test/cosmos/tx/v1beta1/txs', body: { tx_bytes: txBytes, mode: 'BROADCAST_MODE_SYNC' }, json: true };
+
+    it('should look up a tx whose broadcast timed out instead of sending it again', async () => {
+      const send = jest.fn(async (options: any) => {
+        if (options.method === 'POST') throw timeout;
+        return { tx: {}, tx_response: { txhash: txHash, code: 0, height: '12' } };
+      });
+
+      const response = await requestWithRetry(send, broadcast, { maxRetries: 3 });
+
+      expect(response).toEqual({ tx_response: { txhash: txHash, code: 0, height: '12' } });
+      expect(send).toHaveBeenCalledTimes(2);
+      expect(send.mock.calls[1][0]).toMatchObject({ method: 'GET', url: `https://lcd.test/cosmos/tx/v1beta1/txs/${txHash}`, body: undefined });
+    });
+
+    it('should report an unknown result when the tx cannot be found', async () => {
+      const send = jest.fn(async (options: any) => {
+        throw options.method === 'POST' ? badGateway : { message: 'Not Found', response: { status: 404 } };
+      });
+
+      await expect(requestWithRetry(send, broadcast, { maxRetries: 3, broadcastLookupTimeout: 0 })).rejects.toThrow(
+        `The result of broadcasting transaction ${txHash} is unknown: Bad Gateway. It was not found on chain yet`,
+      );
+      expect(send.mock.calls.filter(([options]) => options.method === 'POST')).toHaveLength(1);
+    });
+
+    it('should look broadcasts up for as long as the confirmation timeout of their item', async () => {
+      jest.useFakeTimers();
+      const httpRequest = jest.fn(async (options: any) => {
+        throw options.method === 'POST' ? badGateway : { message: 'Not Found', response: { status: 404 } };
+      });
+      const context = {
+        getCredentials: jest.fn().mockResolvedValue({ baseUrl: 'https://lcd.test', maxRetries: 0 }),
+        getNodeParameter: jest.fn((name: string, itemIndex: number, fallback: unknown) =>
+          name === 'confirmationTimeout' ? [1, 5][itemIndex] : fallback,
+        ),
+        logger: { warn: jest.fn() },
+        helpers: { httpRequest },
+      };
+      await createRequestContext.call(context as any);
+      const lookUp = async (itemIndex: number) => {
+        httpRequest.mockClear();
+        const result = expect(sendRequest.call(context as any, broadcast, itemIndex)).rejects.toThrow('is unknown');
+        await jest.runAllTimersAsync();
+        await result;
+        return httpRequest.mock.calls.filter(([options]) => options.method === 'GET').length;
+      };
+
+      try {
+        // One lookup within 1 second, and lookups at 0, 2 and 4 seconds within 5 seconds
+        expect(await lookUp(0)).toBe(1);
+        expect(await lookUp(1)).toBe(3);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should resend broadcasts that were rate limited or never reached the node', async () => {
+      const send = jest
+        .fn()
+        .mockRejectedValueOnce(rateLimited('0'))
+        .mockRejectedValueOnce({ message: 'connect ECONNREFUSED', code: 'ECONNREFUSED' })
+        .mockResolvedValue({ tx_response: { txhash: txHash, code: 0 } });
+
+      expect(await requestWithRetry(send, broadcast, { maxRetries: 3 })).toEqual({ tx_response: { txhash: txHash, code: 0 } });
+      expect(send).toHaveBeenCalledTimes(3);
+    });
+  });
+});
+
+describe('Return All pagination', () => {
+  const validators = (from: number, count: number) =>
+    Array.from({ length: count }, (_, index) => ({ operator_address: `secretvaloper${from + index}` }));
+
+  it('should follow next_key until the last page', async () => {
+    const fetchPage = jest.fn(async ({ nextKey }: { nextKey: string }) =>
+      nextKey === ''
+        ? { validators: validators(0, 2), pagination: { next_key: 'KEY1', total: '0' } }
+        : { validators: validators(2, 1), pagination: { next_key: null, total: '0' } },
+    );
+
+    const results = await fetchAllPages(fetchPage, 'validators', 1000);
+
+    expect(results.map((validator) => validator.operator_address)).toEqual([
+      'secretvaloper0',
+      'secretvaloper1',
+      'secretvaloper2',
+    ]);
+    expect(fetchPage.mock.calls.map(([cursor]) => cursor.nextKey)).toEqual(['', 'KEY1']);
+  });
+
+  it('should number the pages of LCD tx searches until the reported total', async () => {
+    const txs = Array.from({ length: 3 }, (_, index) => ({ txhash: `TX${index}` }));
+    const fetchPage = jest.fn(async ({ page }: { page: number }) => ({
+      tx_responses: txs.slice((page - 1) * 2, page * 2),
+      pagination: null,
+      total: '3',
+    }));
+
+    const results = await fetchAllPages(fetchPage, 'tx_responses', 1000);
+
+    expect(results).toEqual(txs);
+    expect(fetchPage.mock.calls.map(([cursor]) => cursor.page)).toEqual([1, 2]);
+  });
+
+  it('should number the pages of RPC tx searches until the reported total', async () => {
+    const txs = Array.from({ length: 5 }, (_, index) => ({ hash: `TX${index}` }));
+    const fetchPage = jest.fn(async ({ page }: { page: number }) => ({
+      txs: txs.slice((page - 1) * 2, page * 2),
+      total_count: '5',
+    }));
+
+    const results = await fetchAllPages(fetchPage, 'txs', 1000);
+
+    expect(results).toEqual(txs);
+    expect(fetchPage.mock.calls.map(([cursor]) => cursor.page)).toEqual([1, 2, 3]);
+  });
+
+  it('should stop at the max items cap', async () => {
+    const fetchPage = jest.fn(async ({ page }: { page: number }) => ({
+      validators: validators((page - 1) * 2, 2),
+      pagination: { next_key: `KEY${page}` },
+    }));
+
+    const results = await fetchAllPages(fetchPage, 'validators', 3);
+
+    expect(results).toHaveLength(3);
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+  });
+
+  it('should emit one item per result or a single merged item', async () => {
+    const context = (returnAllOutput: string) =>
+      ({
+        getNodeParameter: jest.fn(
+          (name: string, _itemIndex: number, fallback: unknown) =>
+            ({ maxItems: 10, returnAllOutput } as Record<string, unknown>)[name] ?? fallback,
+        ),
+      } as any);
+    const fetchPage = async () => ({ proposals: [{ id: '1' }, { id: '2' }], pagination: { next_key: null } });
+
+    expect(await returnAllPages.call(context('items'), 3, 'proposals', fetchPage)).toEqual([
+      { json: { id: '1' }, pairedItem: { item: 3 } },
+      { json: { id: '2' }, pairedItem: { item: 3 } },
+    ]);
+    expect(await returnAllPages.call(context('merged'), 3, 'proposals', fetchPage)).toEqual([
+      { json: { proposals: [{ id: '1' }, { id: '2' }], count: 2 }, pairedItem: { item: 3 } },
+    ]);
+  });
+});
+
+describe('isNotFoundError', () => {
+  it('should recognise 404s and gRPC gateway not found errors', () => {
+    expect(isNotFoundError({ httpCode: '404', message: 'Not Found' })).toBe(true);
+    expect(
+      isNotFoundError({
+        message: 'Request failed with status code 400',
+        response: { status: 400, data: { code: 3, message: 'voter: secret1abc not found for proposal: 7' } },
+      }),
+    ).toBe(true);
+    expect(isNotFoundError({ httpCode: '500', message: 'Internal error' })).toBe(false);
+  });
+});
+
+describe('isNotImplementedError', () => {
+  it('should recognise 501s and gRPC gateway unimplemented errors', () => {
+    expect(isNotImplementedError({ httpCode: '501', message: 'Not Implemented' })).toBe(true);
+    expect(
+      isNotImplementedError({
+        message: 'Request failed with status code 400',
+        response: { status: 400, data: { code: 12, message: 'unknown service cosmos.gov.v1.Query: unimplemented' } },
+      }),
+    ).toBe(true);
+    expect(isNotImplementedError({ httpCode: '503', message: 'Service Unavailable' })).toBe(false);
+  });
+});
+
+describe('parseTxEvents', () => {
+  it('should group event attributes by key', () => {
+    expect(
+      parseTxEvents([
+        {
+          type: 'transfer',
+          attributes: [
+            { key: 'recipient', value: 'secret1a', index: true },
+            { key: 'amount', value: '1uscrt', index: true },
+            { key: 'recipient', value: 'secret1b', index: true },
+          ],
+        },
+      ]),
+    ).toEqual([{ type: 'transfer', attributes: { recipient: ['secret1a', 'secret1b'], amount: '1uscrt' } }]);
+  });
+});
+
+describe('account sequence handling', () => {
+  let mockExecuteFunctions: any;
+  let checkTxResults: any[];
+  let broadcastSequences: string[];
+  const credentials = { baseUrl: 'https://lcd.secret.express' };
+  const wallet = walletFromPrivateKey('1'.repeat(64));
+  const message = encodeMsgSend({
+    fromAddress: wallet.address,
+    toAddress: wallet.address,
+    amount: [{ denom: 'uscrt', amount: '1' }],
+  });
+  const txOptions = { gasLimit: 100000, gasPrice: '0.25uscrt' };
+
+  beforeEach(() => {
+    checkTxResults = [];
+    broadcastSequences = [];
+    mockExecuteFunctions = {
+      getNode: jest.fn().mockReturnValue({ name: 'Test Node' }),
+      helpers: {
+        httpRequest: jest.fn().mockImplementation(async ({ url, body }: any) => {
+          if (url.endsWith('/node_info')) return { default_node_info: { network: 'secret-4' } };
+          if (url.endsWith('/cosmos/base/node/v1beta1/config')) return { minimum_gas_price: '' };
+          if (url.includes('/cosmos/auth/v1beta1/accounts/')) {
+            return { account: { account_number: '12', sequence: '3' } };
+          }
+          if (url.endsWith('/cosmos/tx/v1beta1/txs')) {
+            const decoded = decodeTxRaw(Buffer.from(body.tx_bytes, 'base64'));
+            broadcastSequences.push(decoded.auth_info.signer_infos[0].sequence);
+            return { tx_response: { txhash: decoded.txhash, code: 0, ...checkTxResults.shift() } };
+          }
+          throw new Error(`Unexpected request to ${url}`);
+        }),
+      },
+    };
+  });
+
+  const accountRequests = () =>
+    mockExecuteFunctions.helpers.httpRequest.mock.calls.filter(([{ url }]: any) =>
+      url.includes('/cosmos/auth/v1beta1/accounts/'),
+    );
+
+  it('should reserve consecutive sequences for items of one execution', async () => {
+    for (let i = 0; i < 3; i++) {
+      await signAndBroadcast.call(mockExecuteFunctions, credentials, wallet, [message], txOptions);
+    }
+
+    expect(broadcastSequences).toEqual(['3', '4', '5']);
+    expect(accountRequests()).toHaveLength(1);
+  });
+
+  it('should retry with the expected sequence after a sequence mismatch', async () => {
+    checkTxResults.push({
+      code: 32,
+      raw_log: 'account sequence mismatch, expected 7, got 3: incorrect account sequence',
+    });
+
+    const result = await signAndBroadcast.call(mockExecuteFunctions, credentials, wallet, [message], txOptions);
+    await signAndBroadcast.call(mockExecuteFunctions, credentials, wallet, [message], txOptions);
+
+    expect(result.code).toBe(0);
+    expect(broadcastSequences).toEqual(['3', '7', '8']);
+  });
+
+  it('should hand out a sequence again when CheckTx rejected its tx', async () => {
+    checkTxResults.push({ code: 5, raw_log: 'insufficient funds' });
+
+    await expect(
+      signAndBroadcast.call(mockExecuteFunctions, credentials, wallet, [message], txOptions),
+    ).rejects.toThrow('(code 5): insufficient funds');
+    await signAndBroadcast.call(mockExecuteFunctions, credentials, wallet, [message], txOptions);
+
+    expect(broadcastSequences).toEqual(['3', '3']);
+  });
+
+  it('should parse the expected sequence from the CheckTx log', () => {
+    expect(parseExpectedSequence('account sequence mismatch, expected 12, got 10: incorrect account sequence')).toBe('12');
+    expect(parseExpectedSequence('out of gas')).toBeUndefined();
+  });
+});
+
+describe('TransactionBatcher', () => {
+  let mockExecuteFunctions: any;
+  let broadcasts: any[];
+  const credentials = { baseUrl: 'https://lcd.secret.express' };
+  const wallet = walletFromPrivateKey('1'.repeat(64));
+  const send = (amount: string) =>
+    encodeMsgSend({ fromAddress: wallet.address, toAddress: wallet.address, amount: [{ denom: 'uscrt', amount }] });
+
+  beforeEach(() => {
+    broadcasts = [];
+    mockExecuteFunctions = {
+      getNode: jest.fn().mockReturnValue({ name: 'Test Node' }),
+      continueOnFail: jest.fn().mockReturnValue(false),
+      helpers: {
+        httpRequest: jest.fn().mockImplementation(async ({ url, body }: any) => {
+          if (url.endsWith('/node_info')) return { default_node_info: { network: 'secret-4' } };
+          if (url.endsWith('/cosmos/base/node/v1beta1/config')) return { minimum_gas_price: '' };
+          if (url.includes('/cosmos/auth/v1beta1/accounts/')) {
+            return { account: { account_number: '12', sequence: '0' } };
+          }
+          if (url.endsWith('/cosmos/tx/v1beta1/txs')) {
+            const decoded = decodeTxRaw(Buffer.from(body.tx_bytes, 'base64'));
+            broadcasts.push(decoded);
+            const failed = decoded.body.messages.some((m: any) => m.amount[0].amount === '666');
+            return { tx_response: { txhash: decoded.txhash, code: failed ? 5 : 0, raw_log: failed ? 'insufficient funds' : '' } };
+          }
+          throw new Error(`Unexpected request to ${url}`);
+        }),
+      },
+    };
+  });
+
+  it('should pack item messages into transactions of at most maxMessages', async () => {
+    const batcher = new TransactionBatcher(2);
+    ['1', '2', '3', '4', '5'].forEach((amount, i) => batcher.add(wallet, i, send(amount)));
+
+    const output = await batcher.flush(mockExecuteFunctions, credentials, {
+      gasLimit: 50000,
+      gasPrice: '0.25uscrt',
+    });
+
+    expect(broadcasts.map((tx) => tx.body.messages.length)).toEqual([2, 2, 1]);
+    expect(broadcasts.map((tx) => tx.auth_info.fee.gas_limit)).toEqual(['100000', '100000', '50000']);
+    expect(output.map((item) => item.pairedItem)).toEqual([0, 1, 2, 3, 4].map((item) => ({ item })));
+    expect(output[2].json).toMatchObject({ txhash: broadcasts[1].txhash, message_index: 0, batch_size: 2 });
+    expect(output[3].json).toMatchObject({ txhash: broadcasts[1].txhash, message_index: 1, batch_size: 2 });
+  });
+
+  it('should fail every item of a rejected transaction when continuing on fail', async () => {
+    mockExecuteFunctions.continueOnFail.mockReturnValue(true);
+    const batcher = new TransactionBatcher(2);
+    ['666', '1', '2'].forEach((amount, i) => batcher.add(wallet, i, send(amount)));
+
+    const output = await batcher.flush(mockExecuteFunctions, credentials, {
+      gasLimit: 50000,
+      gasPrice: '0.25uscrt',
+    });
+
+    expect(output[0].json.error).toContain('insufficient funds');
+    expect(output[1].json.error).toContain('insufficient funds');
+    expect(output[2].json).toMatchObject({ code: 0, batch_size: 1 });
+    // The rejected tx did not use up its sequence
+    expect(broadcasts.map((tx) => tx.auth_info.signer_infos[0].sequence)).toEqual(['0', '0']);
+  });
+});
+
+describe('planRewardCompounding', () => {
+  const reward = (validator_address: string, amount: string) => ({
+    validator_address,
+    reward: [{ denom: 'uscrt', amount }],
+  });
+
+  it('should skip small rewards and keep the fee reserve pro rata', () => {
+    const plan = planRewardCompounding(
+      [
+        reward('secretvaloper1a', '3000000.900000000000000000'),
+        reward('secretvaloper1b', '1000000.000000000000000000'),
+        reward('secretvaloper1c', '999999.999999999999999999'),
+        { validator_address: 'secretvaloper1d', reward: [] },
+      ],
+      'uscrt',
+      1000000,
+      100000,
+    );
+
+    expect(plan.total_rewards).toBe(4000000);
+    expect(plan.validators).toEqual([
+      { validator_address: 'secretvaloper1a', rewards: 3000000, restaked: 2925000 },
+      { validator_address: 'secretvaloper1b', rewards: 1000000, restaked: 975000 },
+    ]);
+    expect(plan.total_restaked).toBe(3900000);
+    expect(plan.skipped).toEqual([
+      { validator_address: 'secretvaloper1c', rewards: 999999 },
+      { validator_address: 'secretvaloper1d', rewards: 0 },
+    ]);
+  });
+
+  it('should never restake more than the rewards minus the reserve', () => {
+    const plan = planRewardCompounding(
+      [reward('secretvaloper1a', '7'), reward('secretvaloper1b', '7'), reward('secretvaloper1c', '7')],
+      'uscrt',
+      0,
+      10,
+    );
+    expect(plan.total_restaked).toBeLessThanOrEqual(21 - 10);
+    expect(planRewardCompounding([reward('secretvaloper1a', '50')], 'uscrt', 0, 50).total_restaked).toBe(0);
+  });
+});
+
+describe('assessValidatorHealth', () => {
+  const params = { signed_blocks_window: '22500', min_signed_per_window: '0.050000000000000000' };
+  const validator = {
+    operator_address: 'secretvaloper1abc',
+    jailed: false,
+    status: 'BOND_STATUS_BONDED',
+    description: { moniker: 'n8n' },
+  };
+  const signingInfo = (missed: string, tombstoned = false) => ({
+    address: 'secretvalcons1abc',
+    missed_blocks_counter: missed,
+    tombstoned,
+    jailed_until: '1970-01-01T00:00:00Z',
+  });
+
+  it('should report missed blocks against the signing window', () => {
+    const health = assessValidatorHealth(validator, signingInfo('450'), params, 'secretvalcons1abc', 0.05);
+
+    expect(health).toMatchObject({
+      validator_address: 'secretvaloper1abc',
+      moniker: 'n8n',
+      consensus_address: 'secretvalcons1abc',
+      status: 'healthy',
+      healthy: true,
+      missed_blocks_counter: 450,
+      signed_blocks_window: 22500,
+      missed_blocks_ratio: 0.02,
+      max_missed_blocks: 21375,
+      remaining_missed_blocks: 20925,
+    });
+  });
+
+  it('should flag validators above the warning ratio, jailed or tombstoned', () => {
+    const assess = (v: any, info: any) =>
+      assessValidatorHealth(v, info, params, 'secretvalcons1abc', 0.05).status;
+
+    expect(assess(validator, signingInfo('1125'))).toBe('at_risk');
+    expect(assess({ ...validator, jailed: true }, signingInfo('0'))).toBe('jailed');
+    expect(assess({ ...validator, jailed: true }, signingInfo('0', true))).toBe('tombstoned');
+  });
+
+  it('should read a base64 encoded min signed per window', () => {
+    const encoded = { ...params, min_signed_per_window: Buffer.from('50000000000000000').toString('base64') };
+
+    expect(
+      assessValidatorHealth(validator, signingInfo('450'), encoded, 'secretvalcons1abc', 0.05),
+    ).toMatchObject({ max_missed_blocks: 21375, remaining_missed_blocks: 20925 });
+  });
+});
+
+describe('calculateStakingApr', () => {
+  it('should share the taxed inflation among the bonded tokens and deduct commission', () => {
+    const apr = calculateStakingApr({
+      inflation: 0.09,
+      communityTax: 0.02,
+      foundationTax: 0.08,
+      bondedTokens: 150000000,
+      totalSupply: 300000000,
+      commissionRate: 0.05,
+    });
+
+    expect(apr.bonded_ratio).toBe(0.5);
+    expect(apr.nominal_apr).toBeCloseTo(0.162, 10);
+    expect(apr.apr).toBeCloseTo(0.1539, 10);
+    expect(apr.apr_percent).toBe(15.39);
+  });
+
+  it('should report zero without bonded tokens', () => {
+    expect(
+      calculateStakingApr({ inflation: 0.1, communityTax: 0, bondedTokens: 0, totalSupply: 0 }).apr,
+    ).toBe(0);
+  });
+});
+
+describe('projectTally', () => {
+  const tallyParams = {
+    quorum: '0.334000000000000000',
+    threshold: '0.500000000000000000',
+    veto_threshold: '0.334000000000000000',
+  };
+  const now = Date.parse('2026-01-01T00:00:00Z');
+
+  it('should read gov decimals from both LCD encodings', () => {
+    expect(parseGovDec('0.334000000000000000')).toBe(0.334);
+    expect(parseGovDec(Buffer.from('334000000000000000').toString('base64'))).toBe(0.334);
+  });
+
+  it('should derive turnout, ratios and the time remaining', () => {
+    const projection = projectTally({
+      tally: { yes: '300', abstain: '100', no: '100', no_with_veto: '0' },
+      tallyParams,
+      bondedTokens: 1000,
+      votingEndTime: '2026-01-02T00:00:00Z',
+      now,
+    });
+
+    expect(projection).toMatchObject({
+      total_voted: 500,
+      turnout: 0.5,
+      quorum_reached: true,
+      tokens_missing_for_quorum: 0,
+      yes_ratio: 0.75,
+      veto_ratio: 0,
+      seconds_remaining: 86400,
+      voting_ended: false,
+      projected_outcome: 'passing',
+      passing: true,
+    });
+  });
+
+  it('should project missing quorum, vetoes and rejections', () => {
+    const outcome = (tally: any) =>
+      projectTally({ tally, tallyParams, bondedTokens: 1000, now }).projected_outcome;
+
+    expect(outcome({ yes: '300', abstain: '0', no: '0', no_with_veto: '0' })).toBe('no_quorum');
+    expect(outcome({ yes: '300', abstain: '0', no: '0', no_with_veto: '200' })).toBe('vetoed');
+    expect(outcome({ yes: '200', abstain: '0', no: '200', no_with_veto: '0' })).toBe('rejected');
+    expect(
+      projectTally({ tally: { yes: '100' }, tallyParams, bondedTokens: 1000 }).tokens_missing_for_quorum,
+    ).toBe(234);
+  });
+});
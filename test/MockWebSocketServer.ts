@@ -0,0 +1,103 @@
+/**
+ * Copyright (c) 2026 Velocity BPA
+ * Licensed under the Business Source License 1.1
+ */
+
+import { createHash } from 'crypto';
+import * as http from 'http';
+import { AddressInfo, Socket } from 'net';
+
+/**
+ * A local WebSocket server speaking just enough RFC 6455 to exercise the
+ * client: it records the client's messages and lets tests push frames.
+ */
+export class MockWebSocketServer {
+  readonly sockets: Socket[] = [];
+  readonly messages: string[] = [];
+  readonly pongs: Buffer[] = [];
+  onMessage?: (socket: Socket, message: string) => void;
+
+  private readonly server = http.createServer();
+
+  constructor() {
+    this.server.on('upgrade', (request, socket: Socket) => {
+      const accept = createHash('sha1')
+        .update(`${request.headers['sec-websocket-key']}258EAFA5-E914-47DA-95CA-C5AB0DC85B11`)
+        .digest('base64');
+      socket.write(
+        'HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n' +
+          `Sec-WebSocket-Accept: ${accept}\r\n\r\n`,
+      );
+      this.sockets.push(socket);
+      socket.on('error', () => undefined);
+      socket.on('data', (chunk: Buffer) => this.receive(socket, chunk));
+    });
+  }
+
+  async start(): Promise<string> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async stop(): Promise<void> {
+    this.sockets.forEach((socket) => socket.destroy());
+    await new Promise((resolve) => this.server.close(resolve));
+  }
+
+  get lastSocket(): Socket {
+    return this.sockets[this.sockets.length - 1];
+  }
+
+  send(socket: Socket, message: unknown): void {
+    socket.write(frame(0x1, Buffer.from(typeof message === 'string' ? message : JSON.stringify(message))));
+  }
+
+  sendFrame(socket: Socket, opcode: number, payload: Buffer, fin = true): void {
+    socket.write(frame(opcode, payload, fin));
+  }
+
+  private receive(socket: Socket, chunk: Buffer): void {
+    // Tests only exchange small frames, which arrive in one chunk
+    let offset = 0;
+    while (offset < chunk.length) {
+      const opcode = chunk[offset] & 0x0f;
+      let length = chunk[offset + 1] & 0x7f;
+      let position = offset + 2;
+      if (length === 126) {
+        length = chunk.readUInt16BE(position);
+        position += 2;
+      }
+      const mask = chunk.subarray(position, position + 4);
+      const payload = Buffer.from(chunk.subarray(position + 4, position + 4 + length)).map(
+        (byte, index) => byte ^ mask[index % 4],
+      );
+      offset = position + 4 + length;
+
+      if (opcode === 0x1) {
+        const message = Buffer.from(payload).toString('utf8');
+        this.messages.push(message);
+        this.onMessage?.(socket, message);
+      } else if (opcode === 0xa) {
+        this.pongs.push(Buffer.from(payload));
+      } else if (opcode === 0x8) {
+        socket.end(frame(0x8, Buffer.from(payload)));
+      }
+    }
+  }
+}
+
+function frame(opcode: number, payload: Buffer, fin = true): Buffer {
+  const header =
+    payload.length < 126
+      ? Buffer.from([(fin ? 0x80 : 0) | opcode, payload.length])
+      : Buffer.from([(fin ? 0x80 : 0) | opcode, 126, payload.length >> 8, payload.length & 0xff]);
+  return Buffer.concat([header, payload]);
+}
+
+export async function waitFor(condition: () => boolean, timeout = 5000): Promise<void> {
+  const deadline = Date.now() + timeout;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
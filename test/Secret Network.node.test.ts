@@ -4,7 +4,23 @@
  */
 
 import { IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
-import { SecretNetwork } from '../nodes/Secret Network/Secret Network.node';
+
+import {
+  aesSivDecrypt,
+  aesSivEncrypt,
+  computeTxEncryptionKey,
+  encryptionKeyPairFromSeed,
+} from '../nodes/Secret Network/Encryption';
+import {
+  SecretNetwork,
+  executeAccountsOperations,
+  executeBlocksOperations,
+  executeGovernanceOperations,
+  executeIBCOperations,
+  executeSmartContractsOperations,
+  executeStakingOperations,
+  executeTransactionsOperations,
+} from '../nodes/Secret Network/Secret Network.node';
 
 // Mock n8n-workflow
 jest.mock('n8n-workflow', () => ({
@@ -33,20 +49,23 @@ describe('SecretNetwork Node', () => {
       expect(node.description.outputs).toContain('main');
     });
 
-    it('should define 7 resources', () => {
+    it('should define 14 resources', () => {
       const resourceProp = node.description.properties.find(
         (p: any) => p.name === 'resource'
       );
       expect(resourceProp).toBeDefined();
       expect(resourceProp!.type).toBe('options');
-      expect(resourceProp!.options).toHaveLength(7);
+      expect(resourceProp!.options).toHaveLength(14);
     });
 
     it('should have operation dropdowns for each resource', () => {
+      const resources = (node.description.properties.find((p: any) => p.name === 'resource')!.options as any[])
+        .map((option) => option.value);
       const operations = node.description.properties.filter(
         (p: any) => p.name === 'operation'
       );
-      expect(operations.length).toBe(7);
+      expect(operations.length).toBe(14);
+      expect(operations.flatMap((p: any) => p.displayOptions.show.resource).sort()).toEqual(resources.sort());
     });
 
     it('should require credentials', () => {
@@ -60,8 +79,8 @@ describe('SecretNetwork Node', () => {
         (p: any) => p.displayOptions?.show?.resource
       );
       for (const param of params) {
-        expect(param.displayOptions.show.resource).toBeDefined();
-        expect(Array.isArray(param.displayOptions.show.resource)).toBe(true);
+        expect(param.displayOptions!.show!.resource).toBeDefined();
+        expect(Array.isArray(param.displayOptions!.show!.resource)).toBe(true);
       }
     });
   });
@@ -98,7 +117,7 @@ describe('Blocks Resource', () => {
         url: 'https://lcd.secret.express/cosmos/base/tendermint/v1beta1/blocks/latest',
         headers: { 'Content-Type': 'application/json' },
         json: true,
-        auth: { user: 'test-user', pass: 'test-pass' }
+        auth: { username: 'test-user', password: 'test-pass' }
       });
       expect(result).toEqual([{ json: mockResponse, pairedItem: { item: 0 } }]);
     });
@@ -129,7 +148,7 @@ describe('Blocks Resource', () => {
         url: 'https://lcd.secret.express/cosmos/base/tendermint/v1beta1/blocks/100',
         headers: { 'Content-Type': 'application/json' },
         json: true,
-        auth: { user: 'test-user', pass: 'test-pass' }
+        auth: { username: 'test-user', password: 'test-pass' }
       });
       expect(result).toEqual([{ json: mockResponse, pairedItem: { item: 0 } }]);
     });
@@ -148,7 +167,7 @@ describe('Blocks Resource', () => {
         url: 'https://lcd.secret.express/cosmos/base/tendermint/v1beta1/node_info',
         headers: { 'Content-Type': 'application/json' },
         json: true,
-        auth: { user: 'test-user', pass: 'test-pass' }
+        auth: { username: 'test-user', password: 'test-pass' }
       });
       expect(result).toEqual([{ json: mockResponse, pairedItem: { item: 0 } }]);
     });
@@ -167,7 +186,7 @@ describe('Blocks Resource', () => {
         url: 'https://lcd.secret.express/cosmos/base/tendermint/v1beta1/validatorsets/latest',
         headers: { 'Content-Type': 'application/json' },
         json: true,
-        auth: { user: 'test-user', pass: 'test-pass' }
+        auth: { username: 'test-user', password: 'test-pass' }
       });
       expect(result).toEqual([{ json: mockResponse, pairedItem: { item: 0 } }]);
     });
@@ -188,7 +207,7 @@ describe('Blocks Resource', () => {
         url: 'https://lcd.secret.express/cosmos/base/tendermint/v1beta1/validatorsets/500',
         headers: { 'Content-Type': 'application/json' },
         json: true,
-        auth: { user: 'test-user', pass: 'test-pass' }
+        auth: { username: 'test-user', password: 'test-pass' }
       });
       expect(result).toEqual([{ json: mockResponse, pairedItem: { item: 0 } }]);
     });
@@ -232,7 +251,7 @@ describe('Transactions Resource', () => {
 		);
 
 		expect(result).toHaveLength(1);
-		expect(result[0].json.tx.hash).toBe('test-hash');
+		expect((result[0].json as any).tx.hash).toBe('test-hash');
 		expect(mockExecuteFunctions.helpers.httpRequest).toHaveBeenCalledWith({
 			method: 'GET',
 			url: 'https://lcd.secret.express/cosmos/tx/v1beta1/txs/test-hash',
@@ -281,7 +300,7 @@ describe('Transactions Resource', () => {
 		);
 
 		expect(result).toHaveLength(1);
-		expect(result[0].json.tx_response.txhash).toBe('broadcast-hash');
+		expect((result[0].json as any).tx_response.txhash).toBe('broadcast-hash');
 	});
 
 	it('should simulate transaction successfully', async () => {
@@ -300,7 +319,7 @@ describe('Transactions Resource', () => {
 		);
 
 		expect(result).toHaveLength(1);
-		expect(result[0].json.gas_info.gas_used).toBe('50000');
+		expect((result[0].json as any).gas_info.gas_used).toBe('50000');
 	});
 
 	it('should get transactions by height successfully', async () => {
@@ -577,7 +596,7 @@ describe('Staking Resource', () => {
 			url: 'https://lcd.secret.express/cosmos/staking/v1beta1/validators?status=BOND_STATUS_BONDED&pagination.limit=50',
 			headers: { 'Content-Type': 'application/json' },
 			json: true,
-			auth: { user: 'test-user', pass: 'test-pass' },
+			auth: { username: 'test-user', password: 'test-pass' },
 		});
 
 		expect(result).toEqual([{ json: mockResponse, pairedItem: { item: 0 } }]);
@@ -606,7 +625,7 @@ describe('Staking Resource', () => {
 			url: 'https://lcd.secret.express/cosmos/staking/v1beta1/validators/secretvaloper1test',
 			headers: { 'Content-Type': 'application/json' },
 			json: true,
-			auth: { user: 'test-user', pass: 'test-pass' },
+			auth: { username: 'test-user', password: 'test-pass' },
 		});
 
 		expect(result).toEqual([{ json: mockResponse, pairedItem: { item: 0 } }]);
@@ -640,12 +659,43 @@ describe('Staking Resource', () => {
 			url: 'https://lcd.secret.express/cosmos/staking/v1beta1/delegations/secret1test',
 			headers: { 'Content-Type': 'application/json' },
 			json: true,
-			auth: { user: 'test-user', pass: 'test-pass' },
+			auth: { username: 'test-user', password: 'test-pass' },
 		});
 
 		expect(result).toEqual([{ json: mockResponse, pairedItem: { item: 0 } }]);
 	});
 
+	test('getStakingApr operation should read decimal and base64 encoded Decs', async () => {
+		mockExecuteFunctions.getNodeParameter
+			.mockReturnValueOnce('getStakingApr')
+			.mockReturnValueOnce('');
+
+		const responses: Record<string, any> = {
+			'/cosmos/staking/v1beta1/params': { params: { bond_denom: 'uscrt' } },
+			// Some LCD versions return the mint Dec as base64 of the integer scaled by 10^18
+			'/cosmos/mint/v1beta1/inflation': { inflation: Buffer.from('90000000000000000').toString('base64') },
+			'/cosmos/distribution/v1beta1/params': {
+				params: { community_tax: '0.020000000000000000', secret_foundation_tax: '0.080000000000000000' },
+			},
+			'/cosmos/staking/v1beta1/pool': { pool: { bonded_tokens: '150000000' } },
+			'/cosmos/bank/v1beta1/supply/by_denom?denom=uscrt': { amount: { denom: 'uscrt', amount: '300000000' } },
+		};
+		mockExecuteFunctions.helpers.httpRequest.mockImplementation(async ({ url }: any) =>
+			responses[url.replace('https://lcd.secret.express', '')],
+		);
+
+		const result = await executeStakingOperations.call(mockExecuteFunctions, [{ json: {} }]);
+
+		expect(result[0].json).toMatchObject({
+			denom: 'uscrt',
+			inflation: 0.09,
+			community_tax: 0.02,
+			foundation_tax: 0.08,
+			bonded_ratio: 0.5,
+		});
+		expect((result[0].json as any).nominal_apr).toBeCloseTo(0.162, 10);
+	});
+
 	test('should handle errors gracefully when continueOnFail is true', async () => {
 		mockExecuteFunctions.getNodeParameter.mockReturnValueOnce('getValidators');
 		mockExecuteFunctions.continueOnFail.mockReturnValue(true);
@@ -708,7 +758,8 @@ describe('SmartContracts Resource', () => {
         method: 'GET',
         url: 'https://lcd.secret.express/compute/v1beta1/codes?pagination.offset=0&pagination.limit=100',
         headers: expect.any(Object),
-        json: true
+        json: true,
+        auth: { username: 'test-user', password: 'test-pass' }
       });
     });
 
@@ -746,33 +797,75 @@ describe('SmartContracts Resource', () => {
   });
 
   describe('queryContract operation', () => {
-    it('should query contract state successfully', async () => {
-      const mockResponse = { query_result: {} };
+    const codeHash = 'ab'.repeat(32);
+    const enclave = encryptionKeyPairFromSeed(Buffer.alloc(32, 9));
+
+    // Plays the enclave: decrypts the query and encrypts `answer` for its nonce and public key
+    const enclaveKey = (url: string) => {
+      const query = Buffer.from(decodeURIComponent(url.split('query=')[1]), 'base64');
+      return {
+        query,
+        key: computeTxEncryptionKey(enclave, query.subarray(32, 64), query.subarray(0, 32)),
+      };
+    };
+
+    beforeEach(() => {
       mockExecuteFunctions.getNodeParameter
         .mockReturnValueOnce('queryContract')
         .mockReturnValueOnce('secret1234')
-        .mockReturnValueOnce('{"balance": {}}')
+        .mockReturnValueOnce('{"balance": {"address": "secret1owner"}}')
         .mockReturnValueOnce('viewing_key_123');
-      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(mockResponse);
+    });
+
+    const routeRequests = (queryHandler: (url: string) => any) => {
+      mockExecuteFunctions.helpers.httpRequest.mockImplementation(async ({ url }: any) => {
+        if (url.includes('/code_hash/')) return { code_hash: codeHash };
+        if (url.includes('/tx-key')) return { key: enclave.publicKey.toString('base64') };
+        return queryHandler(url);
+      });
+    };
+
+    it('should send an encrypted query and return the decrypted result', async () => {
+      let plaintext = '';
+      routeRequests((url) => {
+        expect(url).toContain('https://lcd.secret.express/compute/v1beta1/query/secret1234?query=');
+        const { query, key } = enclaveKey(url);
+        plaintext = aesSivDecrypt(key, query.subarray(64), [Buffer.alloc(0)]).toString();
+        const answer = Buffer.from(Buffer.from('{"balance":{"amount":"42"}}').toString('base64'));
+        return { data: aesSivEncrypt(key, answer, [Buffer.alloc(0)]).toString('base64') };
+      });
 
       const result = await executeSmartContractsOperations.call(
         mockExecuteFunctions,
         [{ json: {} }]
       );
 
+      expect(plaintext).toBe(`${codeHash}{"balance":{"address":"secret1owner","key":"viewing_key_123"}}`);
       expect(result).toEqual([
-        { json: mockResponse, pairedItem: { item: 0 } }
+        { json: { balance: { amount: '42' } }, pairedItem: { item: 0 } }
       ]);
-      expect(mockExecuteFunctions.helpers.httpRequest).toHaveBeenCalledWith({
-        method: 'POST',
-        url: 'https://lcd.secret.express/compute/v1beta1/contracts/secret1234/query',
-        headers: expect.any(Object),
-        json: true,
-        body: {
-          query: { balance: {} },
-          viewing_key: 'viewing_key_123'
-        }
+    });
+
+    it('should return the error when the query fails', async () => {
+      routeRequests(() => {
+        throw new Error('API Error');
       });
+      mockExecuteFunctions.continueOnFail.mockReturnValue(true);
+
+      const result = await executeSmartContractsOperations.call(
+        mockExecuteFunctions,
+        [{ json: {} }]
+      );
+
+      expect(result).toEqual([
+        { json: { error: 'API Error' }, pairedItem: { item: 0 } }
+      ]);
+      expect(mockExecuteFunctions.helpers.httpRequest).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          method: 'GET',
+          url: expect.stringContaining('https://lcd.secret.express/compute/v1beta1/query/secret1234?query='),
+        })
+      );
     });
   });
 });
@@ -834,7 +927,7 @@ describe('Governance Resource', () => {
     });
 
     it('should handle getProposals error', async () => {
-      mockExecuteFunctions.getNodeParameter.mockReturnValue('getProposals');
+      mockExecuteFunctions.getNodeParameter.mockReturnValueOnce('getProposals');
       mockExecuteFunctions.helpers.httpRequest.mockRejectedValue(new Error('API Error'));
       mockExecuteFunctions.continueOnFail.mockReturnValue(true);
 
@@ -978,6 +1071,105 @@ describe('Governance Resource', () => {
       }]);
     });
   });
+
+  describe('getTallyProjection', () => {
+    const routeRequests = (v1Error: any) => {
+      mockExecuteFunctions.helpers.httpRequest.mockImplementation(async ({ url }: any) => {
+        const path = url.replace('https://lcd.secret.express', '');
+        if (path === '/cosmos/gov/v1/proposals/7') throw v1Error;
+        if (path === '/cosmos/gov/v1beta1/proposals/7') {
+          return { proposal: { content: { title: 'Upgrade' }, status: 'PROPOSAL_STATUS_VOTING_PERIOD' } };
+        }
+        if (path.endsWith('/tally')) {
+          return { tally: { yes: '60', abstain: '0', no: '10', no_with_veto: '0' } };
+        }
+        if (path.endsWith('/params/tallying')) {
+          return { tally_params: { quorum: '0.334000000000000000', threshold: '0.5', veto_threshold: '0.334' } };
+        }
+        return { pool: { bonded_tokens: '100' } };
+      });
+    };
+
+    it('should fall back to gov v1beta1 when gov v1 is not implemented', async () => {
+      mockExecuteFunctions.getNodeParameter
+        .mockReturnValueOnce('getTallyProjection')
+        .mockReturnValueOnce('7');
+      routeRequests(Object.assign(new Error('Not Implemented'), { response: { status: 501 } }));
+
+      const result = await executeGovernanceOperations.call(mockExecuteFunctions, [{ json: {} }]);
+
+      expect(result[0].json).toMatchObject({ proposal_id: '7', title: 'Upgrade' });
+    });
+
+    it('should not fall back on other errors', async () => {
+      mockExecuteFunctions.getNodeParameter
+        .mockReturnValueOnce('getTallyProjection')
+        .mockReturnValueOnce('7');
+      routeRequests(Object.assign(new Error('Request failed with status code 503'), { response: { status: 503 } }));
+
+      await expect(
+        executeGovernanceOperations.call(mockExecuteFunctions, [{ json: {} }]),
+      ).rejects.toThrow('status code 503');
+      expect(mockExecuteFunctions.helpers.httpRequest).not.toHaveBeenCalledWith(
+        expect.objectContaining({ url: 'https://lcd.secret.express/cosmos/gov/v1beta1/proposals/7' }),
+      );
+    });
+  });
+
+  describe('voteReminder', () => {
+    const routeRequests = (v1Vote: () => any) => {
+      mockExecuteFunctions.getNodeParameter.mockImplementation(
+        (name: string, _itemIndex: number, fallback: unknown) =>
+          ({ operation: 'voteReminder', proposalId: '7', voterSource: 'addresses', voterAddresses: 'secret1voter' } as
+            Record<string, unknown>)[name] ?? fallback,
+      );
+      mockExecuteFunctions.helpers.httpRequest.mockImplementation(async ({ url }: any) => {
+        const path = url.replace('https://lcd.secret.express', '');
+        if (path === '/cosmos/staking/v1beta1/delegations/secret1voter') {
+          return { delegation_responses: [{ balance: { amount: '100' } }], pagination: { next_key: 'KEY1' } };
+        }
+        if (path === '/cosmos/staking/v1beta1/delegations/secret1voter?pagination.key=KEY1') {
+          return { delegation_responses: [{ balance: { amount: '50' } }], pagination: { next_key: null } };
+        }
+        if (path === '/cosmos/gov/v1/proposals/7/votes/secret1voter') return v1Vote();
+        return { vote: { option: 'VOTE_OPTION_NO' } };
+      });
+    };
+
+    it('should sum the delegations of every page and read the vote from gov v1', async () => {
+      routeRequests(() => ({ vote: { options: [{ option: 'VOTE_OPTION_YES', weight: '1.000000000000000000' }] } }));
+
+      const result = await executeGovernanceOperations.call(mockExecuteFunctions, [{ json: {} }]);
+
+      expect(result[0].json).toMatchObject({ voted: true, option: 'VOTE_OPTION_YES', voting_power: 150 });
+      expect(mockExecuteFunctions.helpers.httpRequest).not.toHaveBeenCalledWith(
+        expect.objectContaining({ url: expect.stringContaining('/cosmos/gov/v1beta1/') }),
+      );
+    });
+
+    it('should fall back to gov v1beta1 only when gov v1 is not implemented', async () => {
+      routeRequests(() => {
+        throw Object.assign(new Error('Not Implemented'), { response: { status: 501 } });
+      });
+
+      const result = await executeGovernanceOperations.call(mockExecuteFunctions, [{ json: {} }]);
+
+      expect(result[0].json).toMatchObject({ voted: true, option: 'VOTE_OPTION_NO' });
+    });
+
+    it('should report a missing gov v1 vote as not voted', async () => {
+      routeRequests(() => {
+        throw Object.assign(new Error('Not Found'), { response: { status: 404 } });
+      });
+
+      const result = await executeGovernanceOperations.call(mockExecuteFunctions, [{ json: {} }]);
+
+      expect(result[0].json).toMatchObject({ voted: false, option: null });
+      expect(mockExecuteFunctions.helpers.httpRequest).not.toHaveBeenCalledWith(
+        expect.objectContaining({ url: expect.stringContaining('/cosmos/gov/v1beta1/') }),
+      );
+    });
+  });
 });
 
 describe('IBC Resource', () => {
@@ -1026,6 +1218,23 @@ describe('IBC Resource', () => {
       expect(result[0].json).toEqual({ client_states: [], pagination: {} });
     });
 
+    it('should not send basic auth without credentials', async () => {
+      mockExecuteFunctions.getCredentials.mockResolvedValue({ baseUrl: 'https://lcd.secret.express' });
+      mockExecuteFunctions.getNodeParameter
+        .mockReturnValueOnce('getClientStates')
+        .mockReturnValueOnce({});
+      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue({ client_states: [], pagination: {} });
+
+      await executeIBCOperations.call(mockExecuteFunctions, [{ json: {} }]);
+
+      expect(mockExecuteFunctions.helpers.httpRequest).toHaveBeenCalledWith({
+        method: 'GET',
+        url: 'https://lcd.secret.express/ibc/core/client/v1/client_states',
+        headers: { 'Content-Type': 'application/json' },
+        json: true,
+      });
+    });
+
     it('should handle errors', async () => {
       mockExecuteFunctions.getNodeParameter
         .mockReturnValueOnce('getClientStates')
@@ -1060,7 +1269,7 @@ describe('IBC Resource', () => {
         },
         json: true,
       });
-      expect(result[0].json.client_state.client_id).toBe('07-tendermint-0');
+      expect((result[0].json as any).client_state.client_id).toBe('07-tendermint-0');
     });
   });
 
@@ -1111,7 +1320,7 @@ describe('IBC Resource', () => {
         },
         json: true,
       });
-      expect(result[0].json.connection.id).toBe('connection-0');
+      expect((result[0].json as any).connection.id).toBe('connection-0');
     });
   });
 
@@ -1139,6 +1348,27 @@ describe('IBC Resource', () => {
       });
       expect(result[0].json).toEqual({ channels: [], pagination: {} });
     });
+
+    it('should follow next_key with Return All', async () => {
+      mockExecuteFunctions.getNodeParameter
+        .mockReturnValueOnce('getChannels')
+        .mockReturnValueOnce({})
+        .mockReturnValueOnce(true)
+        .mockReturnValueOnce(1000)
+        .mockReturnValueOnce('items');
+
+      mockExecuteFunctions.helpers.httpRequest
+        .mockResolvedValueOnce({ channels: [{ channel_id: 'channel-0' }], pagination: { next_key: 'KEY1' } })
+        .mockResolvedValueOnce({ channels: [{ channel_id: 'channel-1' }], pagination: { next_key: null } });
+
+      const result = await executeIBCOperations.call(mockExecuteFunctions, [{ json: {} }]);
+
+      expect(mockExecuteFunctions.helpers.httpRequest.mock.calls.map(([options]: any[]) => options.url)).toEqual([
+        'https://lcd.secret.express/ibc/core/channel/v1/channels',
+        'https://lcd.secret.express/ibc/core/channel/v1/channels?pagination.key=KEY1',
+      ]);
+      expect(result.map((item) => item.json)).toEqual([{ channel_id: 'channel-0' }, { channel_id: 'channel-1' }]);
+    });
   });
 });
 });
@@ -0,0 +1,314 @@
+/**
+ * Copyright (c) 2026 Velocity BPA
+ * Licensed under the Business Source License 1.1
+ */
+
+import { SecretNetworkApi } from '../credentials/Secret NetworkApi.credentials';
+import { SecretNetworkTrigger } from '../nodes/Secret Network/Secret NetworkTrigger.node';
+import { calculateFee, encodeMsgSend, signTransaction } from '../nodes/Secret Network/Transaction';
+import { walletFromPrivateKey } from '../nodes/Secret Network/Wallet';
+
+const wallet = walletFromPrivateKey('1'.repeat(64));
+const { txBytes, txHash } = signTransaction(wallet, {
+  messages: [
+    encodeMsgSend({
+      fromAddress: wallet.address,
+      toAddress: wallet.address,
+      amount: [{ denom: 'uscrt', amount: '1' }],
+    }),
+  ],
+  fee: calculateFee(100000, '0.25uscrt'),
+  chainId: 'secret-4',
+  accountNumber: 1,
+  sequence: 0,
+});
+
+const block = (height: number, txs: string[] = []) => ({
+  block_id: { hash: `hash-${height}` },
+  block: {
+    header: { height: String(height), time: '2026-01-01T00:00:00Z', chain_id: 'secret-4' },
+    data: { txs },
+  },
+});
+
+function createPollFunctions(options: {
+  latestHeight: number;
+  staticData: Record<string, any>;
+  parameters?: Record<string, any>;
+  mode?: string;
+}) {
+  const httpRequest = jest.fn(async ({ url }: { url: string }) => {
+    const height = url.split('/blocks/')[1];
+    return height === 'latest'
+      ? block(options.latestHeight)
+      : block(Number(height), [txBytes.toString('base64')]);
+  });
+  return {
+    httpRequest,
+    context: {
+      getCredentials: jest.fn().mockResolvedValue({ baseUrl: 'https://lcd.test' }),
+      getNodeParameter: jest.fn(
+        (name: string, fallback: unknown) => options.parameters?.[name] ?? fallback,
+      ),
+      getWorkflowStaticData: jest.fn().mockReturnValue(options.staticData),
+      getMode: jest.fn().mockReturnValue(options.mode ?? 'trigger'),
+      helpers: { httpRequest },
+    } as any,
+  };
+}
+
+describe('SecretNetworkTrigger', () => {
+  const trigger = new SecretNetworkTrigger();
+
+  it('should start at the latest height without emitting', async () => {
+    const staticData: Record<string, any> = {};
+    const { context } = createPollFunctions({ latestHeight: 100, staticData });
+
+    expect(await trigger.poll.call(context)).toBeNull();
+    expect(staticData.lastHeight).toBe(100);
+  });
+
+  it('should use the registered credential type', async () => {
+    const { name } = new SecretNetworkApi();
+    const { context } = createPollFunctions({ latestHeight: 100, staticData: {} });
+
+    await trigger.poll.call(context);
+
+    expect(trigger.description.credentials).toEqual([expect.objectContaining({ name })]);
+    expect(context.getCredentials).toHaveBeenCalledWith(name);
+  });
+
+  it('should emit new blocks up to the per-poll limit and resume from there', async () => {
+    const staticData: Record<string, any> = { lastHeight: 100 };
+    const { context, httpRequest } = createPollFunctions({
+      latestHeight: 110,
+      staticData,
+      parameters: { maxBlocksPerPoll: 3, includeTransactions: true },
+    });
+
+    const [items] = (await trigger.poll.call(context)) as any;
+
+    expect(items.map((item: any) => item.json.height)).toEqual([101, 102, 103]);
+    expect(httpRequest).toHaveBeenCalledWith(
+      expect.objectContaining({
+        url: 'https://lcd.test/cosmos/base/tendermint/v1beta1/blocks/101',
+      }),
+    );
+    expect(items[0].json).toMatchObject({ hash: 'hash-101', num_txs: 1, tx_hashes: [txHash] });
+    expect(items[0].json.transactions[0].body.messages[0]['@type']).toBe(
+      '/cosmos.bank.v1beta1.MsgSend',
+    );
+    expect(staticData.lastHeight).toBe(103);
+  });
+
+  it('should not advance past blocks that failed to load', async () => {
+    const staticData: Record<string, any> = { lastHeight: 100 };
+    const { context, httpRequest } = createPollFunctions({ latestHeight: 105, staticData });
+    httpRequest.mockImplementationOnce(async () => block(105)).mockRejectedValueOnce(new Error('timeout'));
+
+    await expect(trigger.poll.call(context)).rejects.toThrow('timeout');
+    expect(staticData.lastHeight).toBe(100);
+  });
+
+  it('should show the latest block in manual mode without moving the cursor', async () => {
+    const staticData: Record<string, any> = { lastHeight: 50 };
+    const { context } = createPollFunctions({ latestHeight: 100, staticData, mode: 'manual' });
+
+    const [items] = (await trigger.poll.call(context)) as any;
+
+    expect(items).toHaveLength(1);
+    expect(items[0].json.height).toBe(100);
+    expect(items[0].json.transactions).toBeUndefined();
+    expect(staticData.lastHeight).toBe(50);
+  });
+
+  describe('address activity', () => {
+    const txResponse = (txhash: string, height: number, sender: string, recipient: string) => ({
+      txhash,
+      height: String(height),
+      logs: [
+        {
+          events: [
+            {
+              type: 'transfer',
+              attributes: [
+                { key: 'recipient', value: recipient },
+                { key: 'sender', value: sender },
+                { key: 'amount', value: '10uscrt' },
+              ],
+            },
+          ],
+        },
+      ],
+      tx: { body: { memo: '' } },
+    });
+
+    function createActivityContext(staticData: Record<string, any>, responses: Record<string, any[]>) {
+      const httpRequest = jest.fn(async ({ url }: { url: string }) => {
+        const events = new URL(url).searchParams.get('events') as string;
+        return { tx_responses: responses[events] ?? [] };
+      });
+      return {
+        httpRequest,
+        context: {
+          getCredentials: jest.fn().mockResolvedValue({ baseUrl: 'https://lcd.test' }),
+          getNodeParameter: jest.fn(
+            (name: string, fallback: unknown) =>
+              ({ event: 'addressActivity', address: 'secret1me', direction: 'both' } as any)[name] ?? fallback,
+          ),
+          getWorkflowStaticData: jest.fn().mockReturnValue(staticData),
+          getMode: jest.fn().mockReturnValue('trigger'),
+          helpers: { httpRequest },
+        } as any,
+      };
+    }
+
+    it('should record existing txs on the first poll and emit only new transfers afterwards', async () => {
+      const staticData: Record<string, any> = {};
+      const old = txResponse('OLD', 1, 'secret1a', 'secret1me');
+      const first = createActivityContext(staticData, { "transfer.recipient='secret1me'": [old] });
+
+      expect(await trigger.poll.call(first.context)).toBeNull();
+      expect(staticData.seenTxHashes).toEqual(['OLD']);
+
+      const incoming = txResponse('IN', 5, 'secret1a', 'secret1me');
+      const outgoing = txResponse('OUT', 4, 'secret1me', 'secret1b');
+      const second = createActivityContext(staticData, {
+        "transfer.recipient='secret1me'": [incoming, old],
+        "message.sender='secret1me'": [outgoing],
+      });
+
+      const [items] = (await trigger.poll.call(second.context)) as any;
+
+      expect(second.httpRequest).toHaveBeenCalledWith(
+        expect.objectContaining({ url: expect.stringContaining('order_by=ORDER_BY_DESC') }),
+      );
+      expect(items.map((item: any) => [item.json.txhash, item.json.direction, item.json.counterparty])).toEqual([
+        ['OUT', 'outgoing', 'secret1b'],
+        ['IN', 'incoming', 'secret1a'],
+      ]);
+      expect(staticData.seenTxHashes).toEqual(['OLD', 'IN', 'OUT']);
+      expect(await trigger.poll.call(second.context)).toBeNull();
+    });
+  });
+
+  describe('contract events', () => {
+    const wasmTx = (txhash: string, height: number, action: string) => ({
+      txhash,
+      height: String(height),
+      logs: [
+        {
+          events: [
+            {
+              type: 'wasm',
+              attributes: [
+                { key: 'contract_address', value: 'secret1token' },
+                { key: 'action', value: action },
+              ],
+            },
+          ],
+        },
+      ],
+    });
+
+    function createContractContext(staticData: Record<string, any>, txResponses: any[], mode = 'trigger') {
+      const httpRequest = jest.fn(async (_options: { url: string }) => ({
+        txs: txResponses.map(() => ({ body: { messages: [{ sender: 'secret1someone' }] } })),
+        tx_responses: txResponses,
+      }));
+      return {
+        httpRequest,
+        context: {
+          getCredentials: jest.fn().mockResolvedValue({ baseUrl: 'https://lcd.test' }),
+          getNodeParameter: jest.fn(
+            (name: string, fallback: unknown) =>
+              ({
+                event: 'contractEvent',
+                contractAddress: 'secret1token',
+                attributeFilters: { filter: [{ key: 'action', value: 'transfer' }] },
+              } as any)[name] ?? fallback,
+          ),
+          getWorkflowStaticData: jest.fn().mockReturnValue(staticData),
+          getMode: jest.fn().mockReturnValue(mode),
+          helpers: { httpRequest },
+        } as any,
+      };
+    }
+
+    it('should emit the matching events of new txs executing the contract', async () => {
+      const staticData: Record<string, any> = {};
+      const old = wasmTx('OLD', 1, 'transfer');
+      const first = createContractContext(staticData, [old]);
+
+      expect(await trigger.poll.call(first.context)).toBeNull();
+      expect(new URL(first.httpRequest.mock.calls[0][0].url).searchParams.get('events')).toBe(
+        "wasm.contract_address='secret1token'",
+      );
+
+      const second = createContractContext(staticData, [
+        wasmTx('B', 3, 'transfer'),
+        wasmTx('A', 2, 'burn'),
+        wasmTx('C', 2, 'transfer'),
+        old,
+      ]);
+      const [items] = (await trigger.poll.call(second.context)) as any;
+
+      expect(items.map((item: any) => item.json.txhash)).toEqual(['C', 'B']);
+      expect(items[0].json).toMatchObject({ contract_address: 'secret1token', attributes: { action: 'transfer' } });
+    });
+
+    function createBurstContext(staticData: Record<string, any>, newest: number) {
+      const { context, httpRequest } = createContractContext(staticData, []);
+      // Txs 1..newest, newest first, 50 per page
+      httpRequest.mockImplementation(async ({ url }: { url: string }) => {
+        const params = new URL(url).searchParams;
+        const start = newest - (Number(params.get('page')) - 1) * Number(params.get('limit'));
+        const heights = Array.from({ length: Math.min(50, Math.max(start, 0)) }, (_, index) => start - index);
+        return {
+          total: String(newest),
+          txs: [],
+          tx_responses: heights.map((height) => wasmTx(`TX${height}`, height, 'transfer')),
+        };
+      });
+      context.logger = { warn: jest.fn() };
+      return { context, httpRequest };
+    }
+
+    it('should page back to the last seen tx after a burst', async () => {
+      const staticData: Record<string, any> = {
+        seenTxScope: 'contract:secret1token',
+        seenTxHashes: ['TX1', 'TX2', 'TX3', 'TX4', 'TX5'],
+      };
+      const { context, httpRequest } = createBurstContext(staticData, 120);
+
+      const [items] = (await trigger.poll.call(context)) as any;
+
+      expect(httpRequest).toHaveBeenCalledTimes(3);
+      expect(items).toHaveLength(115);
+      expect(items[0].json.txhash).toBe('TX6');
+      expect(context.logger.warn).not.toHaveBeenCalled();
+    });
+
+    it('should warn when a burst exceeds the pages searched per poll', async () => {
+      const staticData: Record<string, any> = { seenTxScope: 'contract:secret1token', seenTxHashes: ['TX1'] };
+      const { context, httpRequest } = createBurstContext(staticData, 1000);
+
+      const [items] = (await trigger.poll.call(context)) as any;
+
+      expect(httpRequest).toHaveBeenCalledTimes(10);
+      expect(items).toHaveLength(500);
+      expect(items[0].json.txhash).toBe('TX501');
+      expect(context.logger.warn).toHaveBeenCalledWith(expect.stringContaining('older ones are skipped'));
+    });
+
+    it('should show the matching recent events in manual mode without recording them', async () => {
+      const staticData: Record<string, any> = {};
+      const { context } = createContractContext(staticData, [wasmTx('A', 2, 'transfer')], 'manual');
+
+      const [items] = (await trigger.poll.call(context)) as any;
+
+      expect(items).toHaveLength(1);
+      expect(staticData.seenTxHashes).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Copyright (c) 2026 Velocity BPA
+ * Licensed under the Business Source License 1.1
+ */
+
+import { SecretNetworkApi } from '../credentials/Secret NetworkApi.credentials';
+import { SecretNetworkWebSocketTrigger } from '../nodes/Secret Network/Secret NetworkWebSocketTrigger.node';
+import { calculateFee, encodeMsgSend, signTransaction } from '../nodes/Secret Network/Transaction';
+import { walletFromPrivateKey } from '../nodes/Secret Network/Wallet';
+import { MockWebSocketServer, waitFor } from './MockWebSocketServer';
+
+const wallet = walletFromPrivateKey('1'.repeat(64));
+const signedTx = (sequence: number) =>
+  signTransaction(wallet, {
+    messages: [
+      encodeMsgSend({
+        fromAddress: wallet.address,
+        toAddress: wallet.address,
+        amount: [{ denom: 'uscrt', amount: '1' }],
+      }),
+    ],
+    fee: calculateFee(100000, '0.25uscrt'),
+    chainId: 'secret-4',
+    accountNumber: 1,
+    sequence,
+  });
+
+const block = (height: number) => ({
+  block_id: { hash: `HASH${height}` },
+  block: { header: { height: String(height), chain_id: 'secret-4' }, data: { txs: [] } },
+});
+
+describe('SecretNetworkWebSocketTrigger', () => {
+  const trigger = new SecretNetworkWebSocketTrigger();
+  let server: MockWebSocketServer;
+  let rpcUrl: string;
+  let latestHeight: number;
+  let rpcResults: Record<string, (params: URLSearchParams) => unknown>;
+
+  beforeEach(async () => {
+    server = new MockWebSocketServer();
+    rpcUrl = await server.start();
+    // Confirm every subscription like CometBFT does
+    server.onMessage = (socket, message) => server.send(socket, { jsonrpc: '2.0', id: JSON.parse(message).id, result: {} });
+    rpcResults = {
+      status: () => ({ sync_info: { latest_block_height: String(latestHeight) } }),
+      block: (params) => block(Number(params.get('height'))),
+    };
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  function createTriggerFunctions(parameters: Record<string, unknown>) {
+    const emit = jest.fn();
+    const httpRequest = jest.fn(async ({ url }: { url: string }) => {
+      const target = new URL(url);
+      return { jsonrpc: '2.0', id: -1, result: rpcResults[target.pathname.slice(1)](target.searchParams) };
+    });
+    return {
+      emit,
+      httpRequest,
+      context: {
+        getCredentials: jest.fn().mockResolvedValue({ baseUrl: 'https://lcd.test', rpcUrl }),
+        getNodeParameter: jest.fn((name: string, fallback: unknown) => parameters[name] ?? fallback),
+        getMode: jest.fn().mockReturnValue('trigger'),
+        getNode: jest.fn().mockReturnValue({ name: 'Secret Network WebSocket Trigger' }),
+        logger: { warn: jest.fn() },
+        emit,
+        helpers: { httpRequest },
+      } as any,
+    };
+  }
+
+  const emitted = (emit: jest.Mock) => emit.mock.calls.map(([[items]]) => items[0].json);
+
+  it('should subscribe to new blocks and backfill the blocks missed while reconnecting', async () => {
+    latestHeight = 100;
+    const { context, emit } = createTriggerFunctions({ event: 'newBlock' });
+
+    const { closeFunction } = await trigger.trigger.call(context);
+    const { name } = new SecretNetworkApi();
+    expect(trigger.description.credentials).toEqual([expect.objectContaining({ name })]);
+    expect(context.getCredentials).toHaveBeenCalledWith(name);
+    expect(JSON.parse(server.messages[0])).toMatchObject({
+      method: 'subscribe',
+      params: { query: "tm.event='NewBlock'" },
+    });
+
+    const newBlock = (height: number) => ({
+      jsonrpc: '2.0',
+      id: 1,
+      result: { query: "tm.event='NewBlock'", data: { type: 'tendermint/event/NewBlock', value: block(height) } },
+    });
+    server.send(server.lastSocket, newBlock(101));
+    await waitFor(() => emit.mock.calls.length === 1);
+
+    latestHeight = 104;
+    server.lastSocket.destroy();
+    await waitFor(() => server.sockets.length === 2);
+    // Arrives while the missed heights are still being fetched
+    server.send(server.lastSocket, newBlock(104));
+    server.send(server.lastSocket, newBlock(105));
+    await waitFor(() => emit.mock.calls.length === 5);
+
+    expect(emitted(emit).map((item) => item.height)).toEqual([101, 102, 103, 104, 105]);
+    expect(emitted(emit)[0]).toMatchObject({ hash: 'HASH101', chain_id: 'secret-4', num_txs: 0 });
+    expect(context.logger.warn).toHaveBeenCalled();
+
+    await closeFunction!();
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(server.sockets).toHaveLength(2);
+  });
+
+  it('should backfill matching txs with tx_search and skip the ones already emitted', async () => {
+    latestHeight = 50;
+    const first = signedTx(0);
+    const second = signedTx(1);
+    const txResult = (tx: ReturnType<typeof signedTx>, height: number) => ({
+      height: String(height),
+      index: 0,
+      tx: tx.txBytes.toString('base64'),
+      result: { code: 0, gas_used: '1000', events: [{ type: 'transfer', attributes: [{ key: 'amount', value: '1uscrt' }] }] },
+    });
+    rpcResults.tx_search = () => ({
+      txs: [
+        { hash: first.txHash, ...txResult(first, 51), tx_result: txResult(first, 51).result },
+        { hash: second.txHash, ...txResult(second, 55), tx_result: txResult(second, 55).result },
+      ],
+      total_count: '2',
+    });
+    const { context, emit, httpRequest } = createTriggerFunctions({
+      event: 'tx',
+      query: `message.sender='${wallet.address}'`,
+    });
+
+    const { closeFunction } = await trigger.trigger.call(context);
+    expect(JSON.parse(server.messages[0]).params.query).toBe(`tm.event='Tx' AND message.sender='${wallet.address}'`);
+
+    server.send(server.lastSocket, {
+      jsonrpc: '2.0',
+      id: 1,
+      result: { data: { type: 'tendermint/event/Tx', value: { TxResult: txResult(first, 51) } } },
+    });
+    await waitFor(() => emit.mock.calls.length === 1);
+
+    latestHeight = 60;
+    server.lastSocket.destroy();
+    await waitFor(() => emit.mock.calls.length === 2);
+
+    const search = new URL(httpRequest.mock.calls.find(([{ url }]) => url.includes('tx_search'))![0].url);
+    expect(search.searchParams.get('query')).toBe(
+      `"tm.event='Tx' AND message.sender='${wallet.address}' AND tx.height>=51 AND tx.height<=60"`,
+    );
+    expect(emitted(emit).map((item) => [item.txhash, item.height])).toEqual([
+      [first.txHash, 51],
+      [second.txHash, 55],
+    ]);
+    expect(emitted(emit)[0]).toMatchObject({
+      code: 0,
+      events: [{ type: 'transfer', attributes: { amount: '1uscrt' } }],
+    });
+    expect(emitted(emit)[0].tx.body.messages[0]['@type']).toBe('/cosmos.bank.v1beta1.MsgSend');
+
+    await closeFunction!();
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Copyright (c) 2026 Velocity BPA
+ * Licensed under the Business Source License 1.1
+ */
+
+import { createHash } from 'crypto';
+import * as secp256k1 from 'secp256k1';
+import {
+  decodeVarint,
+  encodeVarint,
+  ProtobufReader,
+  ProtobufWriter,
+} from '../nodes/Secret Network/Protobuf';
+import {
+  calculateFee,
+  computeTxHash,
+  encodeCoin,
+  encodeMsgSend,
+  encodeSignDoc,
+  encodeTxBody,
+  encodeAuthInfo,
+  signTransaction,
+} from '../nodes/Secret Network/Transaction';
+import {
+  addressToBytes,
+  applyAccountIndex,
+  consensusPubkeyToAddress,
+  convertAddressPrefix,
+  derivePrivateKey,
+  publicKeyToAddress,
+  walletFromMnemonic,
+  walletFromPrivateKey,
+} from '../nodes/Secret Network/Wallet';
+
+const PRIVATE_KEY = '1'.repeat(64);
+const MNEMONIC =
+  'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+describe('Protobuf encoding', () => {
+  it('should encode varints including values beyond 2^53', () => {
+    expect(encodeVarint(1).toString('hex')).toBe('01');
+    expect(encodeVarint(300).toString('hex')).toBe('ac02');
+    expect(encodeVarint('18446744073709551615').toString('hex')).toBe('ffffffffffffffffff01');
+  });
+
+  it('should decode varints back to decimal strings', () => {
+    for (const value of ['0', '1', '300', '9007199254740993', '18446744073709551615']) {
+      expect(decodeVarint(encodeVarint(value), 0)).toEqual({
+        value,
+        length: encodeVarint(value).length,
+      });
+    }
+  });
+
+  it('should read back written fields', () => {
+    const nested = new ProtobufWriter().string(1, 'inner').finish();
+    const reader = new ProtobufReader(
+      new ProtobufWriter()
+        .uint64(1, '1700000000000000000')
+        .string(2, 'hello')
+        .message(3, nested)
+        .message(3, nested)
+        .bool(4, true)
+        .finish(),
+    );
+
+    expect(reader.uint64(1)).toBe('1700000000000000000');
+    expect(reader.string(2)).toBe('hello');
+    expect(reader.repeatedMessages(3).map((m) => m.string(1))).toEqual(['inner', 'inner']);
+    expect(reader.bool(4)).toBe(true);
+    expect(reader.has(5)).toBe(false);
+  });
+
+  it('should omit default scalar values', () => {
+    const bytes = new ProtobufWriter().uint64(1, 0).string(2, '').bytes(3, Buffer.alloc(0)).finish();
+    expect(bytes).toHaveLength(0);
+  });
+
+  it('should encode a coin', () => {
+    expect(encodeCoin({ denom: 'uscrt', amount: '1000' }).toString('hex')).toBe(
+      '0a0575736372741204' + Buffer.from('1000').toString('hex'),
+    );
+  });
+});
+
+describe('Wallet', () => {
+  it('should derive a secret1 address from a private key', () => {
+    const wallet = walletFromPrivateKey(`0x${PRIVATE_KEY}`);
+    expect(wallet.publicKey).toHaveLength(33);
+    expect(wallet.address).toMatch(/^secret1[0-9a-z]{38}$/);
+    expect(addressToBytes(wallet.address)).toHaveLength(20);
+  });
+
+  it('should reject malformed private keys', () => {
+    expect(() => walletFromPrivateKey('abc')).toThrow('valid 32-byte hex');
+    expect(() => walletFromPrivateKey('0'.repeat(64))).toThrow('valid 32-byte hex');
+  });
+
+  it('should follow the BIP-32 test vector 1 derivation', () => {
+    const seed = Buffer.from('000102030405060708090a0b0c0d0e0f', 'hex');
+    expect(derivePrivateKey(seed, "m/0'").toString('hex')).toBe(
+      'edb2e14f9ee77d26dd93b4ecede8d16ed408ce149b6cd80b0715a2d911a0afea',
+    );
+    expect(derivePrivateKey(seed, "m/0'/1/2'/2/1000000000").toString('hex')).toBe(
+      '471b76e389e528d6de6d816857e012c5455051cad6660850e58372a6c3e6e7c8',
+    );
+  });
+
+  it('should derive the same key as other Cosmos wallets from a mnemonic', () => {
+    const wallet = walletFromMnemonic(MNEMONIC, { derivationPath: "m/44'/118'/0'/0/0" });
+    expect(publicKeyToAddress(wallet.publicKey, 'cosmos')).toBe(
+      'cosmos19rl4cm2hmr8afy4kldpxz3fka4jguq0auqdal4',
+    );
+  });
+
+  it('should use the Secret coin type and account index by default', () => {
+    const first = walletFromMnemonic(MNEMONIC);
+    const second = walletFromMnemonic(MNEMONIC, { accountIndex: 1 });
+    expect(first.address).toMatch(/^secret1/);
+    expect(second.address).not.toBe(first.address);
+    expect(second.address).toBe(
+      walletFromMnemonic(MNEMONIC, { derivationPath: "m/44'/529'/0'/0/1" }).address,
+    );
+    expect(applyAccountIndex("m/44'/529'/0'/0/0", 3)).toBe("m/44'/529'/0'/0/3");
+    expect(applyAccountIndex("m/44'/529'/0'", 2)).toBe("m/44'/529'/2'");
+  });
+
+  it('should convert an account address to its validator operator address', () => {
+    const wallet = walletFromPrivateKey(PRIVATE_KEY);
+    const valoper = convertAddressPrefix(wallet.address, 'secretvaloper');
+    expect(valoper).toMatch(/^secretvaloper1/);
+    expect(addressToBytes(valoper)).toEqual(addressToBytes(wallet.address));
+    expect(convertAddressPrefix(valoper, 'secret')).toBe(wallet.address);
+  });
+
+  it('should derive validator consensus addresses from ed25519 and secp256k1 pubkeys', () => {
+    const ed25519 = Buffer.alloc(32, 9);
+    const address = consensusPubkeyToAddress({
+      '@type': '/cosmos.crypto.ed25519.PubKey',
+      key: ed25519.toString('base64'),
+    });
+    expect(address).toMatch(/^secretvalcons1/);
+    expect(addressToBytes(address)).toEqual(
+      createHash('sha256').update(ed25519).digest().subarray(0, 20),
+    );
+
+    const wallet = walletFromPrivateKey(PRIVATE_KEY);
+    expect(
+      consensusPubkeyToAddress({
+        '@type': '/cosmos.crypto.secp256k1.PubKey',
+        key: wallet.publicKey.toString('base64'),
+      }),
+    ).toBe(publicKeyToAddress(wallet.publicKey, 'secretvalcons'));
+  });
+
+  it('should reject invalid mnemonics and derivation paths', () => {
+    expect(() => walletFromMnemonic('abandon abandon')).toThrow('valid BIP-39');
+    expect(() => walletFromMnemonic(MNEMONIC, { derivationPath: '44/529' })).toThrow(
+      'Invalid derivation path',
+    );
+  });
+});
+
+describe('Transaction signing', () => {
+  const wallet = walletFromPrivateKey(PRIVATE_KEY);
+  const tx = {
+    messages: [encodeMsgSend({ fromAddress: wallet.address, toAddress: wallet.address, amount: [{ denom: 'uscrt', amount: '1' }] })],
+    memo: 'n8n',
+    fee: calculateFee(200000, '0.25uscrt'),
+    chainId: 'secret-4',
+    accountNumber: '42',
+    sequence: '7',
+  };
+
+  it('should calculate the fee from the gas price', () => {
+    expect(calculateFee(200000, '0.25uscrt')).toEqual({
+      amount: [{ denom: 'uscrt', amount: '50000' }],
+      gasLimit: 200000,
+    });
+    expect(() => calculateFee(1, 'cheap')).toThrow('Invalid gas price');
+  });
+
+  it('should produce a SIGN_MODE_DIRECT signature over the sign doc', () => {
+    const { txBytes, txHash } = signTransaction(wallet, tx);
+    const bodyBytes = encodeTxBody(tx.messages, tx.memo);
+    const authInfoBytes = encodeAuthInfo(wallet.publicKey, tx.sequence, tx.fee);
+    const signDoc = encodeSignDoc(bodyBytes, authInfoBytes, tx.chainId, tx.accountNumber);
+    const digest = createHash('sha256').update(signDoc).digest();
+
+    // TxRaw ends with field 3 (signatures): tag 0x1a, length 64
+    const signature = txBytes.subarray(txBytes.length - 64);
+    expect(txBytes[txBytes.length - 66]).toBe(0x1a);
+    expect(secp256k1.ecdsaVerify(signature, digest, wallet.publicKey)).toBe(true);
+    expect(txHash).toBe(computeTxHash(txBytes));
+    expect(txHash).toMatch(/^[0-9A-F]{64}$/);
+  });
+});
@@ -0,0 +1,322 @@
+/**
+ * Copyright (c) 2026 Velocity BPA
+ * Licensed under the Business Source License 1.1
+ */
+
+import { ProtobufReader, ProtobufWriter } from '../nodes/Secret Network/Protobuf';
+import {
+  calculateFee,
+  encodeJsonMessage,
+  encodeLegacyDec,
+  encodeMsgBeginRedelegate,
+  encodeMsgDeposit,
+  encodeMsgExecuteContract,
+  encodeMsgSetWithdrawAddress,
+  encodeMsgSubmitProposal,
+  encodeMsgSubmitProposalV1beta1,
+  encodeMsgWithdrawDelegatorReward,
+  encodeMsgWithdrawValidatorCommission,
+  encodeMsgTransfer,
+  encodeMsgVote,
+  encodeMsgVoteWeighted,
+  parseVoteOption,
+  signTransaction,
+} from '../nodes/Secret Network/Transaction';
+import { decodeMessage, decodeTxRaw } from '../nodes/Secret Network/TxDecoder';
+import { walletFromPrivateKey } from '../nodes/Secret Network/Wallet';
+
+describe('decodeTxRaw', () => {
+  const wallet = walletFromPrivateKey('1'.repeat(64));
+
+  const sign = (messages: any[]) =>
+    signTransaction(wallet, {
+      messages,
+      memo: 'n8n',
+      fee: calculateFee(200000, '0.25uscrt'),
+      chainId: 'secret-4',
+      accountNumber: 5,
+      sequence: 9,
+    });
+
+  it('should decode the body, auth info and signatures of a signed tx', () => {
+    const { txBytes, txHash } = sign([
+      encodeMsgTransfer({
+        sourcePort: 'transfer',
+        sourceChannel: 'channel-0',
+        token: { denom: 'uscrt', amount: '5' },
+        sender: wallet.address,
+        receiver: 'cosmos1receiver',
+        timeoutTimestamp: '1700000000000000000',
+      }),
+    ]);
+
+    const decoded = decodeTxRaw(txBytes);
+
+    expect(decoded.txhash).toBe(txHash);
+    expect(decoded.signers).toEqual([wallet.address]);
+    expect(decoded.body.memo).toBe('n8n');
+    expect(decoded.body.messages).toEqual([
+      {
+        '@type': '/ibc.applications.transfer.v1.MsgTransfer',
+        source_port: 'transfer',
+        source_channel: 'channel-0',
+        token: { denom: 'uscrt', amount: '5' },
+        sender: wallet.address,
+        receiver: 'cosmos1receiver',
+        timeout_height: { revision_number: '0', revision_height: '0' },
+        timeout_timestamp: '1700000000000000000',
+        memo: '',
+      },
+    ]);
+    expect(decoded.auth_info.signer_infos).toEqual([
+      {
+        public_key: {
+          '@type': '/cosmos.crypto.secp256k1.PubKey',
+          key: wallet.publicKey.toString('base64'),
+        },
+        mode_info: { single: { mode: '1' } },
+        sequence: '9',
+      },
+    ]);
+    expect(decoded.auth_info.fee).toEqual({
+      amount: [{ denom: 'uscrt', amount: '50000' }],
+      gas_limit: '200000',
+      payer: '',
+      granter: '',
+    });
+    expect(Buffer.from(decoded.signatures[0], 'base64')).toHaveLength(64);
+  });
+
+  it('should mark the encrypted payload of compute messages', () => {
+    const encrypted = Buffer.concat([Buffer.alloc(32, 1), Buffer.alloc(32, 2), Buffer.alloc(20, 3)]);
+    const { txBytes } = sign([
+      encodeMsgExecuteContract({
+        sender: wallet.address,
+        contract: wallet.address,
+        msg: encrypted,
+        sentFunds: [{ denom: 'uscrt', amount: '1' }],
+      }),
+    ]);
+
+    const [message] = decodeTxRaw(txBytes).body.messages;
+
+    expect(message).toMatchObject({
+      '@type': '/secret.compute.v1beta1.MsgExecuteContract',
+      sender: wallet.address,
+      contract: wallet.address,
+      sent_funds: [{ denom: 'uscrt', amount: '1' }],
+      msg: {
+        encrypted: true,
+        nonce: Buffer.alloc(32, 1).toString('base64'),
+        encryption_pubkey: Buffer.alloc(32, 2).toString('base64'),
+        ciphertext: Buffer.alloc(20, 3).toString('base64'),
+      },
+    });
+  });
+
+  it('should round-trip staking and distribution messages', () => {
+    const { txBytes } = sign([
+      encodeMsgBeginRedelegate({
+        delegatorAddress: wallet.address,
+        validatorSrcAddress: 'secretvaloper1src',
+        validatorDstAddress: 'secretvaloper1dst',
+        amount: { denom: 'uscrt', amount: '1000000' },
+      }),
+      encodeMsgWithdrawDelegatorReward({
+        delegatorAddress: wallet.address,
+        validatorAddress: 'secretvaloper1src',
+      }),
+      encodeMsgWithdrawValidatorCommission({ validatorAddress: 'secretvaloper1src' }),
+      encodeMsgSetWithdrawAddress({ delegatorAddress: wallet.address, withdrawAddress: 'secret1other' }),
+    ]);
+
+    expect(decodeTxRaw(txBytes).body.messages).toEqual([
+      {
+        '@type': '/cosmos.staking.v1beta1.MsgBeginRedelegate',
+        delegator_address: wallet.address,
+        validator_src_address: 'secretvaloper1src',
+        validator_dst_address: 'secretvaloper1dst',
+        amount: { denom: 'uscrt', amount: '1000000' },
+      },
+      {
+        '@type': '/cosmos.distribution.v1beta1.MsgWithdrawDelegatorReward',
+        delegator_address: wallet.address,
+        validator_address: 'secretvaloper1src',
+      },
+      {
+        '@type': '/cosmos.distribution.v1beta1.MsgWithdrawValidatorCommission',
+        validator_address: 'secretvaloper1src',
+      },
+      {
+        '@type': '/cosmos.distribution.v1beta1.MsgSetWithdrawAddress',
+        delegator_address: wallet.address,
+        withdraw_address: 'secret1other',
+      },
+    ]);
+  });
+
+  it('should round-trip governance votes and deposits of both gov versions', () => {
+    const { txBytes } = sign([
+      encodeMsgVote({ proposalId: 7, voter: wallet.address, option: parseVoteOption('no_with_veto') }, 'v1beta1'),
+      encodeMsgVoteWeighted(
+        {
+          proposalId: 7,
+          voter: wallet.address,
+          options: [
+            { option: parseVoteOption('yes'), weight: '0.7' },
+            { option: parseVoteOption('VOTE_OPTION_ABSTAIN'), weight: '0.3' },
+          ],
+        },
+        'v1beta1',
+      ),
+      encodeMsgDeposit({ proposalId: 7, depositor: wallet.address, amount: [{ denom: 'uscrt', amount: '10' }] }, 'v1'),
+    ]);
+
+    expect(decodeTxRaw(txBytes).body.messages).toEqual([
+      {
+        '@type': '/cosmos.gov.v1beta1.MsgVote',
+        proposal_id: '7',
+        voter: wallet.address,
+        option: 'VOTE_OPTION_NO_WITH_VETO',
+      },
+      {
+        '@type': '/cosmos.gov.v1beta1.MsgVoteWeighted',
+        proposal_id: '7',
+        voter: wallet.address,
+        options: [
+          { option: 'VOTE_OPTION_YES', weight: '0.700000000000000000' },
+          { option: 'VOTE_OPTION_ABSTAIN', weight: '0.300000000000000000' },
+        ],
+      },
+      {
+        '@type': '/cosmos.gov.v1.MsgDeposit',
+        proposal_id: '7',
+        depositor: wallet.address,
+        amount: [{ denom: 'uscrt', amount: '10' }],
+      },
+    ]);
+  });
+
+  it('should round-trip proposals built from JSON messages', () => {
+    const spend = {
+      '@type': '/cosmos.distribution.v1beta1.MsgCommunityPoolSpend',
+      recipient: 'secret1recipient',
+      amount: [{ denom: 'uscrt', amount: '1000' }],
+    };
+    const paramChange = {
+      '@type': '/cosmos.params.v1beta1.ParameterChangeProposal',
+      title: 'Blocks',
+      description: 'Raise the window',
+      changes: [{ subspace: 'slashing', key: 'SignedBlocksWindow', value: '"30000"' }],
+    };
+    const { txBytes } = sign([
+      encodeMsgSubmitProposal({
+        messages: [
+          encodeJsonMessage(spend),
+          encodeJsonMessage({ '@type': '/cosmos.gov.v1.MsgExecLegacyContent', content: paramChange }),
+        ],
+        initialDeposit: [{ denom: 'uscrt', amount: '100' }],
+        proposer: wallet.address,
+        title: 'Title',
+        summary: 'Summary',
+      }),
+      encodeMsgSubmitProposalV1beta1({
+        content: encodeJsonMessage(paramChange),
+        initialDeposit: [],
+        proposer: wallet.address,
+      }),
+    ]);
+
+    const gov = 'secret10d07y265gmmuvt4z0w9aw880jnsr700jc88vt0';
+    const [v1, v1beta1] = decodeTxRaw(txBytes).body.messages;
+    expect(v1).toEqual({
+      '@type': '/cosmos.gov.v1.MsgSubmitProposal',
+      messages: [
+        { ...spend, authority: gov },
+        { '@type': '/cosmos.gov.v1.MsgExecLegacyContent', content: paramChange, authority: gov },
+      ],
+      initial_deposit: [{ denom: 'uscrt', amount: '100' }],
+      proposer: wallet.address,
+      metadata: '',
+      title: 'Title',
+      summary: 'Summary',
+      expedited: false,
+    });
+    expect(v1beta1.content).toEqual(paramChange);
+    expect(() => encodeJsonMessage({ '@type': '/custom.v1.MsgUnknown' })).toThrow('typeUrl');
+  });
+
+  it('should validate vote options and decimals', () => {
+    expect(parseVoteOption(2)).toBe(2);
+    expect(() => parseVoteOption('maybe')).toThrow('Unknown vote option');
+    expect(() => parseVoteOption(0)).toThrow('Unknown vote option');
+    expect(encodeLegacyDec('1')).toBe('1000000000000000000');
+    expect(encodeLegacyDec('0.05')).toBe('50000000000000000');
+    expect(() => encodeLegacyDec('1e-3')).toThrow('decimal');
+  });
+
+  it('should throw on bytes that are not a protobuf tx', () => {
+    expect(() => decodeTxRaw(Buffer.from('not a transaction'))).toThrow();
+  });
+});
+
+describe('decodeMessage', () => {
+  const any = (typeUrl: string, value: Buffer) =>
+    new ProtobufReader(new ProtobufWriter().string(1, typeUrl).bytes(2, value).finish());
+  const coin = new ProtobufWriter().string(1, 'uscrt').string(2, '1000000').finish();
+
+  it('should decode staking messages', () => {
+    const value = new ProtobufWriter()
+      .string(1, 'secret1delegator')
+      .string(2, 'secretvaloper1validator')
+      .message(3, coin)
+      .finish();
+
+    expect(decodeMessage(any('/cosmos.staking.v1beta1.MsgDelegate', value))).toEqual({
+      '@type': '/cosmos.staking.v1beta1.MsgDelegate',
+      delegator_address: 'secret1delegator',
+      validator_address: 'secretvaloper1validator',
+      amount: { denom: 'uscrt', amount: '1000000' },
+    });
+  });
+
+  it('should decode weighted votes with scaled legacy decimals', () => {
+    const option = (vote: number, weight: string) =>
+      new ProtobufWriter().uint64(1, vote).string(2, weight).finish();
+    const value = new ProtobufWriter()
+      .uint64(1, 42)
+      .string(2, 'secret1voter')
+      .message(3, option(1, '700000000000000000'))
+      .message(3, option(3, '300000000000000000'))
+      .finish();
+
+    expect(decodeMessage(any('/cosmos.gov.v1beta1.MsgVoteWeighted', value))).toEqual({
+      '@type': '/cosmos.gov.v1beta1.MsgVoteWeighted',
+      proposal_id: '42',
+      voter: 'secret1voter',
+      options: [
+        { option: 'VOTE_OPTION_YES', weight: '0.700000000000000000' },
+        { option: 'VOTE_OPTION_NO', weight: '0.300000000000000000' },
+      ],
+    });
+  });
+
+  it('should decode proposal content and keep unknown types as base64', () => {
+    const content = new ProtobufWriter()
+      .string(1, '/cosmos.gov.v1beta1.TextProposal')
+      .bytes(2, new ProtobufWriter().string(1, 'Title').string(2, 'Text').finish())
+      .finish();
+    const value = new ProtobufWriter().message(1, content).message(2, coin).string(3, 'secret1p').finish();
+
+    expect(decodeMessage(any('/cosmos.gov.v1beta1.MsgSubmitProposal', value))).toEqual({
+      '@type': '/cosmos.gov.v1beta1.MsgSubmitProposal',
+      content: { '@type': '/cosmos.gov.v1beta1.TextProposal', title: 'Title', description: 'Text' },
+      initial_deposit: [{ denom: 'uscrt', amount: '1000000' }],
+      proposer: 'secret1p',
+    });
+    expect(decodeMessage(any('/custom.v1.MsgUnknown', Buffer.from([1, 2, 3])))).toEqual({
+      '@type': '/custom.v1.MsgUnknown',
+      value: 'AQID',
+    });
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Copyright (c) 2026 Velocity BPA
+ * Licensed under the Business Source License 1.1
+ */
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+
+import { connectWebSocket } from '../nodes/Secret Network/WebSocket';
+import { MockWebSocketServer, waitFor } from './MockWebSocketServer';
+
+describe('connectWebSocket', () => {
+  let server: MockWebSocketServer;
+  let url: string;
+
+  beforeEach(async () => {
+    server = new MockWebSocketServer();
+    url = (await server.start()).replace('http', 'ws');
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('should exchange text messages, including fragmented and large ones', async () => {
+    const connection = await connectWebSocket(`${url}/websocket`);
+    const received: string[] = [];
+    connection.on('message', (message: string) => received.push(message));
+
+    connection.send('{"id":1}');
+    await waitFor(() => server.messages.length === 1);
+    expect(server.messages).toEqual(['{"id":1}']);
+
+    server.sendFrame(server.lastSocket, 0x1, Buffer.from('hel'), false);
+    server.sendFrame(server.lastSocket, 0x0, Buffer.from('lo'));
+    server.send(server.lastSocket, 'x'.repeat(1000));
+    await waitFor(() => received.length === 2);
+
+    expect(received).toEqual(['hello', 'x'.repeat(1000)]);
+    connection.close();
+  });
+
+  it('should answer pings with the same payload', async () => {
+    const connection = await connectWebSocket(url);
+
+    server.sendFrame(server.lastSocket, 0x9, Buffer.from('keepalive'));
+    await waitFor(() => server.pongs.length === 1);
+
+    expect(server.pongs[0].toString()).toBe('keepalive');
+    connection.close();
+  });
+
+  it('should report a clean close without an error and a dropped connection with one', async () => {
+    const clean = await connectWebSocket(url);
+    const cleanClose = new Promise((resolve) => clean.once('close', resolve));
+    clean.close();
+    expect(await cleanClose).toBeUndefined();
+
+    const dropped = await connectWebSocket(url);
+    const droppedClose = new Promise<Error>((resolve) => dropped.once('close', resolve));
+    server.lastSocket.destroy();
+    expect((await droppedClose).message).toBe('WebSocket connection closed unexpectedly');
+    expect(dropped.isOpen).toBe(false);
+  });
+
+  it('should fail when the server does not upgrade the connection', async () => {
+    const plain = http.createServer((request, response) => {
+      response.statusCode = 404;
+      response.end();
+    });
+    await new Promise<void>((resolve) => plain.listen(0, '127.0.0.1', resolve));
+    const { port } = plain.address() as AddressInfo;
+
+    await expect(connectWebSocket(`ws://127.0.0.1:${port}/websocket`)).rejects.toThrow(
+      'WebSocket handshake failed with HTTP 404',
+    );
+    await new Promise((resolve) => plain.close(resolve));
+  });
+});